@@ -0,0 +1,85 @@
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ChainStore } from './chainStore';
+import { exportPublicKey, generateSigningKeyPair, signTransaction } from '../src/utils/crypto';
+import { deriveWalletAddress } from '../src/utils/wallet';
+import type { Transaction } from '../src/types';
+
+let signer: { keyPair: CryptoKeyPair; publicKey: string; address: string };
+let directory: string;
+let file: string;
+
+const makeTransaction = async (id: string, amount: number): Promise<Transaction> => {
+  const transaction: Transaction = {
+    id,
+    amount,
+    sender: signer.address,
+    recipient: 'wallet_recipient',
+    timestamp: Date.now(),
+    description: 'Test payment',
+    status: 'pending',
+    publicKey: signer.publicKey,
+  };
+  transaction.signature = await signTransaction(transaction, signer.keyPair.privateKey);
+  return transaction;
+};
+
+beforeAll(async () => {
+  const keyPair = await generateSigningKeyPair();
+  const publicKey = await exportPublicKey(keyPair.publicKey);
+  signer = { keyPair, publicKey, address: await deriveWalletAddress(publicKey) };
+});
+
+beforeEach(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'offpay-sync-'));
+  file = join(directory, 'chain.json');
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe('ChainStore', () => {
+  test('should mine accepted transactions into one block and report the rest', async () => {
+    const store = await ChainStore.open(file);
+    const tips: number[] = [];
+    store.onTip(tip => tips.push(tip.index));
+    const good = await makeTransaction('tx1', 10);
+    const forged = { ...(await makeTransaction('tx2', 20)), amount: 2000 };
+
+    const results = await store.submit([good, good, forged]);
+
+    expect(results.map(result => result.status)).toEqual(['accepted', 'duplicate', 'rejected']);
+    expect(results[2].reason).toBe('invalid_signature');
+    expect(store.getTip().index).toBe(1);
+    expect(tips).toEqual([1]);
+    await expect(store.submit([good])).resolves.toEqual([{ id: 'tx1', status: 'duplicate' }]);
+  });
+
+  test('should page through blocks after a known hash', async () => {
+    const store = await ChainStore.open(file);
+    await store.submit([await makeTransaction('tx1', 10)]);
+    await store.submit([await makeTransaction('tx2', 20)]);
+    const genesis = store.getBlocksAfter(undefined, 1)!;
+
+    expect(genesis.blocks[0].header.index).toBe(0);
+    expect(genesis.hasMore).toBe(true);
+    expect(store.getBlocksAfter(genesis.blocks[0].hash)).toMatchObject({ hasMore: false });
+    expect(store.getBlocksAfter(genesis.blocks[0].hash)!.blocks).toHaveLength(2);
+    expect(store.getBlocksAfter('unknown')).toBeNull();
+  });
+
+  test('should reload the saved chain and refuse a tampered one', async () => {
+    const store = await ChainStore.open(file);
+    await store.submit([await makeTransaction('tx1', 10)]);
+
+    const reopened = await ChainStore.open(file);
+    expect(reopened.getTip()).toEqual(store.getTip());
+
+    const chain = JSON.parse(await readFile(file, 'utf8'));
+    chain[1].transactions[0].amount = 2000;
+    await writeFile(file, JSON.stringify(chain));
+    await expect(ChainStore.open(file)).rejects.toThrow('Stored chain is invalid at block 1');
+  });
+});
@@ -0,0 +1,149 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises"
+import { dirname } from "node:path"
+import type { Block, BlockHeader, Transaction } from "../src/types"
+import { BLOCK_VERSION, EMPTY_MERKLE_ROOT, calculateHeaderHash, computeMerkleRoot } from "../src/utils/blocks"
+import { MIN_DIFFICULTY, validateChain, validateTransactionsForBlock } from "../src/utils/chainValidation"
+import { searchNonce } from "../src/utils/miner"
+import {
+  type ChainTip,
+  MAX_BLOCKS_PER_PULL,
+  type TransactionPushResult,
+  toChainTip,
+} from "../src/utils/syncProtocol"
+
+const createGenesisBlock = (): Block => {
+  const header: BlockHeader = {
+    version: BLOCK_VERSION,
+    index: 0,
+    timestamp: Date.now(),
+    previousHash: "0".repeat(64),
+    merkleRoot: EMPTY_MERKLE_ROOT,
+    txCount: 0,
+    difficulty: MIN_DIFFICULTY,
+    nonce: 0,
+  }
+  return { header, hash: calculateHeaderHash(header), transactions: [] }
+}
+
+// The canonical chain, kept in one JSON file. Transactions are checked with the
+// same rules clients use, so every block the server mines validates on them.
+export class ChainStore {
+  private tipListeners: Set<(tip: ChainTip) => void> = new Set()
+  // Submissions are handled one at a time, since each block builds on the last
+  private queue: Promise<unknown> = Promise.resolve()
+
+  private constructor(
+    private file: string,
+    private chain: Block[],
+  ) {}
+
+  // Starts a new chain if the file doesn't exist yet. Refuses to serve a chain
+  // that fails validation rather than build on it.
+  static async open(file: string): Promise<ChainStore> {
+    let stored: string | null = null
+    try {
+      stored = await readFile(file, "utf8")
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error
+    }
+
+    if (stored === null) {
+      const store = new ChainStore(file, [createGenesisBlock()])
+      await store.save()
+      return store
+    }
+
+    const chain = JSON.parse(stored) as Block[]
+    const report = await validateChain(chain)
+    if (report.status === "invalid") {
+      throw new Error(`Stored chain is invalid at block ${report.blockIndex}: ${report.message}`)
+    }
+    return new ChainStore(file, chain)
+  }
+
+  getTip(): ChainTip {
+    return toChainTip(this.chain[this.chain.length - 1])
+  }
+
+  // Oldest first, starting after `after` or at genesis without it. Null when
+  // `after` isn't in this chain.
+  getBlocksAfter(after?: string, limit: number = MAX_BLOCKS_PER_PULL): { blocks: Block[]; hasMore: boolean } | null {
+    const start = after === undefined ? 0 : this.chain.findIndex((block) => block.hash === after) + 1
+    if (start === 0 && after !== undefined) {
+      return null
+    }
+
+    const blocks = this.chain.slice(start, start + limit)
+    return { blocks, hasMore: start + blocks.length < this.chain.length }
+  }
+
+  // Mines every transaction that passes validation into a new block and reports
+  // on each one, in the order given
+  submit(transactions: Transaction[]): Promise<TransactionPushResult[]> {
+    const run = this.queue.then(() => this.mineSubmitted(transactions))
+    this.queue = run.catch(() => undefined)
+    return run
+  }
+
+  // Returns a function that stops listening
+  onTip(listener: (tip: ChainTip) => void): () => void {
+    this.tipListeners.add(listener)
+    return () => this.tipListeners.delete(listener)
+  }
+
+  private async mineSubmitted(transactions: Transaction[]): Promise<TransactionPushResult[]> {
+    const inChain = new Set(this.chain.flatMap((block) => block.transactions.map((transaction) => transaction.id)))
+    const accepted: Transaction[] = []
+    const results: TransactionPushResult[] = []
+
+    for (const transaction of transactions) {
+      if (inChain.has(transaction.id) || accepted.some((other) => other.id === transaction.id)) {
+        results.push({ id: transaction.id, status: "duplicate" })
+        continue
+      }
+
+      const failure = await validateTransactionsForBlock([...accepted, transaction], this.chain)
+      if (failure) {
+        results.push({ id: transaction.id, status: "rejected", reason: failure.reason, message: failure.message })
+        continue
+      }
+      accepted.push(transaction)
+      results.push({ id: transaction.id, status: "accepted" })
+    }
+
+    if (accepted.length > 0) {
+      // A push is never more than a block's worth
+      this.mineBlock(accepted)
+      await this.save()
+      const tip = this.getTip()
+      this.tipListeners.forEach((listener) => listener(tip))
+    }
+    return results
+  }
+
+  private mineBlock(transactions: Transaction[]): void {
+    const previous = this.chain[this.chain.length - 1]
+    const header: BlockHeader = {
+      version: BLOCK_VERSION,
+      index: previous.header.index + 1,
+      timestamp: Math.max(Date.now(), previous.header.timestamp),
+      previousHash: previous.hash,
+      merkleRoot: computeMerkleRoot(transactions),
+      txCount: transactions.length,
+      difficulty: MIN_DIFFICULTY,
+      nonce: 0,
+    }
+
+    // The difficulty is low enough to mine inline
+    const { nonce, hash } = searchNonce(header, () => true)!
+    this.chain.push({ header: { ...header, nonce }, hash, transactions })
+  }
+
+  // Written to a temporary file first so a crash can't leave half a chain
+  private async save(): Promise<void> {
+    await mkdir(dirname(this.file), { recursive: true })
+    const temporary = `${this.file}.tmp`
+    await writeFile(temporary, JSON.stringify(this.chain))
+    await rename(temporary, this.file)
+  }
+}
@@ -0,0 +1,166 @@
+import { type IncomingMessage, type ServerResponse, createServer } from "node:http"
+import { WebSocketServer } from "ws"
+import {
+  SYNC_PATHS,
+  SYNC_PROTOCOL_VERSION,
+  SYNC_VERSION_HEADER,
+  type BlocksResponse,
+  type PushRequest,
+  type PushResponse,
+  type SyncErrorCode,
+  type SyncErrorResponse,
+  type SyncSocketMessage,
+  type TipResponse,
+  pushRequestSchema,
+} from "../src/utils/syncProtocol"
+import { ChainStore } from "./chainStore"
+
+// Reference sync server: keeps the canonical chain for every client pointed at
+// it. Meant for running OffPay against locally; there is no authentication.
+const PORT = Number(process.env.SYNC_PORT ?? 8787)
+const DATA_FILE = process.env.SYNC_DATA_FILE ?? ".sync-server/chain.json"
+// A full push is well under this
+const MAX_BODY_BYTES = 1024 * 1024
+
+const HTTP_STATUS: Record<SyncErrorCode, number> = {
+  bad_request: 400,
+  unsupported_version: 400,
+  not_found: 404,
+  unknown_block: 404,
+}
+
+// The app is served from another origin during development
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": `Content-Type, ${SYNC_VERSION_HEADER}`,
+}
+
+class SyncError extends Error {
+  constructor(
+    public code: SyncErrorCode,
+    message: string,
+  ) {
+    super(message)
+  }
+}
+
+const sendJson = (response: ServerResponse, status: number, body: object) => {
+  response.writeHead(status, { ...CORS_HEADERS, "Content-Type": "application/json" })
+  response.end(JSON.stringify(body))
+}
+
+const readJson = async (request: IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of request) {
+    size += chunk.length
+    if (size > MAX_BODY_BYTES) {
+      throw new SyncError("bad_request", "Request body is too large")
+    }
+    chunks.push(chunk)
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"))
+  } catch {
+    throw new SyncError("bad_request", "Request body isn't valid JSON")
+  }
+}
+
+// Clients that don't send a version are assumed to speak this one
+const checkVersion = (request: IncomingMessage) => {
+  const requested = request.headers[SYNC_VERSION_HEADER.toLowerCase()]
+  if (requested !== undefined && Number(requested) !== SYNC_PROTOCOL_VERSION) {
+    throw new SyncError(
+      "unsupported_version",
+      `This server speaks sync protocol version ${SYNC_PROTOCOL_VERSION}, not ${requested}`,
+    )
+  }
+}
+
+const handle = async (store: ChainStore, request: IncomingMessage, response: ServerResponse) => {
+  const url = new URL(request.url ?? "/", "http://localhost")
+
+  if (request.method === "OPTIONS") {
+    response.writeHead(204, CORS_HEADERS)
+    response.end()
+    return
+  }
+  checkVersion(request)
+
+  if (request.method === "GET" && url.pathname === SYNC_PATHS.tip) {
+    const body: TipResponse = { version: SYNC_PROTOCOL_VERSION, tip: store.getTip() }
+    sendJson(response, 200, body)
+    return
+  }
+
+  if (request.method === "GET" && url.pathname === SYNC_PATHS.blocks) {
+    const after = url.searchParams.get("after") ?? undefined
+    const page = store.getBlocksAfter(after)
+    if (!page) {
+      throw new SyncError("unknown_block", `Block ${after} isn't in this chain`)
+    }
+    const body: BlocksResponse = { version: SYNC_PROTOCOL_VERSION, ...page, tip: store.getTip() }
+    sendJson(response, 200, body)
+    return
+  }
+
+  if (request.method === "POST" && url.pathname === SYNC_PATHS.transactions) {
+    const parsed = pushRequestSchema.safeParse(await readJson(request))
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0]
+      throw new SyncError("bad_request", `${issue.path.join(".") || "body"}: ${issue.message}`)
+    }
+    const { transactions } = parsed.data as PushRequest
+    const results = await store.submit(transactions)
+    const body: PushResponse = { version: SYNC_PROTOCOL_VERSION, results, tip: store.getTip() }
+    sendJson(response, 200, body)
+    return
+  }
+
+  throw new SyncError("not_found", `No route for ${request.method} ${url.pathname}`)
+}
+
+const main = async () => {
+  const store = await ChainStore.open(DATA_FILE)
+
+  const server = createServer((request, response) => {
+    handle(store, request, response).catch((error) => {
+      const code: SyncErrorCode = error instanceof SyncError ? error.code : "bad_request"
+      if (!(error instanceof SyncError)) {
+        console.error("Failed to handle request:", error)
+      }
+      const body: SyncErrorResponse = {
+        version: SYNC_PROTOCOL_VERSION,
+        error: code,
+        message: error instanceof Error ? error.message : String(error),
+      }
+      sendJson(response, HTTP_STATUS[code], body)
+    })
+  })
+
+  // Clients pull blocks over HTTP; the socket only says when there are new ones
+  const sockets = new WebSocketServer({ server, path: SYNC_PATHS.socket })
+  sockets.on("connection", (socket) => {
+    const hello: SyncSocketMessage = { type: "hello", version: SYNC_PROTOCOL_VERSION, tip: store.getTip() }
+    socket.send(JSON.stringify(hello))
+  })
+  store.onTip((tip) => {
+    const message = JSON.stringify({ type: "tip", tip } satisfies SyncSocketMessage)
+    sockets.clients.forEach((socket) => {
+      if (socket.readyState === socket.OPEN) socket.send(message)
+    })
+  })
+
+  server.listen(PORT, () => {
+    const tip = store.getTip()
+    console.log(`OffPay sync server (protocol v${SYNC_PROTOCOL_VERSION}) listening on http://localhost:${PORT}`)
+    console.log(`Chain in ${DATA_FILE}: ${tip.index + 1} blocks, tip ${tip.hash}`)
+  })
+}
+
+main().catch((error) => {
+  console.error("Sync server failed to start:", error)
+  process.exit(1)
+})
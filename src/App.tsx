@@ -13,8 +13,11 @@ import Profile from "./pages/Profile";
 import NotFound from "./pages/NotFound";
 import Auth from "./pages/Auth";
 import AuthWrapper from "./components/auth/AuthWrapper";
+import AccountSession from "./components/auth/AccountSession";
+import PeerSession from "./components/PeerSession";
 import SplitBill from "./pages/SplitBill";
 import Activity from "./pages/Activity";
+import Pay from "./pages/Pay";
 
 const queryClient = new QueryClient();
 
@@ -31,12 +34,17 @@ const App = () => (
             </div>
           </ClerkLoading>
           <ClerkLoaded>
+            <AccountSession />
+            <SignedIn>
+              <PeerSession />
+            </SignedIn>
             <Routes>
               <Route path="/" element={<Index />} />
               <Route path="/sign-in/*" element={<Auth />} />
               <Route path="/sign-up/*" element={<Auth />} />
               <Route path="/generate" element={<AuthWrapper><Generate /></AuthWrapper>} />
               <Route path="/scan" element={<AuthWrapper><Scan /></AuthWrapper>} />
+              <Route path="/pay/:payload" element={<AuthWrapper><Pay /></AuthWrapper>} />
               <Route path="/transactions" element={<AuthWrapper><Transactions /></AuthWrapper>} />
               <Route path="/profile" element={<AuthWrapper><Profile /></AuthWrapper>} />
               <Route path="/split-bill" element={<AuthWrapper><SplitBill /></AuthWrapper>} />
@@ -0,0 +1,191 @@
+"use client"
+
+import { useState } from "react"
+import { useNavigate } from "react-router-dom"
+import { useClerk, useSessionList, useUser } from "@clerk/clerk-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Separator } from "@/components/ui/separator"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+import { toast } from "@/components/ui/use-toast"
+import { LogOut, Trash2, Users } from "lucide-react"
+import type { LocalAccount } from "@/types"
+import { deactivateLocalAccount, getLocalAccounts, removeLocalAccount } from "@/utils/accounts"
+
+const AccountSwitcher = () => {
+  const { user } = useUser()
+  const { signOut } = useClerk()
+  const { sessions, setActive } = useSessionList()
+  const navigate = useNavigate()
+  const [accounts, setAccounts] = useState<LocalAccount[]>(getLocalAccounts())
+  const [isWorking, setIsWorking] = useState(false)
+
+  const handleSignOut = async (eraseData: boolean) => {
+    if (!user) return
+
+    setIsWorking(true)
+    try {
+      if (eraseData) {
+        await removeLocalAccount(user.id)
+      } else {
+        await deactivateLocalAccount()
+      }
+      await signOut()
+      navigate("/")
+    } catch (error) {
+      console.error("Failed to sign out:", error)
+      toast({
+        title: "Error",
+        description: "Failed to sign out. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  // Uses an existing Clerk session when there is one; otherwise the user has to
+  // sign in again as that account
+  const handleSwitch = async (account: LocalAccount) => {
+    setIsWorking(true)
+    try {
+      const session = sessions?.find((s) => s.user?.id === account.userId)
+      if (session && setActive) {
+        await setActive({ session: session.id })
+      } else {
+        await deactivateLocalAccount()
+        await signOut()
+        navigate("/sign-in")
+      }
+    } catch (error) {
+      console.error("Failed to switch account:", error)
+      toast({
+        title: "Error",
+        description: "Failed to switch accounts. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleRemove = async (account: LocalAccount) => {
+    setIsWorking(true)
+    try {
+      await removeLocalAccount(account.userId)
+      setAccounts(getLocalAccounts())
+      toast({
+        title: "Account Removed",
+        description: `Local data for ${account.displayName} has been erased from this device.`,
+      })
+    } catch (error) {
+      console.error("Failed to remove account:", error)
+      toast({
+        title: "Error",
+        description: "Failed to remove the account. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Accounts on this Device
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Each account's transactions, blockchain and wallet are stored separately and encrypted with its own PIN.
+        </p>
+
+        <div className="space-y-3">
+          {accounts.map((account) => (
+            <div key={account.userId} className="flex justify-between items-center gap-2 text-sm">
+              <div className="min-w-0">
+                <div className="font-medium truncate">{account.displayName}</div>
+                {account.email && <div className="text-xs text-muted-foreground truncate">{account.email}</div>}
+              </div>
+              {account.userId === user?.id ? (
+                <Badge>Current</Badge>
+              ) : (
+                <div className="flex gap-1 shrink-0">
+                  <Button size="sm" variant="outline" onClick={() => handleSwitch(account)} disabled={isWorking}>
+                    Switch
+                  </Button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button size="sm" variant="ghost" disabled={isWorking} aria-label="Remove account">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Remove {account.displayName}?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          This erases the account's transactions, blockchain and wallet keys from this device. Make sure
+                          a recovery file has been exported first.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => handleRemove(account)}>Remove</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <Separator />
+
+        <div className="grid grid-cols-1 gap-2">
+          <Button variant="outline" onClick={() => handleSignOut(false)} disabled={isWorking}>
+            <LogOut className="mr-2 h-4 w-4" />
+            Sign Out
+          </Button>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" className="text-destructive" disabled={isWorking}>
+                <Trash2 className="mr-2 h-4 w-4" />
+                Sign Out and Erase Local Data
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Erase your data from this device?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Your transactions, blockchain and wallet keys on this device will be deleted. Without a recovery file
+                  your wallet cannot be restored.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={() => handleSignOut(true)}>Erase and Sign Out</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default AccountSwitcher
@@ -0,0 +1,49 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useMemo, useState } from "react"
+import { QRCodeSVG } from "qrcode.react"
+import type { QRPayload } from "@/utils/qrCodec"
+import { QR_FRAME_INTERVAL_MS, encodeQRFrames } from "@/utils/qrFrames"
+
+interface AnimatedQRCodeProps {
+  // Keep the object stable between renders; a new one restarts the animation
+  payload: QRPayload
+  size?: number
+  className?: string
+}
+
+// Shows the payload as one QR code, or cycles through frames when it is too big
+// for one. The scanner reassembles the frames in whatever order it catches them.
+const AnimatedQRCode: React.FC<AnimatedQRCodeProps> = ({ payload, size = 220, className }) => {
+  const frames = useMemo(() => encodeQRFrames(payload), [payload])
+  const [frameIndex, setFrameIndex] = useState(0)
+
+  useEffect(() => {
+    setFrameIndex(0)
+    if (frames.length < 2) return
+
+    const interval = setInterval(() => setFrameIndex((index) => (index + 1) % frames.length), QR_FRAME_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [frames])
+
+  return (
+    <div className="flex flex-col items-center">
+      {/* Frames carry less error correction so each stays scannable at this size */}
+      <QRCodeSVG
+        value={frames[frameIndex % frames.length]}
+        size={size}
+        level={frames.length > 1 ? "M" : "H"}
+        includeMargin
+        className={className}
+      />
+      {frames.length > 1 && (
+        <div className="text-xs text-muted-foreground mt-2">
+          Part {(frameIndex % frames.length) + 1} of {frames.length}. Hold the scanner steady until it completes.
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default AnimatedQRCode
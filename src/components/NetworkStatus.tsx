@@ -1,12 +1,14 @@
 
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { getNetworkState, registerNetworkListeners } from '../utils/network';
+import { getNetworkState, onLastSyncedChange, registerNetworkListeners } from '../utils/network';
+import { getSyncQueueStatus, onSyncQueueChange } from '../utils/syncScheduler';
 import { cn } from '@/lib/utils';
 import { WifiIcon, WifiOffIcon } from 'lucide-react';
 
 const NetworkStatus: React.FC = () => {
   const [networkState, setNetworkState] = useState(getNetworkState());
+  const [queue, setQueue] = useState(getSyncQueueStatus());
   
   useEffect(() => {
     
@@ -23,8 +25,16 @@ const NetworkStatus: React.FC = () => {
         setNetworkState({ ...getNetworkState(), isOnline: false });
       }
     );
+    const stopWatchingSync = onLastSyncedChange(lastSynced => {
+      setNetworkState(current => ({ ...current, lastSynced }));
+    });
+    const stopWatchingQueue = onSyncQueueChange(setQueue);
     
-    return cleanup;
+    return () => {
+      cleanup();
+      stopWatchingSync();
+      stopWatchingQueue();
+    };
   }, []);
   
   
@@ -34,6 +44,20 @@ const NetworkStatus: React.FC = () => {
     const date = new Date(networkState.lastSynced);
     return `Last sync: ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
   };
+
+  // Takes the place of the last sync time while the queue has work
+  const formatQueue = (): string | null => {
+    switch (queue.state) {
+      case 'syncing':
+        return `Syncing ${queue.done}/${queue.total}`;
+      case 'waiting':
+        return `${queue.queued} to retry at ${new Date(queue.nextRetryAt!).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}`;
+      case 'offline':
+        return queue.queued > 0 ? `${queue.queued} queued` : null;
+      default:
+        return null;
+    }
+  };
   
   return (
     <motion.div 
@@ -61,8 +85,8 @@ const NetworkStatus: React.FC = () => {
         )}>
           {networkState.isOnline ? "Online" : "Offline"}
         </span>
-        <span className="text-xs text-muted-foreground">
-          {formatLastSynced()}
+        <span className="text-xs text-muted-foreground" title={queue.lastError ?? undefined}>
+          {formatQueue() ?? formatLastSynced()}
         </span>
       </div>
     </motion.div>
@@ -0,0 +1,239 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useRef, useState } from "react"
+import type { PeerSignal } from "@/types"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { toast } from "@/components/ui/use-toast"
+import AnimatedQRCode from "./AnimatedQRCode"
+import QRCameraView from "./QRCameraView"
+import { blockchain } from "@/utils/blockchain"
+import { paymentEventManager } from "@/utils/paymentEvents"
+import {
+  type PeerLink,
+  type PeerLinkState,
+  closePeerLink,
+  getActivePeerLink,
+  onActivePeerLinkChange,
+  openPeerLink,
+} from "@/utils/peerLink"
+import { decodeQRPayload } from "@/utils/qrCodec"
+import { QRFrameAssembler } from "@/utils/qrFrames"
+import { Loader2, Smartphone, Unplug } from "lucide-react"
+
+// Enough for the other device to catch up on recent payments without
+// overflowing a data channel message
+const CHAIN_SEGMENT_BLOCKS = 10
+
+// Where this device is in the handshake; the offering device shows its code
+// first, the answering one scans first
+type PairingStep =
+  | { name: "choose" }
+  | { name: "preparing" }
+  | { name: "show-offer"; signal: PeerSignal }
+  | { name: "scan"; expecting: PeerSignal["role"] }
+  | { name: "show-answer"; signal: PeerSignal }
+
+// Links this device to another one nearby by swapping two QR codes, after which
+// payment requests, receipts and blocks go straight between them
+const PeerConnect: React.FC = () => {
+  const [open, setOpen] = useState(false)
+  const [step, setStep] = useState<PairingStep>({ name: "choose" })
+  const [link, setLink] = useState<PeerLink | null>(getActivePeerLink())
+  const [linkState, setLinkState] = useState<PeerLinkState | null>(getActivePeerLink()?.state ?? null)
+  const [frameProgress, setFrameProgress] = useState<{ received: number; total: number } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const frameAssemblerRef = useRef(new QRFrameAssembler())
+  // The camera reports the same code many times a second; only handle it once
+  const lastScanRef = useRef<string | null>(null)
+
+  useEffect(() => onActivePeerLinkChange(setLink), [])
+
+  useEffect(() => {
+    setLinkState(link?.state ?? null)
+    if (!link) return
+    return link.onStateChange((state) => {
+      setLinkState(state)
+      if (state === "open") {
+        setStep({ name: "choose" })
+      } else if (state === "closed") {
+        // Including a handshake that never got through
+        setStep((current) => (current.name === "preparing" ? { name: "choose" } : current))
+      }
+    })
+  }, [link])
+
+  const isConnected = linkState === "open"
+  const startScan = (expecting: PeerSignal["role"]) => {
+    frameAssemblerRef.current.reset()
+    lastScanRef.current = null
+    setFrameProgress(null)
+    setError(null)
+    setStep({ name: "scan", expecting })
+  }
+
+  const handleStartConnection = async () => {
+    setError(null)
+    setStep({ name: "preparing" })
+    try {
+      setStep({ name: "show-offer", signal: await openPeerLink().createOffer() })
+    } catch (error) {
+      console.error("Failed to create connection offer:", error)
+      closePeerLink()
+      setError(error instanceof Error ? error.message : "Couldn't start connecting. Please try again.")
+      setStep({ name: "choose" })
+    }
+  }
+
+  // Signals are usually too big for one code, so they arrive as frames
+  const readSignal = (text: string): PeerSignal | null => {
+    let payload = decodeQRPayload(text)
+    if (payload.type === "frame") {
+      const assembly = frameAssemblerRef.current.add(payload.data)
+      if (assembly.status === "progress") {
+        setFrameProgress({ received: assembly.received, total: assembly.total })
+        return null
+      }
+      setFrameProgress(null)
+      payload = assembly.payload
+    }
+    if (payload.type !== "signal") {
+      throw new Error("That isn't a connection code. Scan the code shown under Connect Device.")
+    }
+    return payload.data
+  }
+
+  const handleScan = async (text: string) => {
+    if (text === lastScanRef.current) return
+    lastScanRef.current = text
+
+    let signal: PeerSignal | null
+    try {
+      signal = readSignal(text)
+    } catch (error) {
+      setFrameProgress(null)
+      setError(error instanceof Error ? error.message : "That code couldn't be read. Please scan it again.")
+      return
+    }
+    if (!signal) return
+
+    setError(null)
+    try {
+      if (step.name === "scan" && step.expecting === "offer") {
+        setStep({ name: "preparing" })
+        setStep({ name: "show-answer", signal: await openPeerLink().acceptOffer(signal) })
+      } else if (link) {
+        await link.acceptAnswer(signal)
+        setStep({ name: "preparing" })
+      }
+    } catch (error) {
+      console.error("Failed to accept connection code:", error)
+      if (step.name === "scan" && step.expecting === "offer") {
+        closePeerLink()
+      }
+      setError(error instanceof Error ? error.message : "Couldn't connect. Please try again.")
+      setStep((current) => (current.name === "preparing" ? { name: "choose" } : current))
+    }
+  }
+
+  const handleSendBlocks = async () => {
+    await blockchain.ready
+    const blocks = blockchain.getChain().slice(-CHAIN_SEGMENT_BLOCKS)
+    paymentEventManager.emit("chainSegment", { blocks, timestamp: Date.now() })
+    toast({ title: "Blocks Sent", description: `Sent your latest ${blocks.length} blocks to the other device.` })
+  }
+
+  const handleCancel = () => {
+    closePeerLink()
+    setError(null)
+    setFrameProgress(null)
+    setStep({ name: "choose" })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="hover:bg-accent/50" aria-label="Connect device">
+          <span className="relative">
+            <Smartphone className="h-4 w-4" />
+            {isConnected && <span className="absolute -top-1 -right-1 h-2 w-2 rounded-full bg-green-500" />}
+          </span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Smartphone className="h-5 w-5" />
+            Connect Device
+          </DialogTitle>
+          <DialogDescription>
+            Link a phone on the same network by scanning each other's codes. No server is involved.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isConnected ? (
+          <div className="space-y-4">
+            <div className="p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg text-sm text-green-700 dark:text-green-300">
+              Connected. Payment requests and receipts now go straight to the other device.
+            </div>
+            <Button onClick={handleSendBlocks} className="w-full">
+              Send My Latest Blocks
+            </Button>
+            <Button variant="outline" onClick={handleCancel} className="w-full">
+              <Unplug className="mr-2 h-4 w-4" />
+              Disconnect
+            </Button>
+          </div>
+        ) : step.name === "preparing" ? (
+          <div className="flex flex-col items-center py-8 text-sm text-muted-foreground">
+            <Loader2 className="h-8 w-8 animate-spin mb-3" />
+            {linkState === "connecting" ? "Connecting to the other device..." : "Preparing connection code..."}
+          </div>
+        ) : step.name === "show-offer" || step.name === "show-answer" ? (
+          <div className="space-y-4">
+            <div className="bg-white p-2 rounded-lg flex justify-center">
+              <AnimatedQRCode payload={{ type: "signal", data: step.signal }} />
+            </div>
+            <p className="text-sm text-center text-muted-foreground">
+              {step.name === "show-offer"
+                ? "On the other device, open Connect Device, choose Join and scan this code."
+                : "Scan this code with the device that started connecting. This one connects once it has."}
+            </p>
+            {step.name === "show-offer" && (
+              <Button onClick={() => startScan("answer")} className="w-full">
+                Scan Their Answer
+              </Button>
+            )}
+            <Button variant="outline" onClick={handleCancel} className="w-full">
+              Cancel
+            </Button>
+          </div>
+        ) : step.name === "scan" ? (
+          <div className="space-y-4">
+            <QRCameraView onScan={handleScan} className="max-w-sm mx-auto" />
+            {frameProgress && (
+              <p className="text-xs text-center text-muted-foreground">
+                Read {frameProgress.received} of {frameProgress.total} parts. Hold steady.
+              </p>
+            )}
+            <Button variant="outline" onClick={handleCancel} className="w-full">
+              Cancel
+            </Button>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-3">
+            <Button onClick={handleStartConnection}>Start</Button>
+            <Button variant="outline" onClick={() => startScan("offer")}>
+              Join
+            </Button>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-center text-red-600 dark:text-red-400">{error}</p>}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default PeerConnect
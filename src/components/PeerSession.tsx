@@ -0,0 +1,81 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { useNavigate } from "react-router-dom"
+import { toast } from "@/components/ui/use-toast"
+import { useWallet } from "@/hooks/useWallet"
+import { blockchain } from "@/utils/blockchain"
+import { paymentEventManager } from "@/utils/paymentEvents"
+import { buildPaymentLink } from "@/utils/paymentLinks"
+import { onActivePeerLinkChange } from "@/utils/peerLink"
+
+// Handles what a linked device sends, whichever page is open: payment requests
+// open for confirmation like a payment link, and blocks are merged into the
+// chain, which may reorganize it. Receipts are left to the page showing the code they pay.
+const PeerSession = () => {
+  const navigate = useNavigate()
+  const { wallet } = useWallet()
+  // Kept in a ref so the subscriptions aren't redone when the wallet loads
+  const addressRef = useRef<string | null>(null)
+  addressRef.current = wallet?.address ?? null
+
+  useEffect(() => {
+    let stopWatchingLink: (() => void) | null = null
+    const stopWatchingActive = onActivePeerLinkChange((link) => {
+      stopWatchingLink?.()
+      let wasOpen = false
+      stopWatchingLink =
+        link?.onStateChange((state) => {
+          if (state === "open") {
+            wasOpen = true
+            toast({ title: "Device Connected", description: "Payments can now go straight to the other device." })
+          } else if (state === "closed" && wasOpen) {
+            toast({ title: "Device Disconnected", description: "Payments go through QR codes again." })
+          }
+        }) ?? null
+    })
+    return () => {
+      stopWatchingActive()
+      stopWatchingLink?.()
+    }
+  }, [])
+
+  useEffect(() => {
+    // Requests this wallet made come back from its other tabs; only pay others'
+    const stopRequests = paymentEventManager.subscribe("paymentRequest", (request) => {
+      if (!addressRef.current || request.request.payee === addressRef.current) return
+      navigate(buildPaymentLink({ type: "request", data: request }, ""))
+    })
+
+    const stopSegments = paymentEventManager.subscribe("chainSegment", async ({ blocks }) => {
+      try {
+        await blockchain.ready
+        const result = await blockchain.mergeChain(blocks)
+        if (result.status === "extended") {
+          toast({ title: "Blocks Received", description: `Added ${result.added} blocks from the other device.` })
+        } else if (result.status === "reorganized") {
+          toast({
+            title: "Chain Reorganized",
+            description: `Switched to the other device's chain, which has more work behind it. ${result.orphaned.length} transactions are pending again.`,
+          })
+        }
+      } catch (error) {
+        console.error("Failed to add blocks from linked device:", error)
+        toast({
+          title: "Blocks Not Added",
+          description: error instanceof Error ? error.message : "The other device's blocks couldn't be checked.",
+          variant: "destructive",
+        })
+      }
+    })
+
+    return () => {
+      stopRequests()
+      stopSegments()
+    }
+  }, [navigate])
+
+  return null
+}
+
+export default PeerSession
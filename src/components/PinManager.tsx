@@ -0,0 +1,149 @@
+"use client"
+
+import { useState } from "react"
+import { useUser } from "@clerk/clerk-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { toast } from "@/components/ui/use-toast"
+import { Shield } from "lucide-react"
+import { PinInput } from "./PinPrompt"
+import { PIN_LENGTH } from "@/utils/vault"
+import { changePin } from "@/utils/pin"
+
+const PinManager = () => {
+  const { user } = useUser()
+  const [isOpen, setIsOpen] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [currentPin, setCurrentPin] = useState("")
+  const [newPin, setNewPin] = useState("")
+  const [confirmPin, setConfirmPin] = useState("")
+
+  const resetForm = () => {
+    setCurrentPin("")
+    setNewPin("")
+    setConfirmPin("")
+  }
+
+  const handleChangePin = async () => {
+    if (!user) return
+
+    if (currentPin.length !== PIN_LENGTH || newPin.length !== PIN_LENGTH) {
+      toast({
+        title: "Missing Information",
+        description: `Please enter your current and new ${PIN_LENGTH}-digit PINs.`,
+        variant: "destructive",
+      })
+      return
+    }
+
+    if (newPin !== confirmPin) {
+      toast({
+        title: "PINs Don't Match",
+        description: "Please enter the same new PIN twice.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    if (newPin === currentPin) {
+      toast({
+        title: "Same PIN",
+        description: "Your new PIN must be different from the current one.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      const result = await changePin(user.id, currentPin, newPin)
+
+      if (result.status === "ok") {
+        toast({
+          title: "PIN Changed",
+          description: "Your payment PIN has been updated and your data re-encrypted.",
+        })
+        resetForm()
+        setIsOpen(false)
+      } else if (result.status === "locked") {
+        toast({
+          title: "PIN Locked",
+          description: `Too many incorrect attempts. Try again after ${new Date(result.lockedUntil).toLocaleTimeString()}.`,
+          variant: "destructive",
+        })
+      } else {
+        toast({
+          title: "Incorrect PIN",
+          description: "Your current PIN is incorrect.",
+          variant: "destructive",
+        })
+      }
+    } catch (error) {
+      console.error("Failed to change PIN:", error)
+      toast({
+        title: "Error",
+        description: "Failed to change your PIN. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Shield className="h-5 w-5" />
+          Payment PIN
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Your PIN unlocks your wallet and is required before every payment. Repeated wrong entries lock PIN entry for
+          progressively longer periods.
+        </p>
+
+        <Dialog
+          open={isOpen}
+          onOpenChange={(open) => {
+            setIsOpen(open)
+            resetForm()
+          }}
+        >
+          <DialogTrigger asChild>
+            <Button variant="outline" className="w-full">
+              Change PIN
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle>Change Payment PIN</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-6 pt-4">
+              <div className="space-y-2">
+                <Label>Current PIN</Label>
+                <PinInput value={currentPin} onChange={setCurrentPin} disabled={isSubmitting} autoFocus />
+              </div>
+              <div className="space-y-2">
+                <Label>New PIN</Label>
+                <PinInput value={newPin} onChange={setNewPin} disabled={isSubmitting} />
+              </div>
+              <div className="space-y-2">
+                <Label>Confirm New PIN</Label>
+                <PinInput value={confirmPin} onChange={setConfirmPin} disabled={isSubmitting} />
+              </div>
+              <Button className="w-full" onClick={handleChangePin} disabled={isSubmitting}>
+                {isSubmitting ? "Updating..." : "Change PIN"}
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default PinManager
@@ -0,0 +1,167 @@
+"use client"
+
+import type React from "react"
+import { useState, useEffect } from "react"
+import { useUser } from "@clerk/clerk-react"
+import { REGEXP_ONLY_DIGITS } from "input-otp"
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "./ui/input-otp"
+import { Button } from "./ui/button"
+import { Lock } from "lucide-react"
+import { PIN_LENGTH } from "../utils/vault"
+import { authorizeDebit, getPinLockout, verifyPin, type PinCheckResult } from "../utils/pin"
+
+interface PinInputProps {
+  value: string
+  onChange: (value: string) => void
+  onComplete?: (value: string) => void
+  disabled?: boolean
+  autoFocus?: boolean
+}
+
+export const PinInput: React.FC<PinInputProps> = ({ value, onChange, onComplete, disabled, autoFocus }) => (
+  <InputOTP
+    maxLength={PIN_LENGTH}
+    pattern={REGEXP_ONLY_DIGITS}
+    inputMode="numeric"
+    value={value}
+    onChange={onChange}
+    onComplete={onComplete}
+    disabled={disabled}
+    autoFocus={autoFocus}
+    containerClassName="justify-center"
+  >
+    <InputOTPGroup>
+      {Array.from({ length: PIN_LENGTH }, (_, index) => (
+        <InputOTPSlot key={index} index={index} masked />
+      ))}
+    </InputOTPGroup>
+  </InputOTP>
+)
+
+interface PinPromptProps {
+  title?: string
+  description?: string
+  submitLabel?: string
+  // "debit" also grants the single-use authorization processTransaction checks for
+  purpose?: "debit" | "unlock"
+  onVerified: (pin: string) => void | Promise<void>
+  onCancel?: () => void
+  children?: React.ReactNode
+}
+
+const formatLockout = (lockedUntil: number) => {
+  const seconds = Math.max(0, Math.ceil((lockedUntil - Date.now()) / 1000))
+  if (seconds < 60) return `${seconds}s`
+  if (seconds < 3600) return `${Math.ceil(seconds / 60)} min`
+  return `${Math.ceil(seconds / 3600)} h`
+}
+
+const PinPrompt: React.FC<PinPromptProps> = ({
+  title = "Enter PIN",
+  description = "Enter your payment PIN to authorize this transaction",
+  submitLabel = "Verify & Process Payment",
+  purpose = "debit",
+  onVerified,
+  onCancel,
+  children,
+}) => {
+  const { user } = useUser()
+  const [pin, setPin] = useState<string>("")
+  const [isChecking, setIsChecking] = useState<boolean>(false)
+  const [error, setError] = useState<string | null>(null)
+  const [lockedUntil, setLockedUntil] = useState<number | null>(user ? getPinLockout(user.id) : null)
+  const [, setTick] = useState<number>(0)
+
+  // Re-render every second while locked so the countdown stays current
+  useEffect(() => {
+    if (!lockedUntil) return
+
+    const interval = setInterval(() => {
+      if (lockedUntil <= Date.now()) {
+        setLockedUntil(null)
+        setError(null)
+      } else {
+        setTick((tick) => tick + 1)
+      }
+    }, 1000)
+
+    return () => clearInterval(interval)
+  }, [lockedUntil])
+
+  const handleSubmit = async (value: string = pin) => {
+    if (!user || value.length !== PIN_LENGTH || isChecking) return
+
+    setIsChecking(true)
+    setError(null)
+    try {
+      const result: PinCheckResult =
+        purpose === "debit" ? await authorizeDebit(user.id, value) : await verifyPin(user.id, value)
+
+      if (result.status === "ok") {
+        await onVerified(value)
+      } else if (result.status === "locked") {
+        setLockedUntil(result.lockedUntil)
+        setError("Too many incorrect attempts.")
+      } else {
+        setError(
+          result.attemptsBeforeLockout > 0
+            ? `Incorrect PIN. ${result.attemptsBeforeLockout} attempt${result.attemptsBeforeLockout === 1 ? "" : "s"} left before lockout.`
+            : "Incorrect PIN.",
+        )
+      }
+    } catch (err) {
+      console.error("PIN verification failed:", err)
+      setError("Could not verify your PIN. Please try again.")
+    } finally {
+      setPin("")
+      setIsChecking(false)
+    }
+  }
+
+  const isLocked = lockedUntil !== null && lockedUntil > Date.now()
+
+  return (
+    <div className="flex flex-col items-center text-center">
+      <div className="rounded-full bg-primary/10 p-4 mb-4">
+        <Lock className="h-8 w-8 text-primary" />
+      </div>
+      <h3 className="text-xl font-semibold mb-4">{title}</h3>
+      <p className="text-sm text-muted-foreground mb-4">{description}</p>
+
+      {children}
+
+      <div className="mb-4">
+        <PinInput
+          value={pin}
+          onChange={setPin}
+          onComplete={handleSubmit}
+          disabled={isChecking || isLocked}
+          autoFocus
+        />
+      </div>
+
+      {isLocked ? (
+        <p className="text-sm text-red-500 mb-4">
+          {error || "PIN entry is locked."} Try again in {formatLockout(lockedUntil)}.
+        </p>
+      ) : (
+        error && <p className="text-sm text-red-500 mb-4">{error}</p>
+      )}
+
+      <Button
+        onClick={() => handleSubmit()}
+        className="w-full max-w-xs"
+        disabled={isChecking || isLocked || pin.length !== PIN_LENGTH}
+      >
+        {isChecking ? "Verifying..." : submitLabel}
+      </Button>
+      {onCancel && (
+        <Button variant="ghost" onClick={onCancel} className="w-full max-w-xs mt-2" disabled={isChecking}>
+          Cancel
+        </Button>
+      )}
+    </div>
+  )
+}
+
+export default PinPrompt
@@ -0,0 +1,71 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useRef, useState } from "react"
+import { BrowserQRCodeReader, type IScannerControls } from "@zxing/browser"
+import { AlertCircle, QrCode } from "lucide-react"
+
+interface QRCameraViewProps {
+  // Called for every decoded code, including repeats of the same one
+  onScan: (text: string) => void
+  className?: string
+}
+
+// A bare camera preview that reports decoded QR codes; the camera stops when
+// the view unmounts
+const QRCameraView: React.FC<QRCameraViewProps> = ({ onScan, className }) => {
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const onScanRef = useRef(onScan)
+  const [cameraError, setCameraError] = useState<string | null>(null)
+
+  onScanRef.current = onScan
+
+  useEffect(() => {
+    let controls: IScannerControls | null = null
+    let cancelled = false
+
+    const start = async () => {
+      if (!videoRef.current) return
+      try {
+        const reader = new BrowserQRCodeReader()
+        controls = await reader.decodeFromVideoDevice(undefined, videoRef.current, (result) => {
+          if (result) {
+            onScanRef.current(result.getText())
+          }
+        })
+        if (cancelled) {
+          controls.stop()
+        }
+      } catch (error) {
+        console.error("Error starting camera:", error)
+        setCameraError("Camera access denied. Please check your browser settings.")
+      }
+    }
+
+    start()
+    return () => {
+      cancelled = true
+      controls?.stop()
+    }
+  }, [])
+
+  return (
+    <div className={`relative aspect-square w-full overflow-hidden rounded-lg bg-muted ${className ?? ""}`}>
+      {cameraError ? (
+        <div className="absolute inset-0 flex items-center justify-center flex-col">
+          <AlertCircle className="h-12 w-12 text-red-500 mb-2" />
+          <p className="text-center text-sm px-4">{cameraError}</p>
+        </div>
+      ) : (
+        <>
+          <video ref={videoRef} className="w-full h-full object-cover" />
+          <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+            <QrCode className="h-16 w-16 text-muted-foreground opacity-20" />
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default QRCameraView
@@ -1,15 +1,46 @@
 "use client"
 
 import type React from "react"
-import { useState, useEffect, useCallback, useRef } from "react"
+import { useState, useEffect, useCallback, useMemo, useRef } from "react"
 import { motion } from "framer-motion"
-import { QRCodeSVG } from "qrcode.react"
-import type { Transaction, QRData } from "../types"
+import type {
+  Transaction,
+  PaymentIntent,
+  PaymentReceipt,
+  MerchantQR,
+  QRValidity,
+  PaymentEventOf,
+  PaymentReceivedData,
+} from "../types"
 import { generateId, signTransaction } from "../utils/crypto"
-import { saveTransaction, addReceivedTransaction, updateTransactionStatus } from "../utils/storage"
+import {
+  saveTransaction,
+  addReceivedTransaction,
+  addSentTransaction,
+  getTransactionById,
+  settleTransaction,
+} from "../utils/storage"
 import { notificationService } from "../utils/notifications"
 import { paymentEventManager } from "../utils/paymentEvents"
+import { getActivePeerLink } from "../utils/peerLink"
+import { allocateNonce, getQRExpiry } from "../utils/replay"
+import { type QRPayload, decodeQRPayload, encodeQRPayload } from "../utils/qrCodec"
+import { verifyPaymentReceipt } from "../utils/receipts"
+import { getRequestReceiptSubject, redeemRequestPayment, signPaymentRequest } from "../utils/paymentRequests"
+import { consumeDebitAuthorization } from "../utils/pin"
+import { buildUpiLink, getBankAccountUpiAddress } from "../utils/upi"
+import { INR_CURRENCY_CODE, encodeMerchantQR } from "../utils/emvco"
+import { buildPaymentLink } from "../utils/paymentLinks"
+import { useBankAccounts } from "@/hooks/useBankAccounts"
+import { useCredits } from "@/hooks/useCredits"
+import { useWallet } from "@/hooks/useWallet"
+import { useUser } from "@clerk/clerk-react"
+import { QRCodeSVG } from "qrcode.react"
+import AnimatedQRCode from "./AnimatedQRCode"
+import QRCameraView from "./QRCameraView"
+import PinPrompt from "./PinPrompt"
 import { Button } from "./ui/button"
+import { ToggleGroup, ToggleGroupItem } from "./ui/toggle-group"
 import { Input } from "./ui/input"
 import { Label } from "./ui/label"
 import { Textarea } from "./ui/textarea"
@@ -27,108 +58,366 @@ import {
   Volume2,
   VolumeX,
   RefreshCw,
+  ScanLine,
+  Share2,
 } from "lucide-react"
 
+// Merchant mode shows a reusable EMVCo code instead of a signed OffPay payload
+type GeneratorMode = PaymentIntent | "merchant"
+
+const INTENT_LABELS: Record<GeneratorMode, string> = {
+  request: "Payment request",
+  "open-amount": "Open-amount request",
+  offer: "Voucher",
+  merchant: "Merchant",
+}
+
+const VALIDITY_LABELS: Record<QRValidity, string> = {
+  "30s": "30 sec",
+  "5m": "5 min",
+  "1h": "1 hour",
+  "single-use": "Single use",
+  reusable: "Reusable",
+}
+
+const VALIDITY_DESCRIPTIONS: Record<QRValidity, string> = {
+  "30s": "Valid for 30 seconds",
+  "5m": "Valid for 5 minutes",
+  "1h": "Valid for 1 hour",
+  "single-use": "Valid until it's used",
+  reusable: "Can be paid any number of times",
+}
+
+const DEFAULT_VALIDITY: QRValidity = "30s"
+
+// Counts down as m:ss, or h:mm:ss for the longest codes
+const formatTimeLeft = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  const secs = (seconds % 60).toString().padStart(2, "0")
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, "0")}:${secs}` : `${minutes}:${secs}`
+}
+
+// "Miscellaneous and specialty retail stores"
+const DEFAULT_MERCHANT_CATEGORY = "5999"
+
+// The shown code, whatever its intent, reduced to what this screen displays
+interface ShownQR {
+  intent: GeneratorMode
+  // The request or voucher id; for a merchant code, the wallet it pays
+  id: string
+  // Absent for open-amount requests
+  amount?: number
+  // The voucher's recipient, or the payee's own name on a request
+  party: string
+  description: string
+  signature: string
+  // As signed into the code; absent when it doesn't expire
+  expiresAt?: number
+}
+
+const describeQRPayload = (payload: QRPayload | null): ShownQR | null => {
+  if (payload?.type === "payment") {
+    const { transaction } = payload.data
+    return {
+      intent: "offer",
+      id: transaction.id,
+      amount: transaction.amount,
+      party: transaction.recipient,
+      description: transaction.description,
+      signature: transaction.signature ?? "",
+      expiresAt: transaction.expiresAt,
+    }
+  }
+  if (payload?.type === "request") {
+    const { request } = payload.data
+    return {
+      intent: request.intent,
+      id: request.id,
+      amount: request.amount,
+      party: request.payeeName,
+      description: request.description,
+      signature: request.signature,
+      expiresAt: request.expiresAt,
+    }
+  }
+  return null
+}
+
+const describeMerchantQR = (merchant: MerchantQR | null): ShownQR | null => {
+  if (!merchant) return null
+  return {
+    intent: "merchant",
+    id: merchant.walletAddress,
+    amount: merchant.amount,
+    party: merchant.merchantName,
+    description: merchant.merchantCity,
+    signature: "",
+  }
+}
+
 const QRGenerator: React.FC = () => {
+  const [intent, setIntent] = useState<GeneratorMode>("request")
+  const [validity, setValidity] = useState<QRValidity>(DEFAULT_VALIDITY)
   const [amount, setAmount] = useState<string>("")
   const [recipient, setRecipient] = useState<string>("")
   const [description, setDescription] = useState<string>("")
-  const [qrData, setQrData] = useState<QRData | null>(null)
+  const [merchantCity, setMerchantCity] = useState<string>("")
+  const [merchantCategory, setMerchantCategory] = useState<string>(DEFAULT_MERCHANT_CATEGORY)
+  const [qrPayload, setQrPayload] = useState<QRPayload | null>(null)
+  const [merchantQR, setMerchantQR] = useState<MerchantQR | null>(null)
+  const [confirmingOffer, setConfirmingOffer] = useState<boolean>(false)
+  const [qrFormat, setQrFormat] = useState<"offpay" | "upi">("offpay")
   const [isGenerating, setIsGenerating] = useState<boolean>(false)
-  const [timeLeft, setTimeLeft] = useState<number>(30)
+  const [timeLeft, setTimeLeft] = useState<number>(0)
   const [isExpired, setIsExpired] = useState<boolean>(false)
   const [paymentReceived, setPaymentReceived] = useState<boolean>(false)
   const [paymentDetails, setPaymentDetails] = useState<any>(null)
   const [soundEnabled, setSoundEnabled] = useState<boolean>(true)
+  const [scanningReceipt, setScanningReceipt] = useState<boolean>(false)
+  const { user } = useUser()
+  const { getSigner } = useWallet()
+  const { updateCredits } = useCredits()
+  // A new function every render; kept in a ref so the event subscription isn't
+  // torn down and redone each time
+  const updateCreditsRef = useRef(updateCredits)
+  updateCreditsRef.current = updateCredits
 
-  const timerRef = useRef<NodeJS.Timeout | null>(null)
-  const unsubscribeRef = useRef<(() => void) | null>(null)
+  const { bankAccounts } = useBankAccounts()
 
-  // Enhanced payment received handler with immediate response
-  const handlePaymentReceived = useCallback(
-    (eventData: any) => {
-      console.log("🎯 QRGenerator: Payment received event:", eventData)
+  const shownQR = useMemo(
+    () => describeQRPayload(qrPayload) ?? describeMerchantQR(merchantQR),
+    [qrPayload, merchantQR],
+  )
+  const encodedQrData = useMemo(() => (qrPayload ? encodeQRPayload(qrPayload) : ""), [qrPayload])
+  const merchantQrText = useMemo(() => (merchantQR ? encodeMerchantQR(merchantQR) : ""), [merchantQR])
 
-      if (qrData && eventData.transactionId === qrData.transaction.id) {
-        console.log("✅ QRGenerator: Payment received for current QR code - IMMEDIATE UPDATE")
+  // Requests can also be shown as a standard UPI code paying into the primary
+  // verified bank account, for payers who don't have OffPay. Those payments
+  // settle through the bank, so OffPay won't see them arrive.
+  const upiAccount = useMemo(() => {
+    const verified = bankAccounts?.accounts.filter((account) => account.isVerified) ?? []
+    return verified.find((account) => account.isPrimary) ?? verified[0] ?? null
+  }, [bankAccounts])
+  const upiLink = useMemo(() => {
+    if (!upiAccount || !shownQR || shownQR.intent === "offer" || shownQR.intent === "merchant") return null
+    return buildUpiLink({
+      payeeAddress: getBankAccountUpiAddress(upiAccount),
+      payeeName: upiAccount.accountHolderName,
+      ...(shownQR.amount !== undefined && { amount: shownQR.amount }),
+      currency: "INR",
+      ...(shownQR.description && { note: shownQR.description }),
+    })
+  }, [upiAccount, shownQR])
+  const showUpi = qrFormat === "upi" && upiLink !== null
 
-        // IMMEDIATELY stop the timer and update state
-        if (timerRef.current) {
-          clearInterval(timerRef.current)
-          timerRef.current = null
+  const timerRef = useRef<NodeJS.Timeout | null>(null)
+  // The camera reports the same code many times a second; only handle it once
+  const lastReceiptScanRef = useRef<string | null>(null)
+
+  // A payment for a code this screen no longer shows, e.g. one shared before the
+  // page was closed. Recorded once, and only by the wallet it concerns.
+  const settleEarlierPayment = useCallback(
+    async (eventData: PaymentReceivedData, event: PaymentEventOf<"paymentReceived">) => {
+      try {
+        const { address } = await getSigner()
+        const existing = await getTransactionById(eventData.transactionId)
+        const isPayee = eventData.recipient === address
+        const isVoucherIssuer = !isPayee && existing?.sender === address
+        // Someone else's payment; leave it for its own consumer
+        if (!isPayee && !isVoucherIssuer) return
+
+        let settled: Transaction | null = null
+        if (isPayee && !existing) {
+          // A request or merchant code this wallet issued. Its terms went with
+          // the page, so the payer's signature, nonce and the payee are checked.
+          const redeemed = await redeemRequestPayment(eventData.transaction, { payee: address })
+          if (redeemed === "claimed") {
+            settled = eventData.transaction!
+            await addReceivedTransaction(settled, "pending")
+          } else if (redeemed !== "spent") {
+            console.warn(`Ignoring payment event ${event.id}: its transaction is ${redeemed}`)
+          }
+        } else if (
+          isVoucherIssuer &&
+          existing.status !== "verified" &&
+          eventData.transaction?.signature === existing.signature
+        ) {
+          // A voucher this wallet signed, saved as pending when its code was made
+          settled = await settleTransaction(existing.id)
         }
 
-        // Set payment received state immediately
-        setPaymentReceived(true)
-        setIsExpired(false) // Ensure expired state is false
+        // Already recorded, e.g. from the payer's receipt, still needs acknowledging
+        await paymentEventManager.acknowledge(event)
+        if (!settled) return
 
-        setPaymentDetails({
+        updateCreditsRef.current(settled)
+        toast({
+          title: "Earlier QR Code Paid",
+          description: `₹${settled.amount.toFixed(2)} ${
+            isVoucherIssuer ? "voucher was redeemed" : "was received"
+          } while this page was closed.`,
+        })
+      } catch (error) {
+        console.error("Failed to record an earlier payment:", error)
+      }
+    },
+    [getSigner],
+  )
+
+  // Checks a payment for the code on screen and records it. Returns the payment
+  // as recorded, or null when there is nothing (more) to record.
+  const recordShownQRPayment = useCallback(
+    async (eventData: PaymentReceivedData, event?: PaymentEventOf<"paymentReceived">): Promise<Transaction | null> => {
+      if (!shownQR) return null
+
+      // A redeemed offer was paid out by this wallet. The voucher was stored when
+      // its code was made; settle that copy, key and all.
+      if (qrPayload?.type === "payment") {
+        const { transaction, publicKey, keyProof } = qrPayload.data
+        if (event && eventData.transaction?.signature !== transaction.signature) {
+          console.warn(`Ignoring payment event ${event.id}: it isn't for the voucher on screen`)
+          return null
+        }
+        if (!(await settleTransaction(transaction.id))) {
+          await addSentTransaction({ ...transaction, publicKey, keyProof })
+        }
+        return transaction
+      }
+
+      // A scanned receipt is the payer's signature over the payment, but carries
+      // no transaction to sync, so it is recorded as completed
+      if (!event) {
+        const confirmed: Transaction = {
+          id: eventData.transactionId,
           amount: eventData.amount,
           sender: eventData.sender,
           recipient: eventData.recipient,
           timestamp: eventData.timestamp,
-          transactionId: eventData.transactionId,
-        })
+          description: shownQR.description || `Payment to ${shownQR.party}`,
+          status: "verified",
+        }
+        await addReceivedTransaction(confirmed)
+        return confirmed
+      }
 
-        // Update transaction status and add to history
-        try {
-          updateTransactionStatus(qrData.transaction.id, "verified")
-          addReceivedTransaction(qrData.transaction)
-        } catch (error) {
-          console.error("Error updating transaction:", error)
+      // A paid request was paid in to this wallet, with the payer's transaction,
+      // which goes in as pending for the sync queue to mine
+      const redeemed = await redeemRequestPayment(eventData.transaction, {
+        // A merchant code's id is the wallet it pays; the payer makes up the payment's
+        ...(shownQR.intent !== "merchant" && { id: shownQR.id }),
+        payee: qrPayload?.type === "request" ? qrPayload.data.request.payee : shownQR.id,
+        amount: shownQR.amount,
+      })
+      if (redeemed !== "claimed") {
+        if (redeemed !== "spent") {
+          console.warn(`Ignoring payment event ${event.id}: its transaction is ${redeemed}`)
         }
+        return null
+      }
+      const received = eventData.transaction!
+      await addReceivedTransaction(received, "pending")
+      return received
+    },
+    [qrPayload, shownQR],
+  )
 
-        // Play notification sound and show push notification
-        if (soundEnabled) {
-          notificationService.notifyPaymentReceived(eventData.amount, eventData.sender)
+  // Enhanced payment received handler with immediate response
+  const handlePaymentReceived = useCallback(
+    // event is absent when the payment was confirmed by scanning a receipt
+    async (eventData: PaymentReceivedData, event?: PaymentEventOf<"paymentReceived">) => {
+      console.log("🎯 QRGenerator: Payment received event:", eventData)
+
+      // Merchant codes are reusable, so any payment to the wallet is for them
+      const isForShownQR =
+        shownQR?.intent === "merchant" ? eventData.recipient === shownQR.id : eventData.transactionId === shownQR?.id
+      if (!isForShownQR) {
+        console.log("⚠️ QRGenerator: Payment received but not for current QR code", {
+          currentQRId: shownQR?.id,
+          eventTransactionId: eventData.transactionId,
+        })
+        if (event) {
+          settleEarlierPayment(eventData, event)
         }
+        return
+      }
 
+      let settled: Transaction | null
+      try {
+        settled = await recordShownQRPayment(eventData, event)
+      } catch (error) {
+        console.error("Error updating transaction:", error)
+        return
+      }
+      // Handled, even when there was nothing to record, so it isn't replayed
+      if (event) {
+        paymentEventManager.acknowledge(event)
+      }
+      if (!settled) return
+
+      console.log("✅ QRGenerator: Payment received for current QR code - IMMEDIATE UPDATE")
+
+      // IMMEDIATELY stop the timer and update state
+      if (timerRef.current) {
+        clearInterval(timerRef.current)
+        timerRef.current = null
+      }
+
+      // Set payment received state immediately
+      setPaymentReceived(true)
+      setIsExpired(false) // Ensure expired state is false
+
+      setPaymentDetails({
+        amount: settled.amount,
+        sender: settled.sender,
+        recipient: settled.recipient,
+        timestamp: settled.timestamp,
+        transactionId: settled.id,
+      })
+
+      // Move the credits: out of this wallet for an offer, in for a request
+      updateCreditsRef.current(settled)
+
+      // Play notification sound and show push notification
+      if (shownQR.intent === "offer") {
+        if (soundEnabled) {
+          notificationService.notifyPaymentSent(settled.amount, shownQR.party)
+        }
         toast({
-          title: "💰 Payment Received!",
-          description: `₹${eventData.amount.toFixed(2)} received successfully from ${eventData.sender.substring(0, 8)}...`,
+          title: "🎁 Voucher Redeemed!",
+          description: `Your ₹${settled.amount.toFixed(2)} voucher for ${shownQR.party} has been redeemed.`,
         })
-
-        console.log("🎉 QRGenerator: Payment received state updated successfully")
       } else {
-        console.log("⚠️ QRGenerator: Payment received but not for current QR code", {
-          currentQRId: qrData?.transaction.id,
-          eventTransactionId: eventData.transactionId,
+        if (soundEnabled) {
+          notificationService.notifyPaymentReceived(settled.amount, settled.sender)
+        }
+        toast({
+          title: "💰 Payment Received!",
+          description: `₹${settled.amount.toFixed(2)} received successfully from ${settled.sender.substring(0, 8)}...`,
         })
       }
+
+      console.log("🎉 QRGenerator: Payment received state updated successfully")
     },
-    [qrData, soundEnabled],
+    [shownQR, soundEnabled, settleEarlierPayment, recordShownQRPayment],
   )
+  const handlePaymentReceivedRef = useRef(handlePaymentReceived)
+  handlePaymentReceivedRef.current = handlePaymentReceived
 
   // Set up event listeners
   useEffect(() => {
     console.log("🔄 QRGenerator: Setting up payment event listeners")
 
-    // Clean up previous subscription
-    if (unsubscribeRef.current) {
-      unsubscribeRef.current()
-    }
-
-    // Subscribe to payment events with multiple methods
-    const unsubscribe1 = paymentEventManager.subscribe("paymentReceived", handlePaymentReceived)
-
-    // Also listen to DOM events as backup
-    const handleDOMEvent = (event: any) => {
-      console.log("📢 QRGenerator: DOM event received:", event.detail)
-      handlePaymentReceived(event.detail)
-    }
-
-    window.addEventListener("paymentReceived", handleDOMEvent)
-    document.addEventListener("paymentReceived", handleDOMEvent)
-
-    // Store cleanup function
-    unsubscribeRef.current = () => {
-      unsubscribe1()
-      window.removeEventListener("paymentReceived", handleDOMEvent)
-      document.removeEventListener("paymentReceived", handleDOMEvent)
-    }
-
-    return unsubscribeRef.current
-  }, [handlePaymentReceived])
+    // The event manager dedups across its transports, so this is the only
+    // subscription needed to hear about payments from this or another tab.
+    // Subscribed once per visit: replay hands over the payments that arrived
+    // while the page was closed, and a resubscription would replay them again.
+    return paymentEventManager.subscribe(
+      "paymentReceived",
+      (eventData, event) => handlePaymentReceivedRef.current(eventData, event),
+      { replay: true },
+    )
+  }, [])
 
   // Timer management
   useEffect(() => {
@@ -138,30 +427,44 @@ const QRGenerator: React.FC = () => {
       timerRef.current = null
     }
 
-    // Only start timer if QR exists, not expired, and payment not received
-    if (qrData && !isExpired && !paymentReceived) {
+    // Only start timer if the code has a signed expiry, and it hasn't passed
+    // or been paid. Merchant and single-use codes don't expire.
+    const expiresAt = shownQR?.expiresAt
+    if (expiresAt !== undefined && !isExpired && !paymentReceived) {
       console.log("⏰ QRGenerator: Starting countdown timer")
 
-      timerRef.current = setInterval(() => {
-        setTimeLeft((prev) => {
-          if (prev <= 1) {
-            console.log("⏰ QRGenerator: Timer expired")
-            setIsExpired(true)
-            paymentEventManager.emitQRExpired(qrData.transaction.id)
-
-            if (soundEnabled) {
-              notificationService.notifyError("QR code has expired. Please generate a new one.")
-            }
-            toast({
-              title: "QR Code Expired",
-              description: "The QR code has expired. Please generate a new one.",
-              variant: "destructive",
-            })
-            return 0
-          }
-          return prev - 1
+      // Counts down to the signed expiry rather than from when the code was
+      // shown, so it agrees with what the scanner will accept
+      const tick = () => {
+        const remaining = Math.ceil((expiresAt - Date.now()) / 1000)
+        if (remaining > 0) {
+          setTimeLeft(remaining)
+          return
+        }
+
+        console.log("⏰ QRGenerator: Timer expired")
+        if (timerRef.current) {
+          clearInterval(timerRef.current)
+          timerRef.current = null
+        }
+        setTimeLeft(0)
+        setIsExpired(true)
+        paymentEventManager.emitQRExpired(shownQR.id, expiresAt)
+
+        if (soundEnabled) {
+          notificationService.notifyError("QR code has expired. Please generate a new one.")
+        }
+        toast({
+          title: "QR Code Expired",
+          description: "The QR code has expired. Please generate a new one.",
+          variant: "destructive",
         })
-      }, 1000)
+      }
+
+      tick()
+      if (!timerRef.current && Date.now() < expiresAt) {
+        timerRef.current = setInterval(tick, 1000)
+      }
     }
 
     return () => {
@@ -170,23 +473,99 @@ const QRGenerator: React.FC = () => {
         timerRef.current = null
       }
     }
-  }, [qrData, isExpired, paymentReceived, soundEnabled])
+  }, [shownQR, isExpired, paymentReceived, soundEnabled])
+
+  // Merchant codes are the only reusable ones, and nothing else can be
+  const handleIntentChange = (mode: GeneratorMode) => {
+    setIntent(mode)
+    if (mode === "merchant") {
+      setValidity("reusable")
+    } else if (validity === "reusable") {
+      setValidity(DEFAULT_VALIDITY)
+    }
+  }
 
-  const handleGenerate = () => {
-    if (!amount || !recipient) {
+  // Merchant codes aren't signed: the EMVCo format has no room for a signature,
+  // and a printed code has to stay payable for good
+  const handleGenerateMerchant = async () => {
+    const rejectMerchantCode = (title: string, message: string) => {
       if (soundEnabled) {
-        notificationService.notifyError("Please enter an amount and recipient.")
+        notificationService.notifyError(message)
+      }
+      toast({ title, description: message, variant: "destructive" })
+    }
+
+    if (!recipient || !merchantCity) {
+      rejectMerchantCode("Missing information", "Please enter your shop name and city.")
+      return
+    }
+    if (!/^\d{4}$/.test(merchantCategory)) {
+      rejectMerchantCode("Invalid category code", "The merchant category code must be 4 digits (e.g., 5411).")
+      return
+    }
+    const amountValue = amount ? Number.parseFloat(amount) : undefined
+    if (amountValue !== undefined && (isNaN(amountValue) || amountValue <= 0)) {
+      rejectMerchantCode("Invalid amount", "Please enter a valid positive number or leave the amount empty.")
+      return
+    }
+
+    setIsGenerating(true)
+    setPaymentReceived(false)
+    setPaymentDetails(null)
+    try {
+      const signer = await getSigner()
+      setMerchantQR({
+        // A code with an amount is for one sale
+        isDynamic: amountValue !== undefined,
+        merchantName: recipient,
+        merchantCity,
+        merchantCategoryCode: merchantCategory,
+        currency: INR_CURRENCY_CODE,
+        ...(amountValue !== undefined && { amount: amountValue }),
+        countryCode: "IN",
+        walletAddress: signer.address,
+        ...(upiAccount && { upiAddress: getBankAccountUpiAddress(upiAccount) }),
+      })
+
+      if (soundEnabled) {
+        notificationService.playNotificationSound()
+      }
+      toast({
+        title: "Merchant QR Generated",
+        description: upiAccount
+          ? "Customers can pay this code with OffPay or any UPI app that reads Bharat QR."
+          : "Customers can pay this code with OffPay.",
+      })
+    } catch (error) {
+      console.error("Failed to create merchant QR:", error)
+      rejectMerchantCode("Merchant QR failed", "Could not create a merchant QR code on this device.")
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  const handleGenerate = async () => {
+    if (intent === "merchant") {
+      await handleGenerateMerchant()
+      return
+    }
+
+    const needsAmount = intent !== "open-amount"
+    if ((needsAmount && !amount) || !recipient) {
+      const message = needsAmount ? "Please enter an amount and a name." : "Please enter a name."
+      if (soundEnabled) {
+        notificationService.notifyError(message)
       }
       toast({
         title: "Missing information",
-        description: "Please enter an amount and recipient.",
+        description: message,
         variant: "destructive",
       })
       return
     }
 
     const amountValue = Number.parseFloat(amount)
-    if (isNaN(amountValue) || amountValue <= 0) {
+    if (needsAmount && (isNaN(amountValue) || amountValue <= 0)) {
       if (soundEnabled) {
         notificationService.notifyError("Please enter a valid positive number.")
       }
@@ -198,49 +577,110 @@ const QRGenerator: React.FC = () => {
       return
     }
 
+    // An offer is spendable by whoever holds it, so signing one is a debit
+    if (intent === "offer" && (!user || !consumeDebitAuthorization(user.id))) {
+      setConfirmingOffer(true)
+      return
+    }
+    setConfirmingOffer(false)
+
     setIsGenerating(true)
     setIsExpired(false)
     setPaymentReceived(false)
     setPaymentDetails(null)
-    setTimeLeft(30)
-
-    const sender = "wallet_" + Math.random().toString(36).substring(2, 8)
-    const publicKey = "pk_demo"
-
-    const transaction: Transaction = {
-      id: generateId(),
-      amount: amountValue,
-      recipient,
-      sender,
-      timestamp: Date.now(),
-      description: description || "Transfer",
-      status: "pending",
-    }
 
-    const fakePrivateKey = "sk_demo"
-    const signature = signTransaction(transaction, fakePrivateKey)
-    transaction.signature = signature
+    let newPayload: QRPayload
+    try {
+      const signer = await getSigner()
+      const timestamp = Date.now()
+      const nonce = await allocateNonce(signer.address)
+      const expiresAt = getQRExpiry(validity, timestamp)
+
+      if (intent === "offer") {
+        const transaction: Transaction = {
+          id: generateId(),
+          amount: amountValue,
+          recipient,
+          sender: signer.address,
+          timestamp,
+          description: description || "Transfer",
+          status: "pending",
+          nonce,
+          ...(expiresAt !== undefined && { expiresAt }),
+        }
+        transaction.signature = await signTransaction(transaction, signer.privateKey)
 
-    const newQrData: QRData = {
-      transaction,
-      publicKey,
+        newPayload = {
+          type: "payment",
+          data: {
+            transaction,
+            publicKey: signer.publicKey,
+            ...(signer.keyProof.length > 0 && { keyProof: signer.keyProof }),
+          },
+        }
+      } else {
+        newPayload = {
+          type: "request",
+          data: await signPaymentRequest(
+            {
+              id: generateId(),
+              intent,
+              payee: signer.address,
+              payeeName: recipient,
+              ...(intent === "request" && { amount: amountValue }),
+              description,
+              timestamp,
+              nonce,
+              ...(expiresAt !== undefined && { expiresAt }),
+            },
+            signer,
+          ),
+        }
+      }
+    } catch (error) {
+      console.error("Failed to sign payment QR:", error)
+      setIsGenerating(false)
+      if (soundEnabled) {
+        notificationService.notifyError("Could not sign the transaction on this device.")
+      }
+      toast({
+        title: "Signing failed",
+        description: "Could not sign the transaction on this device.",
+        variant: "destructive",
+      })
+      return
     }
 
-    console.log("🔄 QRGenerator: Generated QR data:", newQrData)
-    saveTransaction(transaction)
+    console.log("🔄 QRGenerator: Generated QR payload:", newPayload)
+    // Requests aren't stored until they are paid; the payer's transaction is what gets recorded
+    if (newPayload.type === "payment") {
+      const { transaction, publicKey, keyProof } = newPayload.data
+      try {
+        // The key travels with the stored copy so the mined block can be re-verified
+        await saveTransaction({ ...transaction, publicKey, keyProof, direction: "sent" })
+      } catch (error) {
+        console.error("Failed to save transaction:", error)
+      }
+    }
+    // A linked device opens the request itself, without scanning
+    if (newPayload.type === "request" && getActivePeerLink()?.state === "open") {
+      paymentEventManager.emit("paymentRequest", newPayload.data)
+    }
 
     setTimeout(() => {
-      setQrData(newQrData)
+      setQrPayload(newPayload)
       setIsGenerating(false)
 
       // Play notification sound for QR generation
-      if (soundEnabled) {
+      if (soundEnabled && needsAmount) {
         notificationService.notifyQRGenerated(amountValue)
+      } else if (soundEnabled) {
+        notificationService.playNotificationSound()
       }
 
       toast({
         title: "QR Code Generated",
-        description: "Transaction has been digitally signed and is ready to share. Valid for 30 seconds.",
+        description: `${INTENT_LABELS[intent]} has been digitally signed and is ready to share. ${VALIDITY_DESCRIPTIONS[validity]}.`,
       })
     }, 500)
   }
@@ -254,29 +694,142 @@ const QRGenerator: React.FC = () => {
       timerRef.current = null
     }
 
-    setQrData(null)
+    setQrPayload(null)
+    setMerchantQR(null)
+    setConfirmingOffer(false)
+    setQrFormat("offpay")
     setAmount("")
     setRecipient("")
     setDescription("")
     setIsExpired(false)
-    setTimeLeft(30)
+    setTimeLeft(0)
     setPaymentReceived(false)
     setPaymentDetails(null)
+    setScanningReceipt(false)
+  }
+
+  // Whether a signed receipt from the payer's device pays the code on screen;
+  // if it does and the payment isn't already in, it is recorded
+  const acceptReceipt = async (receipt: PaymentReceipt): Promise<boolean> => {
+    if (!qrPayload || !shownQR) return false
+
+    // An open-amount request leaves the amount to the payer, so only the signature binds it
+    const subject =
+      qrPayload.type === "request"
+        ? getRequestReceiptSubject(qrPayload.data.request, qrPayload.data.request.amount ?? receipt.amount)
+        : qrPayload.type === "payment"
+          ? qrPayload.data.transaction
+          : null
+    if (subject === null || !(await verifyPaymentReceipt(receipt, subject))) return false
+    if (paymentReceived) return true
+
+    setScanningReceipt(false)
+    handlePaymentReceived({
+      transactionId: receipt.transactionId,
+      amount: receipt.amount,
+      sender: receipt.payer,
+      recipient: qrPayload.type === "request" ? qrPayload.data.request.payee : shownQR.party,
+      timestamp: receipt.paidAt,
+    })
+    return true
+  }
+  const acceptReceiptRef = useRef(acceptReceipt)
+  acceptReceiptRef.current = acceptReceipt
+
+  // A linked device sends its receipt instead of showing it
+  useEffect(
+    () =>
+      paymentEventManager.subscribe("paymentReceipt", async (receipt, event) => {
+        try {
+          if (await acceptReceiptRef.current(receipt)) {
+            await paymentEventManager.acknowledge(event)
+          }
+        } catch (error) {
+          console.error("Failed to check receipt from linked device:", error)
+        }
+      }),
+    [],
+  )
+
+  // Offline confirmation: the payer's device shows a signed receipt once the
+  // payment has gone through, and scanning it here marks the request paid
+  const handleReceiptScan = async (text: string) => {
+    if (!qrPayload || !shownQR || text === lastReceiptScanRef.current) return
+    lastReceiptScanRef.current = text
+
+    let accepted = false
+    try {
+      const payload = decodeQRPayload(text)
+      accepted = payload.type === "receipt" && (await acceptReceipt(payload.data))
+    } catch (error) {
+      console.error("Failed to read receipt:", error)
+    }
+
+    if (!accepted) {
+      if (soundEnabled) {
+        notificationService.notifyError("That code isn't a valid receipt for this payment.")
+      }
+      toast({
+        title: "Receipt not accepted",
+        description: "That code isn't a valid receipt for this payment.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const startReceiptScan = () => {
+    lastReceiptScanRef.current = null
+    setScanningReceipt(true)
   }
 
   const handleCopyQR = () => {
-    if (qrData) {
-      navigator.clipboard.writeText(JSON.stringify(qrData))
+    if (shownQR) {
+      navigator.clipboard.writeText(merchantQR ? merchantQrText : showUpi ? upiLink : encodedQrData)
       if (soundEnabled) {
         notificationService.playNotificationSound()
       }
       toast({
         title: "Copied to clipboard",
-        description: "QR code data has been copied to your clipboard.",
+        description: merchantQR
+          ? "Merchant QR code data has been copied to your clipboard."
+          : showUpi
+            ? "UPI payment link has been copied to your clipboard."
+            : "QR code data has been copied to your clipboard.",
       })
     }
   }
 
+  // Sends the same signed payload as the code, for payers who aren't in front of it
+  const handleShareLink = async () => {
+    if (!qrPayload || !shownQR) return
+
+    const url = buildPaymentLink(qrPayload)
+    const title = shownQR.intent === "offer" ? "OffPay voucher" : `Pay ${shownQR.party} with OffPay`
+    if (navigator.share) {
+      try {
+        await navigator.share({ title, text: shownQR.description || title, url })
+      } catch (error) {
+        // Closing the share sheet isn't an error
+        if (!(error instanceof DOMException && error.name === "AbortError")) {
+          console.error("Failed to share payment link:", error)
+        }
+      }
+      return
+    }
+
+    await navigator.clipboard.writeText(url)
+    if (soundEnabled) {
+      notificationService.playNotificationSound()
+    }
+    toast({
+      title: "Link copied",
+      description:
+        shownQR.intent === "offer"
+          ? "Whoever opens this link first can redeem the voucher until it expires."
+          : "Send this link to the payer. It can be paid once, until the code expires.",
+    })
+  }
+
   const handleDownloadQR = () => {
     if (soundEnabled) {
       notificationService.playNotificationSound()
@@ -298,16 +851,37 @@ const QRGenerator: React.FC = () => {
     })
   }
 
+  // The line of small print under the active code
+  const getQRFootnote = (): string => {
+    if (merchantQR) {
+      const upiNote = merchantQR.upiAddress
+        ? `, or your bank account ending ${upiAccount?.accountNumber.slice(-4)} through UPI`
+        : ""
+      return `This merchant code doesn't expire and pays your OffPay wallet${upiNote}.`
+    }
+    if (showUpi) {
+      return `This UPI code pays into your account ending ${upiAccount.accountNumber.slice(-4)}. UPI payments arrive at your bank and won't show up in OffPay.`
+    }
+    const expiry =
+      shownQR?.expiresAt === undefined
+        ? "doesn't expire"
+        : `expires at ${new Date(shownQR.expiresAt).toLocaleTimeString()}`
+    if (shownQR?.intent === "offer") {
+      return `This voucher is signed by your wallet and ${expiry}. Whoever scans it first receives the credits.`
+    }
+    return `This payment request is signed by your wallet and ${expiry}. It can only be paid once.`
+  }
+
   // Debug info
   useEffect(() => {
     console.log("🔍 QRGenerator State:", {
-      hasQrData: !!qrData,
+      hasQrData: !!shownQR,
       paymentReceived,
       isExpired,
       timeLeft,
-      transactionId: qrData?.transaction.id,
+      transactionId: shownQR?.id,
     })
-  }, [qrData, paymentReceived, isExpired, timeLeft])
+  }, [shownQR, paymentReceived, isExpired, timeLeft])
 
   return (
     <div className="w-full max-w-md mx-auto">
@@ -319,7 +893,21 @@ const QRGenerator: React.FC = () => {
         </Button>
       </div>
 
-      {!qrData ? (
+      {!shownQR && confirmingOffer ? (
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ duration: 0.3 }}>
+          <Card className="bg-white/90 backdrop-blur-sm shadow-xl border-0 overflow-hidden">
+            <CardContent className="pt-8 pb-6">
+              <PinPrompt
+                title="Confirm Voucher"
+                description={`Anyone who scans this voucher can redeem ₹${Number.parseFloat(amount).toFixed(2)} from your balance`}
+                submitLabel="Verify & Create Voucher"
+                onVerified={handleGenerate}
+                onCancel={() => setConfirmingOffer(false)}
+              />
+            </CardContent>
+          </Card>
+        </motion.div>
+      ) : !shownQR ? (
         <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ duration: 0.3 }}>
           <Card className="bg-white/90 backdrop-blur-sm shadow-xl border-0 overflow-hidden">
             <CardHeader className="bg-gradient-to-r from-blue-600 to-purple-600 text-white">
@@ -331,52 +919,146 @@ const QRGenerator: React.FC = () => {
             <CardContent className="pt-8 pb-6">
               <div className="space-y-6">
                 <div className="space-y-2">
-                  <Label htmlFor="amount" className="text-sm font-semibold">
-                    Amount *
-                  </Label>
-                  <div className="relative">
-                    <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground font-medium">
-                      ₹
-                    </span>
-                    <Input
-                      id="amount"
-                      placeholder="0.00"
-                      value={amount}
-                      onChange={(e) => setAmount(e.target.value)}
-                      type="number"
-                      step="0.01"
-                      min="0"
-                      className="pl-8 border-2 border-border/60 focus:border-primary/50 bg-background/50 text-lg font-medium"
-                    />
-                  </div>
+                  <Label className="text-sm font-semibold">QR Type</Label>
+                  <ToggleGroup
+                    type="single"
+                    variant="outline"
+                    value={intent}
+                    // Radix reports "" when the selected item is clicked again
+                    onValueChange={(value) => value && handleIntentChange(value as GeneratorMode)}
+                    className="grid grid-cols-4"
+                  >
+                    <ToggleGroupItem value="request">Request</ToggleGroupItem>
+                    <ToggleGroupItem value="open-amount">Open</ToggleGroupItem>
+                    <ToggleGroupItem value="offer">Voucher</ToggleGroupItem>
+                    <ToggleGroupItem value="merchant">Merchant</ToggleGroupItem>
+                  </ToggleGroup>
+                  <p className="text-xs text-muted-foreground">
+                    {intent === "offer"
+                      ? "Pre-pay a voucher that whoever scans it can redeem."
+                      : intent === "open-amount"
+                        ? "Ask to be paid; the payer enters the amount."
+                        : intent === "merchant"
+                          ? "A reusable shop code in the EMVCo (Bharat QR) format. Leave the amount empty for a printed code."
+                          : "Ask to be paid a fixed amount."}
+                  </p>
                 </div>
 
+                <div className="space-y-2">
+                  <Label className="text-sm font-semibold">Valid For</Label>
+                  <ToggleGroup
+                    type="single"
+                    variant="outline"
+                    size="sm"
+                    value={validity}
+                    onValueChange={(value) => value && setValidity(value as QRValidity)}
+                    className="grid grid-cols-5"
+                  >
+                    {(Object.keys(VALIDITY_LABELS) as QRValidity[]).map((option) => (
+                      <ToggleGroupItem
+                        key={option}
+                        value={option}
+                        disabled={(option === "reusable") !== (intent === "merchant")}
+                        className="text-xs"
+                      >
+                        {VALIDITY_LABELS[option]}
+                      </ToggleGroupItem>
+                    ))}
+                  </ToggleGroup>
+                  <p className="text-xs text-muted-foreground">
+                    {validity === "reusable"
+                      ? "Merchant codes can be printed and paid any number of times."
+                      : validity === "single-use"
+                        ? "Doesn't expire, but can only be used once. Keep it private until then."
+                        : "The expiry is signed into the code, so it can't be paid after that."}
+                  </p>
+                </div>
+
+                {intent !== "open-amount" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="amount" className="text-sm font-semibold">
+                      {intent === "merchant" ? "Amount (optional)" : "Amount *"}
+                    </Label>
+                    <div className="relative">
+                      <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground font-medium">
+                        ₹
+                      </span>
+                      <Input
+                        id="amount"
+                        placeholder="0.00"
+                        value={amount}
+                        onChange={(e) => setAmount(e.target.value)}
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        className="pl-8 border-2 border-border/60 focus:border-primary/50 bg-background/50 text-lg font-medium"
+                      />
+                    </div>
+                  </div>
+                )}
+
                 <div className="space-y-2">
                   <Label htmlFor="recipient" className="text-sm font-semibold">
-                    Recipient *
+                    {intent === "offer" ? "Recipient *" : intent === "merchant" ? "Shop Name *" : "Your Name *"}
                   </Label>
                   <Input
                     id="recipient"
-                    placeholder="Enter recipient name or address"
+                    placeholder={intent === "offer" ? "Who is this voucher for?" : "Name the payer will see"}
                     value={recipient}
                     onChange={(e) => setRecipient(e.target.value)}
+                    maxLength={intent === "merchant" ? 25 : undefined}
                     className="border-2 border-border/60 focus:border-primary/50 bg-background/50"
                   />
                 </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="description" className="text-sm font-semibold">
-                    Description
-                  </Label>
-                  <Textarea
-                    id="description"
-                    placeholder="What is this payment for? (optional)"
-                    value={description}
-                    onChange={(e) => setDescription(e.target.value)}
-                    className="resize-none border-2 border-border/60 focus:border-primary/50 bg-background/50"
-                    rows={3}
-                  />
-                </div>
+                {intent === "merchant" && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="merchantCity" className="text-sm font-semibold">
+                        City *
+                      </Label>
+                      <Input
+                        id="merchantCity"
+                        placeholder="e.g. Pune"
+                        value={merchantCity}
+                        onChange={(e) => setMerchantCity(e.target.value)}
+                        maxLength={15}
+                        className="border-2 border-border/60 focus:border-primary/50 bg-background/50"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="merchantCategory" className="text-sm font-semibold">
+                        Category Code
+                      </Label>
+                      <Input
+                        id="merchantCategory"
+                        placeholder={DEFAULT_MERCHANT_CATEGORY}
+                        value={merchantCategory}
+                        onChange={(e) => setMerchantCategory(e.target.value)}
+                        inputMode="numeric"
+                        maxLength={4}
+                        className="border-2 border-border/60 focus:border-primary/50 bg-background/50 font-mono"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {/* EMVCo codes have no free-text field for it */}
+                {intent !== "merchant" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="description" className="text-sm font-semibold">
+                      Description
+                    </Label>
+                    <Textarea
+                      id="description"
+                      placeholder="What is this payment for? (optional)"
+                      value={description}
+                      onChange={(e) => setDescription(e.target.value)}
+                      className="resize-none border-2 border-border/60 focus:border-primary/50 bg-background/50"
+                      rows={3}
+                    />
+                  </div>
+                )}
               </div>
             </CardContent>
             <CardFooter className="bg-muted/30 pt-6">
@@ -418,7 +1100,9 @@ const QRGenerator: React.FC = () => {
                   <CheckCircle className="h-12 w-12" />
                 </motion.div>
               </div>
-              <CardTitle className="text-2xl font-bold">💰 Payment Received!</CardTitle>
+              <CardTitle className="text-2xl font-bold">
+                {shownQR.intent === "offer" ? "🎁 Voucher Redeemed!" : "💰 Payment Received!"}
+              </CardTitle>
               <p className="text-green-100 mt-2">Transaction completed successfully</p>
             </CardHeader>
 
@@ -427,8 +1111,17 @@ const QRGenerator: React.FC = () => {
                 <div className="bg-gradient-to-r from-green-600 to-emerald-600 bg-clip-text text-transparent text-4xl font-bold mb-2">
                   ₹{paymentDetails?.amount?.toFixed(2)}
                 </div>
-                <div className="text-muted-foreground mb-1">Received from</div>
-                <div className="font-semibold text-lg mb-4">{paymentDetails?.sender?.substring(0, 12)}...</div>
+                {shownQR.intent === "offer" ? (
+                  <>
+                    <div className="text-muted-foreground mb-1">Paid to</div>
+                    <div className="font-semibold text-lg mb-4">{shownQR.party}</div>
+                  </>
+                ) : (
+                  <>
+                    <div className="text-muted-foreground mb-1">Received from</div>
+                    <div className="font-semibold text-lg mb-4">{paymentDetails?.sender?.substring(0, 12)}...</div>
+                  </>
+                )}
 
                 <div className="bg-green-50 rounded-lg p-4 mb-4">
                   <div className="text-sm text-green-700 mb-2">Transaction Details</div>
@@ -448,10 +1141,10 @@ const QRGenerator: React.FC = () => {
                   </div>
                 </div>
 
-                {qrData?.transaction.description && (
+                {shownQR?.description && (
                   <div className="bg-muted/50 rounded-lg p-3 mb-4">
                     <div className="text-xs text-muted-foreground mb-1">Description</div>
-                    <div className="text-sm font-medium">{qrData.transaction.description}</div>
+                    <div className="text-sm font-medium">{shownQR.description}</div>
                   </div>
                 )}
               </div>
@@ -468,6 +1161,32 @@ const QRGenerator: React.FC = () => {
             </CardFooter>
           </Card>
         </motion.div>
+      ) : scanningReceipt ? (
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ duration: 0.3 }}>
+          <Card className="bg-white shadow-2xl border-0 w-full overflow-hidden">
+            <CardHeader className="bg-gradient-to-r from-blue-600 to-purple-600 text-white">
+              <CardTitle className="flex items-center text-xl">
+                <ScanLine className="h-6 w-6 mr-3" />
+                Scan Payer's Receipt
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="pt-6 pb-6">
+              <QRCameraView onScan={handleReceiptScan} className="max-w-sm mx-auto" />
+              <p className="text-sm text-muted-foreground text-center mt-4">
+                {shownQR.intent === "offer"
+                  ? "Ask whoever redeemed your voucher to show the receipt QR on their screen."
+                  : shownQR.amount !== undefined
+                    ? `Ask the payer to show the receipt QR on their screen after paying ₹${shownQR.amount.toFixed(2)}.`
+                    : "Ask the payer to show the receipt QR on their screen after paying."}
+              </p>
+            </CardContent>
+            <CardFooter className="bg-muted/30 pt-6">
+              <Button variant="outline" onClick={() => setScanningReceipt(false)} className="w-full">
+                Cancel
+              </Button>
+            </CardFooter>
+          </Card>
+        </motion.div>
       ) : isExpired ? (
         <motion.div
           initial={{ opacity: 0, scale: 0.9 }}
@@ -486,7 +1205,12 @@ const QRGenerator: React.FC = () => {
                 </p>
               </div>
             </CardContent>
-            <CardFooter className="bg-muted/30 pt-6">
+            <CardFooter className="bg-muted/30 flex flex-col space-y-3 pt-6">
+              {/* The payer may have scanned just before the code expired */}
+              <Button variant="outline" onClick={startReceiptScan} className="w-full border-2">
+                <ScanLine className="mr-2 h-4 w-4" />
+                Scan Payer's Receipt
+              </Button>
               <Button
                 onClick={handleReset}
                 className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-semibold"
@@ -511,22 +1235,49 @@ const QRGenerator: React.FC = () => {
                   <ShieldCheck className="h-8 w-8" />
                 </div>
               </div>
-              <CardTitle className="text-xl font-bold">Payment QR Generated</CardTitle>
+              <CardTitle className="text-xl font-bold">{INTENT_LABELS[shownQR.intent]} QR Generated</CardTitle>
               <div className="flex items-center justify-center space-x-4 mt-4">
-                <Badge variant="secondary" className="bg-white/20 text-white border-0 font-mono text-xs">
-                  ID: {qrData.transaction.signature?.substring(4, 14)}...
-                </Badge>
-                <div className="flex items-center text-sm bg-white/20 px-3 py-1 rounded-full">
-                  <Clock className="h-4 w-4 mr-1" />
-                  {timeLeft}s
-                </div>
+                {shownQR.intent === "merchant" ? (
+                  <Badge variant="secondary" className="bg-white/20 text-white border-0 text-xs">
+                    {merchantQR?.isDynamic ? "Single sale" : "Reusable"} • MCC {merchantQR?.merchantCategoryCode}
+                  </Badge>
+                ) : (
+                  <>
+                    <Badge variant="secondary" className="bg-white/20 text-white border-0 font-mono text-xs">
+                      ID: {shownQR.signature.substring(0, 10)}...
+                    </Badge>
+                    <div className="flex items-center text-sm bg-white/20 px-3 py-1 rounded-full">
+                      <Clock className="h-4 w-4 mr-1" />
+                      {shownQR.expiresAt === undefined ? "Single use" : formatTimeLeft(timeLeft)}
+                    </div>
+                  </>
+                )}
               </div>
             </CardHeader>
 
             <CardContent className="flex flex-col items-center pt-8 pb-6">
+              {upiLink && (
+                <ToggleGroup
+                  type="single"
+                  variant="outline"
+                  size="sm"
+                  value={qrFormat}
+                  onValueChange={(value) => value && setQrFormat(value as "offpay" | "upi")}
+                  className="mb-4"
+                >
+                  <ToggleGroupItem value="offpay">OffPay</ToggleGroupItem>
+                  <ToggleGroupItem value="upi">UPI</ToggleGroupItem>
+                </ToggleGroup>
+              )}
               <div className="relative mb-6">
                 <div className="p-4 bg-white rounded-2xl shadow-lg border-4 border-gray-100">
-                  <QRCodeSVG value={JSON.stringify(qrData)} size={220} level="H" includeMargin className="mx-auto" />
+                  {merchantQR ? (
+                    <QRCodeSVG value={merchantQrText} size={220} level="M" includeMargin className="mx-auto" />
+                  ) : showUpi ? (
+                    <QRCodeSVG value={upiLink} size={220} level="M" includeMargin className="mx-auto" />
+                  ) : (
+                    <AnimatedQRCode payload={qrPayload} size={220} className="mx-auto" />
+                  )}
                 </div>
                 <div className="absolute -top-2 -right-2 bg-gradient-to-r from-blue-500 to-purple-500 text-white rounded-full p-2">
                   <Sparkles className="h-4 w-4" />
@@ -535,14 +1286,14 @@ const QRGenerator: React.FC = () => {
 
               <div className="text-center w-full">
                 <div className="bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent text-3xl font-bold mb-2">
-                  ₹{qrData.transaction.amount.toFixed(2)}
+                  {shownQR.amount !== undefined ? `₹${shownQR.amount.toFixed(2)}` : "Any amount"}
                 </div>
-                <div className="text-muted-foreground mb-1">To</div>
-                <div className="font-semibold text-lg mb-4">{qrData.transaction.recipient}</div>
-                {qrData.transaction.description && (
+                <div className="text-muted-foreground mb-1">{shownQR.intent === "offer" ? "For" : "Pay to"}</div>
+                <div className="font-semibold text-lg mb-4">{shownQR.party}</div>
+                {shownQR.description && (
                   <div className="bg-muted/50 rounded-lg p-3 mb-4">
                     <div className="text-xs text-muted-foreground mb-1">Description</div>
-                    <div className="text-sm font-medium">{qrData.transaction.description}</div>
+                    <div className="text-sm font-medium">{shownQR.description}</div>
                   </div>
                 )}
               </div>
@@ -558,7 +1309,20 @@ const QRGenerator: React.FC = () => {
                   <Download className="mr-2 h-4 w-4" />
                   Save
                 </Button>
+                {qrPayload && !showUpi && (
+                  <Button variant="outline" onClick={handleShareLink} className="flex-1 border-2 hover:bg-accent/50">
+                    <Share2 className="mr-2 h-4 w-4" />
+                    Share link
+                  </Button>
+                )}
               </div>
+              {/* Payments to a merchant code get their own id, so there's no receipt to match */}
+              {shownQR.intent !== "merchant" && (
+                <Button variant="outline" onClick={startReceiptScan} className="w-full border-2 hover:bg-accent/50">
+                  <ScanLine className="mr-2 h-4 w-4" />
+                  Scan Payer's Receipt
+                </Button>
+              )}
               <Button
                 onClick={handleReset}
                 className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-semibold"
@@ -571,8 +1335,7 @@ const QRGenerator: React.FC = () => {
 
           <div className="text-xs text-muted-foreground text-center max-w-xs bg-white/80 backdrop-blur-sm rounded-lg p-4 shadow-sm">
             <ShieldCheck className="h-4 w-4 inline mr-1 text-green-500" />
-            This QR code contains a cryptographically signed transaction and will expire in {timeLeft} seconds. When
-            scanned, the payment will be processed securely.
+            {getQRFootnote()}
           </div>
         </motion.div>
       )}
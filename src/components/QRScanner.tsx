@@ -4,44 +4,209 @@ import type React from "react"
 import { useState, useRef, useEffect } from "react"
 import { motion } from "framer-motion"
 import { BrowserQRCodeReader, type IScannerControls } from "@zxing/browser"
-import type { QRData } from "../types"
-import { addSentTransaction } from "../utils/storage"
-import { syncTransactionToBlockchain } from "../utils/blockchain"
+import type {
+  MerchantQR,
+  PaymentReceipt,
+  PaymentRequestTerms,
+  QRData,
+  SignedPaymentRequest,
+  Transaction,
+  UpiPaymentLink,
+} from "../types"
+import { addReceivedTransaction, addSentTransaction, getTransactionById } from "../utils/storage"
 import { verifySignature } from "../utils/crypto"
+import { verifyWalletKey } from "../utils/wallet"
 import { getNetworkState } from "../utils/network"
+import { isSyncServerConfigured } from "../utils/syncClient"
+import { onSyncQueueChange, requestSync } from "../utils/syncScheduler"
 import { notificationService } from "../utils/notifications"
 import { paymentEventManager } from "../utils/paymentEvents"
+import { getActivePeerLink } from "../utils/peerLink"
+import { consumeDebitAuthorization } from "../utils/pin"
+import {
+  allocateNonce,
+  hasReplayProtection,
+  isPaymentExpired,
+  redeemPayment,
+  redeemPaymentRequest,
+} from "../utils/replay"
+import { type QRPayload, decodeQRPayload } from "../utils/qrCodec"
+import { buildUpiLink, isUpiLink, parseUpiLink } from "../utils/upi"
+import { decodeMerchantQR, isMerchantQR, toPaymentRequestTerms, toUpiPaymentLink } from "../utils/emvco"
+import { QRFrameAssembler } from "../utils/qrFrames"
+import { decodeQRFromImage, isImageFile } from "../utils/qrImage"
+import { readPaymentLink } from "../utils/paymentLinks"
+import { type ReceiptSubject, createPaymentReceipt } from "../utils/receipts"
+import { createRequestPayment, getRequestReceiptSubject, verifyPaymentRequest } from "../utils/paymentRequests"
 import { useCredits } from "@/hooks/useCredits"
+import { useWallet } from "@/hooks/useWallet"
+import { useUser } from "@clerk/clerk-react"
+import PinPrompt from "./PinPrompt"
+import AnimatedQRCode from "./AnimatedQRCode"
 import { Card, CardContent, CardFooter } from "./ui/card"
 import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { Label } from "./ui/label"
+import { Progress } from "./ui/progress"
 import { toast } from "./ui/use-toast"
-import { Loader2, AlertCircle, QrCode, Lock, Volume2, VolumeX, CheckCircle, RefreshCw } from "lucide-react"
+import {
+  Loader2,
+  AlertCircle,
+  QrCode,
+  Volume2,
+  VolumeX,
+  CheckCircle,
+  RefreshCw,
+  Gift,
+  Copy,
+  ExternalLink,
+  ImageUp,
+} from "lucide-react"
+
+// What was scanned, by intent; offers carry the payer's transaction, requests
+// the payee's signed request
+type ScannedPayment =
+  | { intent: "offer"; data: QRData }
+  | { intent: "request" | "open-amount"; data: SignedPaymentRequest }
+  // A standard UPI code; OffPay shows it and hands the payment to a UPI app
+  | { intent: "upi"; data: UpiPaymentLink }
+  // An EMVCo merchant code carrying an OffPay wallet
+  | { intent: "merchant"; data: MerchantQR }
+
+// Maps a decoded OffPay payload to what the scanner acts on
+const toScannedPayment = (payload: QRPayload): ScannedPayment => {
+  if (payload.type === "payment") {
+    return { intent: "offer", data: payload.data }
+  }
+  if (payload.type === "request") {
+    return { intent: payload.data.request.intent, data: payload.data }
+  }
+  if (payload.type === "signal") {
+    throw new Error("This is a device connection code. Scan it from Connect Device instead.")
+  }
+  throw new Error("This QR code doesn't contain a payment.")
+}
+
+// The expiry is signed by whoever made the code, so it can't be waited out or
+// extended; say when it passed so it isn't mistaken for a bad scan
+const getExpiredMessage = (expiresAt: number): string =>
+  `This QR code expired at ${new Date(expiresAt).toLocaleTimeString()}. Ask for a new one.`
+
+// The intents this device pays out on
+type PayableScan = Exclude<ScannedPayment, { intent: "offer" | "upi" }>
+
+const INTENT_TITLES: Record<ScannedPayment["intent"], string> = {
+  offer: "Voucher Details",
+  request: "Payment Request",
+  "open-amount": "Payment Request (you choose the amount)",
+  upi: "UPI Payment Request",
+  merchant: "Merchant Payment",
+}
+
+// The amount and the other party of a scanned code, whatever its intent
+const summarizeScan = (scanned: ScannedPayment, enteredAmount: string) => {
+  const entered = Number.parseFloat(enteredAmount) || undefined
+  switch (scanned.intent) {
+    case "offer":
+      return {
+        amount: scanned.data.transaction.amount,
+        partyLabel: "From",
+        party: scanned.data.transaction.sender,
+        description: scanned.data.transaction.description,
+      }
+    case "merchant":
+      return {
+        amount: scanned.data.amount ?? entered,
+        partyLabel: "To",
+        party: scanned.data.merchantName,
+        description: scanned.data.merchantCity,
+      }
+    case "upi":
+      return {
+        amount: scanned.data.amount ?? entered,
+        partyLabel: "To",
+        party: scanned.data.payeeName,
+        description: scanned.data.note,
+      }
+    default:
+      return {
+        amount: scanned.data.request.amount ?? entered,
+        partyLabel: "To",
+        party: scanned.data.request.payeeName,
+        description: scanned.data.request.description,
+      }
+  }
+}
 
-const QRScanner: React.FC = () => {
-  const [scanning, setScanning] = useState<boolean>(true)
-  const [scannedData, setScannedData] = useState<QRData | null>(null)
+const ScannedDetails: React.FC<{ scanned: ScannedPayment; enteredAmount: string }> = ({ scanned, enteredAmount }) => {
+  const summary = summarizeScan(scanned, enteredAmount)
+
+  return (
+    <div className="bg-muted/50 rounded-lg p-4 mb-4 w-full">
+      <div className="text-sm font-medium mb-2">{INTENT_TITLES[scanned.intent]}</div>
+      <div className="space-y-1 text-sm">
+        {summary.amount !== undefined && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Amount:</span>
+            <span className="font-bold text-primary">₹{summary.amount.toFixed(2)}</span>
+          </div>
+        )}
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">{summary.partyLabel}:</span>
+          <span className="font-mono">
+            {summary.party.length > 12 ? `${summary.party.substring(0, 12)}...` : summary.party}
+          </span>
+        </div>
+        {summary.description && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">For:</span>
+            <span>{summary.description}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+interface QRScannerProps {
+  // The payload segment of a `/pay/<payload>` link, opened instead of the camera
+  paymentLink?: string
+}
+
+const QRScanner: React.FC<QRScannerProps> = ({ paymentLink }) => {
+  const [scanning, setScanning] = useState<boolean>(!paymentLink)
+  const [scannedData, setScannedData] = useState<ScannedPayment | null>(null)
+  const [enteredAmount, setEnteredAmount] = useState<string>("")
   const [processingStatus, setProcessingStatus] = useState<
-    "idle" | "verifying" | "storing" | "syncing" | "complete" | "error" | "password_required"
+    | "idle"
+    | "verifying"
+    | "storing"
+    | "syncing"
+    | "complete"
+    | "error"
+    | "pin_required"
+    | "amount_required"
+    | "confirm_offer"
+    | "upi_ready"
   >("idle")
   const [errorMessage, setErrorMessage] = useState<string | null>(null)
   const [cameraPermission, setCameraPermission] = useState<boolean | null>(null)
-  const [password, setPassword] = useState<string>("")
   const [soundEnabled, setSoundEnabled] = useState<boolean>(true)
   const [paymentComplete, setPaymentComplete] = useState<boolean>(false)
   const [paymentDetails, setPaymentDetails] = useState<any>(null)
+  const [syncProgress, setSyncProgress] = useState<number>(0)
+  const [receiptPayload, setReceiptPayload] = useState<{ type: "receipt"; data: PaymentReceipt } | null>(null)
+  const [frameProgress, setFrameProgress] = useState<{ received: number; total: number } | null>(null)
+  const [isDraggingImage, setIsDraggingImage] = useState<boolean>(false)
+  const [readingImage, setReadingImage] = useState<boolean>(false)
   const videoRef = useRef<HTMLVideoElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
   const controlsRef = useRef<IScannerControls | null>(null)
+  const frameAssemblerRef = useRef(new QRFrameAssembler())
 
+  const { user } = useUser()
   const { updateCredits } = useCredits()
-
-  useEffect(() => {
-    checkCameraPermission()
-    return () => {
-      if (controlsRef.current) {
-        controlsRef.current.stop()
-      }
-    }
-  }, [])
+  const { getSigner } = useWallet()
 
   useEffect(() => {
     if (scanning && videoRef.current && cameraPermission) {
@@ -87,183 +252,450 @@ const QRScanner: React.FC = () => {
     }
   }
 
+  // Uploaded, dropped and pasted images go through the same checks as the camera
+  const scanImage = async (image: Blob) => {
+    setReadingImage(true)
+    try {
+      handleScan(await decodeQRFromImage(image))
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "That image couldn't be read. Please try another one."
+      if (soundEnabled) {
+        notificationService.notifyError(message)
+      }
+      toast({
+        title: "No QR Code Found",
+        description: message,
+        variant: "destructive",
+      })
+    } finally {
+      setReadingImage(false)
+    }
+  }
+  // Kept in a ref so the paste listener isn't re-added on every render
+  const scanImageRef = useRef(scanImage)
+  scanImageRef.current = scanImage
+
+  // A screenshot pasted anywhere on the page is scanned like a camera frame
+  useEffect(() => {
+    if (!scanning) return
+
+    const handlePaste = (event: ClipboardEvent) => {
+      const image = Array.from(event.clipboardData?.files ?? []).find(isImageFile)
+      if (image) {
+        event.preventDefault()
+        scanImageRef.current(image)
+      }
+    }
+
+    window.addEventListener("paste", handlePaste)
+    return () => window.removeEventListener("paste", handlePaste)
+  }, [scanning])
+
+  const handleImageSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const image = event.target.files?.[0]
+    // Cleared so choosing the same file again still fires a change
+    event.target.value = ""
+    if (image) {
+      scanImage(image)
+    }
+  }
+
+  const handleImageDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    setIsDraggingImage(false)
+    const image = event.dataTransfer.files[0]
+    if (image) {
+      scanImage(image)
+    }
+  }
+
   const handleScan = (data: string | null) => {
     if (!data) return
 
     try {
       console.log("QR scan successful, raw data:", data)
 
-      let parsedData: QRData
+      let payload: QRPayload | null = null
+      let upiLink: UpiPaymentLink | null = null
+      let merchant: MerchantQR | null = null
       try {
-        parsedData = JSON.parse(data)
+        if (isUpiLink(data)) {
+          upiLink = parseUpiLink(data)
+        } else if (isMerchantQR(data)) {
+          merchant = decodeMerchantQR(data)
+        } else {
+          payload = decodeQRPayload(data)
+        }
+        // Animated codes arrive one frame per scan; keep scanning until all are in
+        if (payload?.type === "frame") {
+          const assembly = frameAssemblerRef.current.add(payload.data)
+          if (assembly.status === "progress") {
+            setFrameProgress({ received: assembly.received, total: assembly.total })
+            return
+          }
+          setFrameProgress(null)
+          payload = assembly.payload
+        }
       } catch (e) {
-        console.error("Failed to parse QR data:", e)
+        console.error("Failed to decode QR data:", e)
+        setFrameProgress(null)
+        const message = e instanceof Error ? e.message : "The QR code doesn't contain valid transaction data."
         if (soundEnabled) {
-          notificationService.notifyError("The QR code doesn't contain valid transaction data.")
+          notificationService.notifyError(message)
         }
         toast({
           title: "Invalid QR Code",
-          description: "The QR code doesn't contain valid transaction data.",
+          description: message,
           variant: "destructive",
         })
-        throw new Error("Invalid QR data format: not valid JSON")
+        throw e
       }
 
-      console.log("Parsed QR data:", parsedData)
-
-      if (!parsedData.transaction || !parsedData.publicKey) {
-        throw new Error("Invalid QR data format: missing transaction or publicKey")
+      let scanned: ScannedPayment
+      if (merchant) {
+        // Pay the merchant's OffPay wallet when there is one; otherwise hand a UPI
+        // account over to a UPI app
+        const merchantUpiLink = toUpiPaymentLink(merchant)
+        if (toPaymentRequestTerms(merchant)) {
+          scanned = { intent: "merchant", data: merchant }
+        } else if (merchantUpiLink) {
+          scanned = { intent: "upi", data: merchantUpiLink }
+        } else {
+          throw new Error("This merchant QR code has no payment method OffPay supports.")
+        }
+      } else if (upiLink) {
+        scanned = { intent: "upi", data: upiLink }
+      } else {
+        scanned = toScannedPayment(payload)
       }
+      console.log("Decoded QR data:", scanned)
 
-      if (
-        !parsedData.transaction.id ||
-        typeof parsedData.transaction.amount !== "number" ||
-        !parsedData.transaction.sender ||
-        !parsedData.transaction.recipient
-      ) {
-        throw new Error("Invalid transaction data structure")
-      }
+      presentScan(scanned)
+    } catch (error) {
+      console.error("Error parsing QR code data:", error)
+      setErrorMessage(error instanceof Error ? error.message : "Invalid QR code format. Please try again.")
+      setProcessingStatus("error")
+      setScanning(false)
+    }
+  }
+
+  // Links carry the same signed payload as the QR code and get the same checks
+  const openPaymentLink = (segment: string) => {
+    try {
+      presentScan(toScannedPayment(readPaymentLink(segment)))
+    } catch (error) {
+      console.error("Failed to open payment link:", error)
+      setErrorMessage(error instanceof Error ? error.message : "This payment link couldn't be opened.")
+      setProcessingStatus("error")
+    }
+  }
 
-      // Stop camera
+  // Only the link the scanner was opened with is acted on; later renders don't
+  // open it again or ask for the camera a second time
+  const openOnMountRef = useRef(() => (paymentLink ? openPaymentLink(paymentLink) : checkCameraPermission()))
+
+  useEffect(() => {
+    openOnMountRef.current()
+    return () => {
       if (controlsRef.current) {
         controlsRef.current.stop()
       }
+    }
+  }, [])
 
-      setScannedData(parsedData)
-      setScanning(false)
-      setProcessingStatus("password_required")
+  // Shows what was scanned and asks for whatever the payment still needs
+  const presentScan = (scanned: ScannedPayment) => {
+    // Stop camera
+    if (controlsRef.current) {
+      controlsRef.current.stop()
+    }
 
-      // Play scan success sound
-      if (soundEnabled) {
-        notificationService.playNotificationSound()
-      }
-    } catch (error) {
-      console.error("Error parsing QR code data:", error)
-      setErrorMessage("Invalid QR code format. Please try again.")
-      setProcessingStatus("error")
+    // Checked again before processing, since the next step takes time
+    const expiresAt =
+      scanned.intent === "offer"
+        ? scanned.data.transaction.expiresAt
+        : scanned.intent === "request" || scanned.intent === "open-amount"
+          ? scanned.data.request.expiresAt
+          : undefined
+    if (isPaymentExpired({ expiresAt })) {
+      rejectPayment(getExpiredMessage(expiresAt))
       setScanning(false)
+      return
     }
-  }
 
-  const handlePasswordSubmit = () => {
-    if (password === "2239") {
-      setProcessingStatus("verifying")
-      if (scannedData) {
-        processTransaction(scannedData)
-      }
+    setScannedData(scanned)
+    setEnteredAmount("")
+    setScanning(false)
+    // Only paying out needs the PIN; redeeming an offer just needs a confirmation
+    if (scanned.intent === "offer") {
+      setProcessingStatus("confirm_offer")
+    } else if (scanned.intent === "upi") {
+      setProcessingStatus("upi_ready")
     } else {
-      setErrorMessage("Invalid password. Please try again.")
-      setProcessingStatus("error")
-      if (soundEnabled) {
-        notificationService.notifyError("The password you entered is incorrect. Please try again.")
-      }
+      const needsAmount =
+        scanned.intent === "open-amount" || (scanned.intent === "merchant" && scanned.data.amount === undefined)
+      setProcessingStatus(needsAmount ? "amount_required" : "pin_required")
+    }
+
+    // Play scan success sound
+    if (soundEnabled) {
+      notificationService.playNotificationSound()
+    }
+  }
+
+  const rejectPayment = (message: string) => {
+    setProcessingStatus("error")
+    setErrorMessage(message)
+    if (soundEnabled) {
+      notificationService.notifyError(message)
+    }
+  }
+
+  const handlePinVerified = () => {
+    setProcessingStatus("verifying")
+    if (scannedData && scannedData.intent !== "offer" && scannedData.intent !== "upi") {
+      payRequest(scannedData)
+    }
+  }
+
+  const handleCopyUpiId = (link: UpiPaymentLink) => {
+    navigator.clipboard.writeText(link.payeeAddress)
+    toast({
+      title: "Copied to clipboard",
+      description: `${link.payeeAddress} has been copied to your clipboard.`,
+    })
+  }
+
+  const handleAmountEntered = () => {
+    const amountValue = Number.parseFloat(enteredAmount)
+    if (isNaN(amountValue) || amountValue <= 0) {
       toast({
-        title: "Invalid Password",
-        description: "The password you entered is incorrect. Please try again.",
+        title: "Invalid amount",
+        description: "Please enter a valid positive number.",
         variant: "destructive",
       })
+      return
     }
+    setProcessingStatus("pin_required")
   }
 
-  const processTransaction = async (data: QRData) => {
-    if (!data) return
-
+  // Offers: the payer signed a voucher in advance and this device collects it
+  const redeemOffer = async (data: QRData) => {
     try {
-      console.log("Processing transaction:", data)
+      console.log("Redeeming offer:", data)
 
       setProcessingStatus("verifying")
       await new Promise((resolve) => setTimeout(resolve, 500))
 
-      const isValid = verifySignature(data.transaction, data.transaction.signature || "", data.publicKey)
+      const isValid =
+        (await verifySignature(data.transaction, data.transaction.signature || "", data.publicKey)) &&
+        (await verifyWalletKey(data.transaction.sender, data.publicKey, data.keyProof))
 
       if (!isValid) {
         console.error("Invalid signature detected")
-        setProcessingStatus("error")
-        setErrorMessage("Invalid signature. Transaction may be tampered with.")
-        if (soundEnabled) {
-          notificationService.notifyError("Invalid signature. Transaction may be tampered with.")
-        }
+        rejectPayment("Invalid signature. Transaction may be tampered with.")
+        return
+      }
+
+      // The nonce and expiry are covered by the signature checked above
+      if (!hasReplayProtection(data.transaction)) {
+        rejectPayment("This QR code was made by an older version of OffPay and can't be accepted.")
+        return
+      }
+      if (isPaymentExpired(data.transaction)) {
+        rejectPayment(getExpiredMessage(data.transaction.expiresAt))
+        return
+      }
+
+      const transaction = { ...data.transaction, publicKey: data.publicKey, keyProof: data.keyProof }
+
+      const claim = await redeemPayment(transaction)
+      if (claim.status === "spent") {
+        rejectPayment("This voucher has already been redeemed.")
+        return
+      }
+      if (claim.status === "conflict") {
+        console.error("Nonce reused by a different transaction:", claim.existing)
+        rejectPayment("This QR code reuses a nonce from another payment and was rejected as a double spend.")
         return
       }
 
-      // Store locally
       setProcessingStatus("storing")
       await new Promise((resolve) => setTimeout(resolve, 500))
 
-      console.log("Updating credits with transaction:", data.transaction)
-      updateCredits(data.transaction)
+      updateCredits(transaction, true)
+      await addReceivedTransaction(transaction, "pending")
+      await settlePayment(transaction, transaction, "offer", transaction.sender)
+    } catch (error) {
+      handleProcessingError(error)
+    }
+  }
 
-      // Add sent transaction to history
-      addSentTransaction(data.transaction)
+  // Requests: the payee asked to be paid, so this device signs and sends the payment.
+  // Merchant codes are paid the same way but aren't signed or single-use.
+  const payRequest = async (scanned: PayableScan) => {
+    // Every debit must be preceded by a fresh PIN entry
+    if (!user || !consumeDebitAuthorization(user.id)) {
+      setProcessingStatus("pin_required")
+      return
+    }
 
-      // Sync to blockchain
-      const { isOnline } = getNetworkState()
-      if (isOnline) {
-        setProcessingStatus("syncing")
-        await syncTransactionToBlockchain(data.transaction)
-        await new Promise((resolve) => setTimeout(resolve, 500))
-      }
+    try {
+      console.log("Paying request:", scanned.data)
 
-      setProcessingStatus("complete")
-      setPaymentComplete(true)
-      setPaymentDetails({
-        amount: data.transaction.amount,
-        recipient: data.transaction.recipient,
-        sender: data.transaction.sender,
-        timestamp: Date.now(),
-        transactionId: data.transaction.id,
-      })
+      setProcessingStatus("verifying")
+      await new Promise((resolve) => setTimeout(resolve, 500))
 
-      // Emit payment events to notify receiver
-      console.log("Emitting payment received event for transaction:", data.transaction.id)
-      paymentEventManager.emitPaymentReceived(
-        data.transaction.id,
-        data.transaction.amount,
-        data.transaction.recipient,
-        data.transaction.sender,
-      )
+      let terms: PaymentRequestTerms
+      if (scanned.intent === "merchant") {
+        terms = toPaymentRequestTerms(scanned.data)
+      } else {
+        if (!(await verifyPaymentRequest(scanned.data))) {
+          console.error("Invalid request signature detected")
+          rejectPayment("Invalid signature. This payment request may be tampered with.")
+          return
+        }
+        if (isPaymentExpired(scanned.data.request)) {
+          rejectPayment(getExpiredMessage(scanned.data.request.expiresAt))
+          return
+        }
+        terms = scanned.data.request
+      }
 
-      // Also emit payment sent event
-      paymentEventManager.emitPaymentSent(
-        data.transaction.id,
-        data.transaction.amount,
-        data.transaction.recipient,
-        data.transaction.sender,
+      const signer = await getSigner()
+      const transaction = await createRequestPayment(
+        terms,
+        Number.parseFloat(enteredAmount),
+        signer,
+        await allocateNonce(signer.address),
       )
 
-      // Play success sound and show notification
-      if (soundEnabled) {
-        notificationService.notifyPaymentSent(data.transaction.amount, data.transaction.recipient)
+      let receiptSubject: ReceiptSubject = transaction
+      if (scanned.intent !== "merchant") {
+        const claim = await redeemPaymentRequest(scanned.data.request)
+        if (claim.status !== "claimed") {
+          rejectPayment("This payment request has already been paid.")
+          return
+        }
+        receiptSubject = getRequestReceiptSubject(scanned.data.request, transaction.amount)
       }
 
-      toast({
-        title: "Payment Sent Successfully!",
-        description: `₹${data.transaction.amount.toFixed(2)} sent to ${data.transaction.recipient}. Transaction added to history.`,
+      setProcessingStatus("storing")
+      await new Promise((resolve) => setTimeout(resolve, 500))
+
+      console.log("Updating credits with transaction:", transaction)
+      updateCredits(transaction)
+      await addSentTransaction(transaction, "pending")
+      await settlePayment(transaction, receiptSubject, scanned.intent, terms.payeeName)
+    } catch (error) {
+      handleProcessingError(error)
+    }
+  }
+
+  // Shared tail of both flows: sync, hand the other side a receipt, and notify.
+  // `counterparty` is who is shown as paying (offers) or being paid (requests).
+  const settlePayment = async (
+    transaction: Transaction,
+    receiptSubject: ReceiptSubject,
+    intent: ScannedPayment["intent"],
+    counterparty: string,
+  ) => {
+    // The payment was stored as pending, so the sync queue keeps retrying it
+    // until it is in the chain. The first attempt runs now so a rejection can
+    // be shown before the payment is reported as done.
+    if (getNetworkState().isOnline) {
+      setProcessingStatus("syncing")
+      setSyncProgress(0)
+      const stopWatching = onSyncQueueChange((queue) => {
+        if (queue.total > 0) setSyncProgress(Math.round((queue.done / queue.total) * 100))
       })
+      await requestSync()
+        .catch((error) => console.error("Failed to sync payment:", error))
+        .finally(stopWatching)
+      setSyncProgress(100)
+
+      const stored = await getTransactionById(transaction.id)
+      if (stored?.status === "rejected") {
+        rejectPayment(`This payment was rejected: ${stored.lastSyncError ?? "it can't go into the chain"}`)
+        return
+      }
+    }
+
+    // The other device scans this to confirm the payment without a connection,
+    // or gets it straight away when the two are linked
+    try {
+      const receipt = await createPaymentReceipt(receiptSubject, await getSigner())
+      setReceiptPayload({ type: "receipt", data: receipt })
+      if (getActivePeerLink()?.state === "open") {
+        paymentEventManager.emit("paymentReceipt", receipt)
+      }
     } catch (error) {
-      console.error("Error processing transaction:", error)
-      setProcessingStatus("error")
-      setErrorMessage("An error occurred while processing the transaction.")
+      console.error("Failed to sign payment receipt:", error)
+    }
+
+    setProcessingStatus("complete")
+    setPaymentComplete(true)
+    setPaymentDetails({
+      intent,
+      amount: transaction.amount,
+      counterparty,
+      sender: transaction.sender,
+      timestamp: Date.now(),
+      transactionId: transaction.id,
+    })
+
+    // Emit payment events to notify the other side
+    console.log("Emitting payment received event for transaction:", transaction.id)
+    const { id, amount, recipient, sender } = transaction
+    paymentEventManager.emitPaymentReceived(transaction)
+    paymentEventManager.emitPaymentSent(id, amount, recipient, sender)
 
+    if (intent === "offer") {
       if (soundEnabled) {
-        notificationService.notifyError("Failed to process the transaction. Please try again.")
+        notificationService.notifyPaymentReceived(transaction.amount, counterparty)
       }
-
       toast({
-        title: "Error",
-        description: "Failed to process the transaction. Please try again.",
-        variant: "destructive",
+        title: "Voucher Redeemed!",
+        description: `₹${transaction.amount.toFixed(2)} received from ${counterparty.substring(0, 8)}... Transaction added to history.`,
       })
+      return
+    }
+
+    if (soundEnabled) {
+      notificationService.notifyPaymentSent(transaction.amount, counterparty)
     }
+    toast({
+      title: "Payment Sent Successfully!",
+      description: `₹${transaction.amount.toFixed(2)} sent to ${counterparty}. Transaction added to history.`,
+    })
+  }
+
+  const handleProcessingError = (error: unknown) => {
+    console.error("Error processing transaction:", error)
+    setProcessingStatus("error")
+    setErrorMessage("An error occurred while processing the transaction.")
+
+    if (soundEnabled) {
+      notificationService.notifyError("Failed to process the transaction. Please try again.")
+    }
+
+    toast({
+      title: "Error",
+      description: "Failed to process the transaction. Please try again.",
+      variant: "destructive",
+    })
   }
 
   const resetScanner = () => {
+    frameAssemblerRef.current.reset()
+    setFrameProgress(null)
+    setReceiptPayload(null)
     setScannedData(null)
+    setEnteredAmount("")
     setProcessingStatus("idle")
     setErrorMessage(null)
     setPaymentComplete(false)
     setPaymentDetails(null)
-    setPassword("")
     setScanning(true)
     setCameraPermission(null)
     checkCameraPermission()
@@ -293,75 +725,137 @@ const QRScanner: React.FC = () => {
       <Card className="bg-white shadow-lg border-border/50">
         <CardContent className="pt-6">
           {scanning ? (
-            <div className="relative aspect-square w-full max-w-sm mx-auto overflow-hidden rounded-lg bg-muted">
-              {cameraPermission === false ? (
-                <div className="absolute inset-0 flex items-center justify-center flex-col">
-                  <AlertCircle className="h-12 w-12 text-red-500 mb-2" />
-                  <p className="text-center text-sm px-4">Camera access denied. Please check your browser settings.</p>
-                </div>
-              ) : (
-                <>
-                  <video ref={videoRef} className="w-full h-full object-cover" />
-                  <div className="absolute inset-0 flex items-center justify-center">
-                    <QrCode className="h-16 w-16 text-muted-foreground opacity-20" />
+            <div
+              onDragOver={(e) => {
+                e.preventDefault()
+                setIsDraggingImage(true)
+              }}
+              onDragLeave={() => setIsDraggingImage(false)}
+              onDrop={handleImageDrop}
+            >
+              <div
+                className={`relative aspect-square w-full max-w-sm mx-auto overflow-hidden rounded-lg bg-muted ${
+                  isDraggingImage ? "ring-2 ring-primary" : ""
+                }`}
+              >
+                {cameraPermission === false ? (
+                  <div className="absolute inset-0 flex items-center justify-center flex-col">
+                    <AlertCircle className="h-12 w-12 text-red-500 mb-2" />
+                    <p className="text-center text-sm px-4">
+                      Camera access denied. You can still upload, drop or paste a picture of the QR code.
+                    </p>
                   </div>
-                  {scanning && (
-                    <motion.div
-                      initial={{ top: 0 }}
-                      animate={{ top: "100%" }}
-                      transition={{
-                        repeat: Number.POSITIVE_INFINITY,
-                        duration: 1.5,
-                        ease: "linear",
-                      }}
-                      className="absolute left-0 right-0 h-0.5 bg-primary z-10"
-                    />
-                  )}
-                </>
-              )}
-            </div>
-          ) : processingStatus === "password_required" ? (
-            <div className="flex flex-col items-center text-center">
-              <div className="rounded-full bg-primary/10 p-4 mb-4">
-                <Lock className="h-8 w-8 text-primary" />
+                ) : (
+                  <>
+                    <video ref={videoRef} className="w-full h-full object-cover" />
+                    <div className="absolute inset-0 flex items-center justify-center">
+                      <QrCode className="h-16 w-16 text-muted-foreground opacity-20" />
+                    </div>
+                    {scanning && (
+                      <motion.div
+                        initial={{ top: 0 }}
+                        animate={{ top: "100%" }}
+                        transition={{
+                          repeat: Number.POSITIVE_INFINITY,
+                          duration: 1.5,
+                          ease: "linear",
+                        }}
+                        className="absolute left-0 right-0 h-0.5 bg-primary z-10"
+                      />
+                    )}
+                    {frameProgress && (
+                      <div className="absolute bottom-0 left-0 right-0 bg-black/60 p-3 text-white text-xs">
+                        <div className="mb-1">
+                          Receiving animated code: {frameProgress.received} of {frameProgress.total} parts
+                        </div>
+                        <Progress value={(frameProgress.received / frameProgress.total) * 100} className="h-1.5" />
+                      </div>
+                    )}
+                  </>
+                )}
               </div>
-              <h3 className="text-xl font-semibold mb-4">Enter Password</h3>
-              <p className="text-sm text-muted-foreground mb-4">
-                Please enter the password to verify and process the transaction
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*"
+                onChange={handleImageSelected}
+                className="hidden"
+              />
+              <Button
+                variant="outline"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={readingImage}
+                className="w-full mt-4"
+              >
+                {readingImage ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ImageUp className="mr-2 h-4 w-4" />}
+                {readingImage ? "Reading Image..." : "Scan from Image"}
+              </Button>
+              <p className="text-xs text-muted-foreground text-center mt-2">
+                Or drop a screenshot here, or paste one from the clipboard
               </p>
-
+            </div>
+          ) : processingStatus === "pin_required" ? (
+            <PinPrompt onVerified={handlePinVerified}>
               {scannedData && (
-                <div className="bg-muted/50 rounded-lg p-4 mb-4 w-full">
-                  <div className="text-sm font-medium mb-2">Transaction Details</div>
-                  <div className="space-y-1 text-sm">
-                    <div className="flex justify-between">
-                      <span className="text-muted-foreground">Amount:</span>
-                      <span className="font-bold text-primary">₹{scannedData.transaction.amount.toFixed(2)}</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-muted-foreground">To:</span>
-                      <span className="font-mono">{scannedData.transaction.recipient.substring(0, 12)}...</span>
-                    </div>
-                  </div>
-                </div>
+                <ScannedDetails scanned={scannedData} enteredAmount={enteredAmount} />
               )}
-
-              <div className="w-full max-w-xs mb-4">
-                <input
-                  type="password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
-                  placeholder="Enter password (2239)"
-                  onKeyPress={(e) => {
-                    if (e.key === "Enter") {
-                      handlePasswordSubmit()
-                    }
-                  }}
-                />
+            </PinPrompt>
+          ) : processingStatus === "amount_required" && scannedData ? (
+            <div className="flex flex-col items-center">
+              <ScannedDetails scanned={scannedData} enteredAmount={enteredAmount} />
+              <div className="space-y-2 w-full mb-4">
+                <Label htmlFor="scanned-amount" className="text-sm font-semibold">
+                  Amount to pay *
+                </Label>
+                <div className="relative">
+                  <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground font-medium">
+                    ₹
+                  </span>
+                  <Input
+                    id="scanned-amount"
+                    placeholder="0.00"
+                    value={enteredAmount}
+                    onChange={(e) => setEnteredAmount(e.target.value)}
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    autoFocus
+                    className="pl-8 text-lg font-medium"
+                  />
+                </div>
               </div>
-              <Button onClick={handlePasswordSubmit} className="w-full max-w-xs">
-                Verify & Process Payment
+              <Button onClick={handleAmountEntered} className="w-full">
+                Continue
+              </Button>
+            </div>
+          ) : processingStatus === "upi_ready" && scannedData?.intent === "upi" ? (
+            <div className="flex flex-col items-center">
+              <ScannedDetails scanned={scannedData} enteredAmount={enteredAmount} />
+              <div className="bg-muted/50 rounded-lg p-3 mb-4 w-full text-left">
+                <div className="text-xs text-muted-foreground mb-1">UPI ID</div>
+                <div className="text-sm font-mono break-all">{scannedData.data.payeeAddress}</div>
+              </div>
+              <p className="text-xs text-muted-foreground mb-4">
+                This is a standard UPI code. OffPay can't send UPI payments, so it opens in your UPI app
+                {scannedData.data.amount === undefined && ", which will ask for the amount"}.
+              </p>
+              <Button asChild className="w-full mb-2">
+                <a href={buildUpiLink(scannedData.data)}>
+                  <ExternalLink className="mr-2 h-4 w-4" />
+                  Pay with UPI App
+                </a>
+              </Button>
+              <Button variant="outline" onClick={() => handleCopyUpiId(scannedData.data)} className="w-full">
+                <Copy className="mr-2 h-4 w-4" />
+                Copy UPI ID
+              </Button>
+            </div>
+          ) : processingStatus === "confirm_offer" && scannedData?.intent === "offer" ? (
+            <div className="flex flex-col items-center">
+              <ScannedDetails scanned={scannedData} enteredAmount={enteredAmount} />
+              <Button onClick={() => redeemOffer(scannedData.data)} className="w-full">
+                <Gift className="mr-2 h-4 w-4" />
+                Redeem ₹{scannedData.data.transaction.amount.toFixed(2)}
               </Button>
             </div>
           ) : paymentComplete ? (
@@ -378,13 +872,27 @@ const QRScanner: React.FC = () => {
                 </div>
 
                 <div className="bg-green-50 rounded-lg p-6 w-full mb-6">
-                  <div className="text-3xl font-bold text-green-600 mb-2">Payment Sent Successfully!</div>
-                  <div className="text-lg text-green-700 mb-4">
-                    ₹{paymentDetails?.amount?.toFixed(2)} sent to {paymentDetails?.recipient}
-                  </div>
-                  <div className="text-sm text-green-600">
-                    Your transaction has been processed and the recipient has been notified.
-                  </div>
+                  {paymentDetails?.intent === "offer" ? (
+                    <>
+                      <div className="text-3xl font-bold text-green-600 mb-2">Voucher Redeemed!</div>
+                      <div className="text-lg text-green-700 mb-4">
+                        ₹{paymentDetails?.amount?.toFixed(2)} received from {paymentDetails?.counterparty?.substring(0, 12)}...
+                      </div>
+                      <div className="text-sm text-green-600">
+                        The credits have been added to your balance and the payer has been notified.
+                      </div>
+                    </>
+                  ) : (
+                    <>
+                      <div className="text-3xl font-bold text-green-600 mb-2">Payment Sent Successfully!</div>
+                      <div className="text-lg text-green-700 mb-4">
+                        ₹{paymentDetails?.amount?.toFixed(2)} sent to {paymentDetails?.counterparty}
+                      </div>
+                      <div className="text-sm text-green-600">
+                        Your transaction has been processed and the recipient has been notified.
+                      </div>
+                    </>
+                  )}
                 </div>
 
                 <div className="bg-muted/50 rounded-lg p-4 w-full mb-4">
@@ -404,6 +912,18 @@ const QRScanner: React.FC = () => {
                     </div>
                   </div>
                 </div>
+
+                {receiptPayload && (
+                  <div className="bg-white rounded-lg border p-4 w-full mb-4">
+                    <div className="text-sm font-medium mb-1">Payment Receipt</div>
+                    <div className="text-xs text-muted-foreground mb-3">
+                      {paymentDetails?.intent === "offer"
+                        ? "Show this to the payer so they can confirm the voucher was redeemed."
+                        : "Show this to the recipient so they can confirm the payment offline."}
+                    </div>
+                    <AnimatedQRCode payload={receiptPayload} size={180} className="mx-auto" />
+                  </div>
+                )}
               </div>
             </motion.div>
           ) : (
@@ -435,30 +955,15 @@ const QRScanner: React.FC = () => {
                       : processingStatus === "storing"
                         ? "Storing transaction securely..."
                         : processingStatus === "syncing"
-                          ? "Syncing to blockchain..."
+                          ? isSyncServerConfigured()
+                            ? "Syncing with server..."
+                            : "Mining block..."
                           : "Please wait while we process the transaction"}
                 </p>
 
-                {scannedData && (
-                  <div className="bg-muted/50 rounded-lg p-4 mb-4">
-                    <div className="flex justify-between mb-2">
-                      <span className="text-sm font-medium">Amount:</span>
-                      <span className="text-sm font-bold text-primary">
-                        ₹{scannedData.transaction.amount.toFixed(2)}
-                      </span>
-                    </div>
+                {processingStatus === "syncing" && <Progress value={syncProgress} className="h-2 mb-4 w-full" />}
 
-                    <div className="flex justify-between mb-2">
-                      <span className="text-sm font-medium">To:</span>
-                      <span className="text-sm font-mono">{scannedData.transaction.recipient.substring(0, 12)}...</span>
-                    </div>
-
-                    <div className="flex justify-between">
-                      <span className="text-sm font-medium">From:</span>
-                      <span className="text-sm font-mono">{scannedData.transaction.sender.substring(0, 12)}...</span>
-                    </div>
-                  </div>
-                )}
+                {scannedData && <ScannedDetails scanned={scannedData} enteredAmount={enteredAmount} />}
               </div>
             </motion.div>
           )}
@@ -477,6 +982,10 @@ const QRScanner: React.FC = () => {
                 <RefreshCw className="mr-2 h-4 w-4" />
                 Scan Another QR Code
               </>
+            ) : processingStatus === "amount_required" ||
+              processingStatus === "confirm_offer" ||
+              processingStatus === "upi_ready" ? (
+              "Cancel"
             ) : (
               "Processing..."
             )}
@@ -1,25 +1,32 @@
 "use client"
 
 import type React from "react"
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import { motion, AnimatePresence } from "framer-motion"
-import type { Transaction, StoredTransaction } from "../types"
-import { getTransactions } from "../utils/storage"
-import { syncTransactionToBlockchain } from "../utils/blockchain"
+import type { ChainReorganization, Transaction, ValidationReport } from "../types"
+import { getTransactionDirection, getTransactions, getTransactionStats } from "../utils/storage"
+import { blockchain } from "../utils/blockchain"
 import { getNetworkState } from "../utils/network"
+import { requestSync } from "../utils/syncScheduler"
 import { useCredits } from "@/hooks/useCredits"
 import { Card, CardContent } from "./ui/card"
 import { Button } from "./ui/button"
 import { Badge } from "./ui/badge"
+import { Alert, AlertDescription, AlertTitle } from "./ui/alert"
 import { toast } from "./ui/use-toast"
-import { CloudOff, CloudUpload, ArrowDownUp, Clock, CheckCircle2, AlertCircle } from "lucide-react"
+import { CloudOff, CloudUpload, ArrowDownUp, Clock, CheckCircle2, AlertCircle, GitBranch, XCircle } from "lucide-react"
 
 const TransactionList: React.FC = () => {
-  const [transactions, setTransactions] = useState<StoredTransaction[]>([])
+  const [transactions, setTransactions] = useState<Transaction[]>([])
   const [isSyncing, setIsSyncing] = useState<boolean>(false)
   const [isOnline, setIsOnline] = useState<boolean>(getNetworkState().isOnline)
   const { updateCredits } = useCredits()
+  // Kept in a ref so the listeners aren't re-added whenever credits change
+  const updateCreditsRef = useRef(updateCredits)
+  updateCreditsRef.current = updateCredits
   const [stats, setStats] = useState<any>(null)
+  const [validationReport, setValidationReport] = useState<ValidationReport | null>(null)
+  const [reorganization, setReorganization] = useState<ChainReorganization | null>(null)
 
   useEffect(() => {
     loadTransactions()
@@ -41,32 +48,57 @@ const TransactionList: React.FC = () => {
       })
     }
 
+    // Synced in the background or by Sync All; credits settle once on the chain
+    const handleTransactionsSynced = (event: CustomEvent<{ transactions: Transaction[] }>) => {
+      event.detail.transactions.forEach((transaction) => updateCreditsRef.current(transaction))
+      loadTransactions()
+    }
+
+    // Orphaned transactions went back to pending
+    const handleChainReorganized = (event: CustomEvent<ChainReorganization>) => {
+      setReorganization(event.detail)
+      loadTransactions()
+      toast({
+        title: "Chain Reorganized",
+        description: `${event.detail.orphanedTransactionIds.length} transactions are pending again.`,
+      })
+    }
+
     window.addEventListener("online", handleOnline)
     window.addEventListener("offline", handleOffline)
     window.addEventListener("transactionAdded", handleTransactionAdded as EventListener)
+    window.addEventListener("chainReorganized", handleChainReorganized as EventListener)
+    window.addEventListener("transactionsSynced", handleTransactionsSynced as EventListener)
 
     return () => {
       window.removeEventListener("online", handleOnline)
       window.removeEventListener("offline", handleOffline)
       window.removeEventListener("transactionAdded", handleTransactionAdded as EventListener)
+      window.removeEventListener("chainReorganized", handleChainReorganized as EventListener)
+      window.removeEventListener("transactionsSynced", handleTransactionsSynced as EventListener)
     }
   }, [])
 
-  const loadTransactions = () => {
-    const storedTransactions = getTransactions()
+  const loadTransactions = async () => {
+    const storedTransactions = await getTransactions()
     setTransactions(storedTransactions.sort((a, b) => b.timestamp - a.timestamp))
 
     // Load transaction statistics
-    const { getTransactionStats } = require("../utils/storage")
-    setStats(getTransactionStats())
+    setStats(await getTransactionStats())
+
+    await blockchain.ready
+    setValidationReport(blockchain.getValidationReport())
+    setReorganization(blockchain.getLastReorganization())
   }
 
+  // Runs the sync queue now, retrying transactions that ran out of attempts
+  // too. Offline, the queue waits for the connection to come back.
   const handleSyncAll = async () => {
     if (!isOnline) {
+      await requestSync({ includeFailed: true })
       toast({
-        title: "Offline",
-        description: "Cannot sync transactions while offline.",
-        variant: "destructive",
+        title: "Sync Queued",
+        description: "Pending transactions will sync when you're back online.",
       })
       return
     }
@@ -74,29 +106,26 @@ const TransactionList: React.FC = () => {
     setIsSyncing(true)
 
     try {
-      const pendingTransactions = transactions.filter((t) => t.status === "pending")
+      const summary = await requestSync({ includeFailed: true })
+      await loadTransactions()
 
-      if (pendingTransactions.length === 0) {
+      if (summary.synced + summary.rejected + summary.retrying + summary.failed === 0) {
         toast({
           title: "No pending transactions",
           description: "All transactions are already synced.",
         })
-        setIsSyncing(false)
-        return
-      }
-
-      for (const transaction of pendingTransactions) {
-        await syncTransactionToBlockchain(transaction)
-
-        updateCredits(transaction)
+      } else if (summary.rejected + summary.retrying + summary.failed === 0) {
+        toast({
+          title: "Sync Complete",
+          description: `Successfully synced ${summary.synced} transactions.`,
+        })
+      } else {
+        toast({
+          title: "Sync Incomplete",
+          description: `Synced ${summary.synced}. ${summary.rejected} rejected, ${summary.retrying} will be retried and ${summary.failed} failed.`,
+          variant: "destructive",
+        })
       }
-
-      loadTransactions()
-
-      toast({
-        title: "Sync Complete",
-        description: `Successfully synced ${pendingTransactions.length} transactions.`,
-      })
     } catch (error) {
       console.error("Error syncing transactions:", error)
       toast({
@@ -117,6 +146,8 @@ const TransactionList: React.FC = () => {
         return <CloudUpload className="h-4 w-4 text-blue-500" />
       case "verified":
         return <CheckCircle2 className="h-4 w-4 text-green-500" />
+      case "rejected":
+        return <XCircle className="h-4 w-4 text-red-500" />
       default:
         return <AlertCircle className="h-4 w-4 text-red-500" />
     }
@@ -130,6 +161,10 @@ const TransactionList: React.FC = () => {
         return "Synced"
       case "verified":
         return "Verified"
+      case "failed":
+        return "Failed"
+      case "rejected":
+        return "Rejected"
       default:
         return "Unknown"
     }
@@ -156,7 +191,7 @@ const TransactionList: React.FC = () => {
             </p>
           </div>
 
-          <Button onClick={handleSyncAll} disabled={isSyncing || !isOnline} className="flex items-center">
+          <Button onClick={handleSyncAll} disabled={isSyncing} className="flex items-center">
             {isSyncing ? (
               <>
                 <CloudUpload className="mr-2 h-4 w-4 animate-spin" />
@@ -170,12 +205,37 @@ const TransactionList: React.FC = () => {
             ) : (
               <>
                 <CloudOff className="mr-2 h-4 w-4" />
-                Offline
+                Sync When Online
               </>
             )}
           </Button>
         </div>
 
+        {validationReport?.status === "invalid" && (
+          <Alert variant="destructive" className="mb-6">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Blockchain repaired</AlertTitle>
+            <AlertDescription>
+              Block {validationReport.blockIndex} failed validation ({validationReport.message}). It and any later
+              blocks were quarantined, and their transactions are pending again.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {reorganization && (
+          <Alert className="mb-6">
+            <GitBranch className="h-4 w-4" />
+            <AlertTitle>Blockchain reorganized</AlertTitle>
+            <AlertDescription>
+              {reorganization.removedBlocks} blocks after block {reorganization.ancestorIndex} were replaced by{" "}
+              {reorganization.addedBlocks} from a chain with more work behind it.{" "}
+              {reorganization.orphanedTransactionIds.length > 0
+                ? "Transactions marked Reorganized are pending again and will be synced."
+                : "No transactions were affected."}
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Transaction Statistics */}
         {stats && (
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
@@ -228,117 +288,125 @@ const TransactionList: React.FC = () => {
           </motion.div>
         ) : (
           <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="space-y-4">
-            {transactions.map((transaction) => (
-              <motion.div
-                key={transaction.id}
-                initial={{ opacity: 0, y: 10 }}
-                animate={{ opacity: 1, y: 0 }}
-                exit={{ opacity: 0, y: -10 }}
-                transition={{ duration: 0.2 }}
-                className="hover-lift"
-              >
-                <Card
-                  className={`bg-card/80 backdrop-blur-xs border-border/60 ${
-                    transaction.description?.startsWith("Received:")
-                      ? "border-l-4 border-l-green-500"
-                      : transaction.description?.startsWith("Sent:")
-                        ? "border-l-4 border-l-blue-500"
-                        : ""
-                  }`}
+            {transactions.map((transaction) => {
+              const direction = getTransactionDirection(transaction)
+              return (
+                <motion.div
+                  key={transaction.id}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -10 }}
+                  transition={{ duration: 0.2 }}
+                  className="hover-lift"
                 >
-                  <CardContent className="p-4">
-                    <div className="flex justify-between items-start">
-                      <div className="flex items-center space-x-3">
-                        <div
-                          className={`p-2 rounded-full ${
-                            transaction.description?.startsWith("Received:")
-                              ? "bg-green-100 text-green-600"
-                              : transaction.description?.startsWith("Sent:")
-                                ? "bg-blue-100 text-blue-600"
-                                : "bg-gray-100 text-gray-600"
-                          }`}
-                        >
-                          {transaction.description?.startsWith("Received:") ? (
-                            <ArrowDownUp className="h-4 w-4 rotate-180" />
-                          ) : transaction.description?.startsWith("Sent:") ? (
-                            <ArrowDownUp className="h-4 w-4" />
-                          ) : (
-                            <ArrowDownUp className="h-4 w-4" />
+                  <Card
+                    className={`bg-card/80 backdrop-blur-xs border-border/60 ${
+                      direction === "received"
+                        ? "border-l-4 border-l-green-500"
+                        : direction === "sent"
+                          ? "border-l-4 border-l-blue-500"
+                          : ""
+                    }`}
+                  >
+                    <CardContent className="p-4">
+                      <div className="flex justify-between items-start">
+                        <div className="flex items-center space-x-3">
+                          <div
+                            className={`p-2 rounded-full ${
+                              direction === "received"
+                                ? "bg-green-100 text-green-600"
+                                : direction === "sent"
+                                  ? "bg-blue-100 text-blue-600"
+                                  : "bg-gray-100 text-gray-600"
+                            }`}
+                          >
+                            {direction === "received" ? (
+                              <ArrowDownUp className="h-4 w-4 rotate-180" />
+                            ) : direction === "sent" ? (
+                              <ArrowDownUp className="h-4 w-4" />
+                            ) : (
+                              <ArrowDownUp className="h-4 w-4" />
+                            )}
+                          </div>
+
+                          <div>
+                            <div
+                              className={`font-medium text-lg ${
+                                direction === "received"
+                                  ? "text-green-600"
+                                  : direction === "sent"
+                                    ? "text-blue-600"
+                                    : "text-foreground"
+                              }`}
+                            >
+                              {direction === "received" ? "+" : "-"}₹{transaction.amount.toFixed(2)}
+                            </div>
+                            <div className="text-xs text-muted-foreground">ID: {transaction.id.substring(0, 8)}...</div>
+                          </div>
+                        </div>
+
+                        <div className="flex flex-col items-end">
+                          <Badge
+                            variant={transaction.status === "verified" ? "default" : "outline"}
+                            className="flex items-center mb-2"
+                          >
+                            {getStatusIcon(transaction.status)}
+                            <span className="ml-1">{getStatusText(transaction.status)}</span>
+                          </Badge>
+                          {reorganization?.orphanedTransactionIds.includes(transaction.id) && (
+                            <Badge variant="outline" className="flex items-center mb-2 text-orange-600">
+                              <GitBranch className="h-3 w-3 mr-1" />
+                              Reorganized
+                            </Badge>
                           )}
+                          <span className="text-xs text-muted-foreground">{formatDate(transaction.timestamp)}</span>
                         </div>
+                      </div>
 
+                      <div className="mt-4 flex justify-between text-sm">
+                        <div>
+                          <div className="text-muted-foreground">{direction === "received" ? "From" : "To"}</div>
+                          <div className="font-mono">
+                            {direction === "received"
+                              ? transaction.sender.substring(0, 12) + "..."
+                              : transaction.recipient.substring(0, 12) + "..."}
+                          </div>
+                        </div>
                         <div>
+                          <div className="text-muted-foreground">Type</div>
                           <div
-                            className={`font-medium text-lg ${
-                              transaction.description?.startsWith("Received:")
+                            className={`font-medium ${
+                              direction === "received"
                                 ? "text-green-600"
-                                : transaction.description?.startsWith("Sent:")
+                                : direction === "sent"
                                   ? "text-blue-600"
                                   : "text-foreground"
                             }`}
                           >
-                            {transaction.description?.startsWith("Received:") ? "+" : "-"}₹
-                            {transaction.amount.toFixed(2)}
+                            {direction === "received" ? "Received" : direction === "sent" ? "Sent" : "Transfer"}
                           </div>
-                          <div className="text-xs text-muted-foreground">ID: {transaction.id.substring(0, 8)}...</div>
                         </div>
                       </div>
 
-                      <div className="flex flex-col items-end">
-                        <Badge
-                          variant={transaction.status === "verified" ? "default" : "outline"}
-                          className="flex items-center mb-2"
-                        >
-                          {getStatusIcon(transaction.status)}
-                          <span className="ml-1">{getStatusText(transaction.status)}</span>
-                        </Badge>
-                        <span className="text-xs text-muted-foreground">{formatDate(transaction.timestamp)}</span>
-                      </div>
-                    </div>
-
-                    <div className="mt-4 flex justify-between text-sm">
-                      <div>
-                        <div className="text-muted-foreground">
-                          {transaction.description?.startsWith("Received:") ? "From" : "To"}
+                      {transaction.lastSyncError && transaction.status !== "synced" && (
+                        <div className="mt-4 text-xs text-red-600 dark:text-red-400">
+                          {transaction.status === "rejected" ? "Rejected" : "Last sync failed"}:{" "}
+                          {transaction.lastSyncError}
+                          {transaction.syncAttempts ? ` (attempt ${transaction.syncAttempts})` : ""}
                         </div>
-                        <div className="font-mono">
-                          {transaction.description?.startsWith("Received:")
-                            ? transaction.sender.substring(0, 12) + "..."
-                            : transaction.recipient.substring(0, 12) + "..."}
-                        </div>
-                      </div>
-                      <div>
-                        <div className="text-muted-foreground">Type</div>
-                        <div
-                          className={`font-medium ${
-                            transaction.description?.startsWith("Received:")
-                              ? "text-green-600"
-                              : transaction.description?.startsWith("Sent:")
-                                ? "text-blue-600"
-                                : "text-foreground"
-                          }`}
-                        >
-                          {transaction.description?.startsWith("Received:")
-                            ? "Received"
-                            : transaction.description?.startsWith("Sent:")
-                              ? "Sent"
-                              : "Transfer"}
-                        </div>
-                      </div>
-                    </div>
+                      )}
 
-                    {transaction.description &&
-                      !transaction.description.startsWith("Sent:") &&
-                      !transaction.description.startsWith("Received:") && (
+                      {transaction.description && !direction && (
                         <div className="mt-4 pt-3 border-t border-border/60">
                           <div className="text-xs text-muted-foreground mb-1">Description</div>
                           <div className="text-sm">{transaction.description}</div>
                         </div>
                       )}
-                  </CardContent>
-                </Card>
-              </motion.div>
-            ))}
+                    </CardContent>
+                  </Card>
+                </motion.div>
+              )
+            })}
           </motion.div>
         )}
       </AnimatePresence>
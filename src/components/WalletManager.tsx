@@ -0,0 +1,289 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Separator } from "@/components/ui/separator"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+import { KeyRound, Copy, Download, Upload, RefreshCw } from "lucide-react"
+import { useWallet } from "@/hooks/useWallet"
+import { toast } from "@/components/ui/use-toast"
+
+const MIN_PASSPHRASE_LENGTH = 8
+
+const WalletManager = () => {
+  const { wallet, isLoading, rotateKey, exportBackup, importBackup } = useWallet()
+  const [isExportOpen, setIsExportOpen] = useState(false)
+  const [isImportOpen, setIsImportOpen] = useState(false)
+  const [isWorking, setIsWorking] = useState(false)
+  const [passphrase, setPassphrase] = useState("")
+  const [confirmPassphrase, setConfirmPassphrase] = useState("")
+  const [backupFile, setBackupFile] = useState<File | null>(null)
+
+  const resetForms = () => {
+    setPassphrase("")
+    setConfirmPassphrase("")
+    setBackupFile(null)
+  }
+
+  const handleCopyAddress = () => {
+    if (!wallet) return
+    navigator.clipboard.writeText(wallet.address)
+    toast({
+      title: "Copied to clipboard",
+      description: "Your wallet address has been copied.",
+    })
+  }
+
+  const handleRotate = async () => {
+    setIsWorking(true)
+    await rotateKey()
+    setIsWorking(false)
+  }
+
+  const handleExport = async () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      toast({
+        title: "Passphrase Too Short",
+        description: `Use at least ${MIN_PASSPHRASE_LENGTH} characters to protect your backup.`,
+        variant: "destructive",
+      })
+      return
+    }
+    if (passphrase !== confirmPassphrase) {
+      toast({
+        title: "Passphrases Don't Match",
+        description: "Please enter the same passphrase twice.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsWorking(true)
+    const backup = await exportBackup(passphrase)
+    setIsWorking(false)
+    if (!backup || !wallet) return
+
+    const url = URL.createObjectURL(new Blob([backup], { type: "application/json" }))
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `offpay-wallet-${wallet.address.substring(7, 15)}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+
+    toast({
+      title: "Backup Downloaded",
+      description: "Keep this file and its passphrase somewhere safe.",
+    })
+    resetForms()
+    setIsExportOpen(false)
+  }
+
+  const handleImport = async () => {
+    if (!backupFile || !passphrase) {
+      toast({
+        title: "Missing Information",
+        description: "Please choose a backup file and enter its passphrase.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsWorking(true)
+    const restored = await importBackup(await backupFile.text(), passphrase)
+    setIsWorking(false)
+    if (restored) {
+      resetForms()
+      setIsImportOpen(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="pt-6 flex justify-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          Wallet Keys
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <div className="text-sm text-muted-foreground mb-1">Wallet Address</div>
+          <div className="flex items-center gap-2">
+            <code className="text-xs bg-muted/50 rounded px-2 py-1 break-all flex-1">{wallet?.address}</code>
+            <Button variant="ghost" size="icon" onClick={handleCopyAddress}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-2">
+          {wallet?.keys
+            .slice()
+            .reverse()
+            .map((key) => (
+              <div key={key.id} className="flex justify-between items-center text-sm">
+                <div>
+                  <div className="font-mono">{key.publicKey.substring(0, 16)}...</div>
+                  <div className="text-xs text-muted-foreground">
+                    Created {new Date(key.createdAt).toLocaleDateString()}
+                  </div>
+                </div>
+                {key.id === wallet.activeKeyId ? (
+                  <Badge>Active</Badge>
+                ) : (
+                  <Badge variant="outline">Retired</Badge>
+                )}
+              </div>
+            ))}
+        </div>
+
+        <Separator />
+
+        <div className="grid grid-cols-1 gap-2">
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" disabled={isWorking}>
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Rotate Signing Key
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Rotate signing key?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  A new key will sign your future payments. Your address stays the same and older transactions remain
+                  verifiable. Export a new backup afterwards.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleRotate}>Rotate Key</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+
+          <Dialog
+            open={isExportOpen}
+            onOpenChange={(open) => {
+              setIsExportOpen(open)
+              resetForms()
+            }}
+          >
+            <DialogTrigger asChild>
+              <Button variant="outline">
+                <Download className="mr-2 h-4 w-4" />
+                Export Recovery File
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-md">
+              <DialogHeader>
+                <DialogTitle>Export Recovery File</DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4 pt-2">
+                <p className="text-sm text-muted-foreground">
+                  Your keys are encrypted with this passphrase. Without it the file cannot be restored.
+                </p>
+                <div className="space-y-2">
+                  <Label htmlFor="backup-passphrase">Passphrase</Label>
+                  <Input
+                    id="backup-passphrase"
+                    type="password"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="backup-passphrase-confirm">Confirm Passphrase</Label>
+                  <Input
+                    id="backup-passphrase-confirm"
+                    type="password"
+                    value={confirmPassphrase}
+                    onChange={(e) => setConfirmPassphrase(e.target.value)}
+                  />
+                </div>
+                <Button className="w-full" onClick={handleExport} disabled={isWorking}>
+                  {isWorking ? "Encrypting..." : "Download Backup"}
+                </Button>
+              </div>
+            </DialogContent>
+          </Dialog>
+
+          <Dialog
+            open={isImportOpen}
+            onOpenChange={(open) => {
+              setIsImportOpen(open)
+              resetForms()
+            }}
+          >
+            <DialogTrigger asChild>
+              <Button variant="outline">
+                <Upload className="mr-2 h-4 w-4" />
+                Restore from Backup
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-md">
+              <DialogHeader>
+                <DialogTitle>Restore Wallet</DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4 pt-2">
+                <p className="text-sm text-muted-foreground">
+                  Restoring replaces the keys on this device with the ones in the backup.
+                </p>
+                <div className="space-y-2">
+                  <Label htmlFor="backup-file">Recovery File</Label>
+                  <Input
+                    id="backup-file"
+                    type="file"
+                    accept="application/json,.json"
+                    onChange={(e) => setBackupFile(e.target.files?.[0] ?? null)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="restore-passphrase">Passphrase</Label>
+                  <Input
+                    id="restore-passphrase"
+                    type="password"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                  />
+                </div>
+                <Button className="w-full" onClick={handleImport} disabled={isWorking}>
+                  {isWorking ? "Restoring..." : "Restore Wallet"}
+                </Button>
+              </div>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default WalletManager
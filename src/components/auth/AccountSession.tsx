@@ -0,0 +1,31 @@
+import { useEffect } from 'react';
+import { useUser } from '@clerk/clerk-react';
+import { activateLocalAccount, deactivateLocalAccount } from '@/utils/accounts';
+
+// Points local storage at whichever Clerk user is signed in, and locks and
+// closes it again on sign-out
+const AccountSession = () => {
+  const { isLoaded, user } = useUser();
+  // Clerk hands out a new user object on every update, so the effect follows
+  // the fields it stores instead
+  const userId = user?.id;
+  const email = user?.primaryEmailAddress?.emailAddress;
+  const displayName = user?.fullName || user?.username || email || userId;
+  const imageUrl = user?.imageUrl;
+
+  useEffect(() => {
+    if (!isLoaded) return;
+
+    if (userId) {
+      activateLocalAccount({ userId, displayName: displayName ?? userId, email, imageUrl }).catch((error) =>
+        console.error('Failed to activate account:', error)
+      );
+    } else {
+      deactivateLocalAccount().catch((error) => console.error('Failed to sign out of local account:', error));
+    }
+  }, [isLoaded, userId, displayName, email, imageUrl]);
+
+  return null;
+};
+
+export default AccountSession;
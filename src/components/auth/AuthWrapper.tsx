@@ -3,6 +3,7 @@
 
 import React from 'react';
 import { SignedIn, SignedOut, RedirectToSignIn } from '@clerk/clerk-react';
+import VaultGate from './VaultGate';
 
 interface AuthWrapperProps {
   children: React.ReactNode;
@@ -11,7 +12,9 @@ interface AuthWrapperProps {
 const AuthWrapper: React.FC<AuthWrapperProps> = ({ children }) => {
   return (
     <>
-      <SignedIn>{children}</SignedIn>
+      <SignedIn>
+        <VaultGate>{children}</VaultGate>
+      </SignedIn>
       <SignedOut>
         <RedirectToSignIn />
       </SignedOut>
@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useUser } from '@clerk/clerk-react';
+import { Lock, ShieldCheck } from 'lucide-react';
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { toast } from '@/components/ui/use-toast';
+import PinPrompt, { PinInput } from '@/components/PinPrompt';
+import { PIN_LENGTH, createVault, hasVault, isValidPin, isVaultUnlocked, onVaultChange, unlockVault } from '@/utils/vault';
+import { hasPin, setPin as savePinHash } from '@/utils/pin';
+import { getActiveUserId, onActiveUserChange } from '@/utils/db';
+import { migrateLegacyTransactions } from '@/utils/storage';
+import { loadOrCreateWallet } from '@/utils/wallet';
+
+interface VaultGateProps {
+  children: React.ReactNode;
+}
+
+// Keeps signed-in pages behind the PIN that derives the storage encryption key
+const VaultGate: React.FC<VaultGateProps> = ({ children }) => {
+  const { user } = useUser();
+  const [unlocked, setUnlocked] = useState<boolean>(isVaultUnlocked());
+  const [activeUserId, setActiveUserId] = useState<string | null>(getActiveUserId());
+  const [pin, setPin] = useState<string>('');
+  const [confirmPin, setConfirmPin] = useState<string>('');
+  const [isWorking, setIsWorking] = useState<boolean>(false);
+
+  useEffect(() => onVaultChange(setUnlocked), []);
+  useEffect(() => onActiveUserChange(setActiveUserId), []);
+
+  // Wait for AccountSession to switch storage over to this user
+  if (!user || activeUserId !== user.id) return null;
+  if (unlocked) return <>{children}</>;
+
+  const isNewVault = !hasVault(user.id);
+
+  const finishUnlock = async () => {
+    await migrateLegacyTransactions();
+    await loadOrCreateWallet(user.id);
+  };
+
+  // Attempt counting and lockout live in the PIN module, so vaults that already
+  // have a PIN hash are unlocked through PinPrompt
+  if (!isNewVault && hasPin(user.id)) {
+    const handleVerified = async (verifiedPin: string) => {
+      try {
+        if (await unlockVault(user.id, verifiedPin)) {
+          await finishUnlock();
+        }
+      } catch (error) {
+        console.error('Failed to unlock vault:', error);
+        toast({
+          title: 'Error',
+          description: 'Could not unlock your wallet. Please try again.',
+          variant: 'destructive',
+        });
+      }
+    };
+
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background px-4">
+        <Card className="w-full max-w-sm">
+          <CardContent className="pt-6">
+            <PinPrompt
+              title="Unlock your wallet"
+              description="Enter your PIN to decrypt your transactions."
+              submitLabel="Unlock"
+              purpose="unlock"
+              onVerified={handleVerified}
+            />
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const handleSubmit = async () => {
+    if (!isValidPin(pin)) {
+      toast({
+        title: 'Invalid PIN',
+        description: `Your PIN must be ${PIN_LENGTH} digits.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (isNewVault && pin !== confirmPin) {
+      toast({
+        title: 'PINs do not match',
+        description: 'Please enter the same PIN twice.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      if (isNewVault) {
+        await createVault(user.id, pin);
+      } else if (!(await unlockVault(user.id, pin))) {
+        toast({
+          title: 'Incorrect PIN',
+          description: 'The PIN you entered is incorrect. Please try again.',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      // Vaults created before PIN hashing existed get their hash on first unlock
+      await savePinHash(user.id, pin);
+      await finishUnlock();
+    } catch (error) {
+      console.error('Failed to unlock vault:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not unlock your wallet. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setPin('');
+      setConfirmPin('');
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background px-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.3 }}
+        className="w-full max-w-sm"
+      >
+        <Card>
+          <CardHeader className="text-center">
+            <div className="flex justify-center mb-2">
+              <div className="rounded-full bg-primary/10 p-4">
+                {isNewVault ? <ShieldCheck className="h-8 w-8 text-primary" /> : <Lock className="h-8 w-8 text-primary" />}
+              </div>
+            </div>
+            <CardTitle>{isNewVault ? 'Create your wallet PIN' : 'Unlock your wallet'}</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              {isNewVault
+                ? 'Your transactions are encrypted on this device with a key derived from this PIN.'
+                : 'Enter your PIN to decrypt your transactions.'}
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label>PIN</Label>
+              <PinInput value={pin} onChange={setPin} autoFocus />
+            </div>
+            {isNewVault && (
+              <div className="space-y-2">
+                <Label>Confirm PIN</Label>
+                <PinInput value={confirmPin} onChange={setConfirmPin} />
+              </div>
+            )}
+          </CardContent>
+          <CardFooter>
+            <Button className="w-full" onClick={handleSubmit} disabled={isWorking}>
+              {isWorking ? 'Please wait...' : isNewVault ? 'Create PIN' : 'Unlock'}
+            </Button>
+          </CardFooter>
+        </Card>
+      </motion.div>
+    </div>
+  );
+};
+
+export default VaultGate;
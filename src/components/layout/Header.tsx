@@ -9,6 +9,7 @@ import { MenuIcon, X, User, Sparkles } from "lucide-react"
 import { SignedIn, SignedOut, UserButton, useUser } from "@clerk/clerk-react"
 import { Button } from "@/components/ui/button"
 import NetworkStatus from "../NetworkStatus"
+import PeerConnect from "../PeerConnect"
 
 const Header: React.FC = () => {
   const [isScrolled, setIsScrolled] = useState(false)
@@ -132,12 +133,16 @@ const Header: React.FC = () => {
             </div>
           </SignedOut>
 
+          <SignedIn>
+            <PeerConnect />
+          </SignedIn>
           <NetworkStatus />
         </nav>
 
         {/* Mobile Menu Button */}
         <div className="md:hidden flex items-center space-x-4">
           <SignedIn>
+            <PeerConnect />
             <UserButton afterSignOutUrl="/" />
           </SignedIn>
 
@@ -4,8 +4,7 @@ import { useState, useEffect } from "react"
 import type { BankAccount, LinkedBankAccounts } from "@/types"
 import { useUser } from "@clerk/clerk-react"
 import { toast } from "@/components/ui/use-toast"
-
-const BANK_ACCOUNTS_STORAGE_KEY = "offpay_bank_accounts"
+import { bankAccountRepository } from "@/utils/repositories"
 
 export const useBankAccounts = () => {
   const { user } = useUser()
@@ -18,7 +17,7 @@ export const useBankAccounts = () => {
     }
   }, [user])
 
-  const loadBankAccounts = () => {
+  const loadBankAccounts = async () => {
     setIsLoading(true)
     try {
       if (!user) {
@@ -26,18 +25,7 @@ export const useBankAccounts = () => {
         return
       }
 
-      const userKey = `${BANK_ACCOUNTS_STORAGE_KEY}_${user.id}`
-      const storedAccounts = localStorage.getItem(userKey)
-
-      if (storedAccounts) {
-        setBankAccounts(JSON.parse(storedAccounts))
-      } else {
-        const initialAccounts: LinkedBankAccounts = {
-          accounts: [],
-        }
-        localStorage.setItem(userKey, JSON.stringify(initialAccounts))
-        setBankAccounts(initialAccounts)
-      }
+      setBankAccounts({ accounts: await bankAccountRepository.listByUser(user.id) })
     } catch (error) {
       console.error("Failed to load bank accounts:", error)
       toast({
@@ -80,8 +68,7 @@ export const useBankAccounts = () => {
         accounts: [...bankAccounts.accounts, newAccount],
       }
 
-      const userKey = `${BANK_ACCOUNTS_STORAGE_KEY}_${user.id}`
-      localStorage.setItem(userKey, JSON.stringify(updatedAccounts))
+      await bankAccountRepository.put({ ...newAccount, userId: user.id })
       setBankAccounts(updatedAccounts)
 
       toast({
@@ -106,16 +93,18 @@ export const useBankAccounts = () => {
     }
   }
 
-  const verifyBankAccount = (accountId: string) => {
-    if (!user || !bankAccounts) return
+  const verifyBankAccount = async (accountId: string) => {
+    if (!user) return
 
-    const updatedAccounts: LinkedBankAccounts = {
-      accounts: bankAccounts.accounts.map((acc) => (acc.id === accountId ? { ...acc, isVerified: true } : acc)),
-    }
+    const account = (await bankAccountRepository.listByUser(user.id)).find((acc) => acc.id === accountId)
+    if (!account) return
 
-    const userKey = `${BANK_ACCOUNTS_STORAGE_KEY}_${user.id}`
-    localStorage.setItem(userKey, JSON.stringify(updatedAccounts))
-    setBankAccounts(updatedAccounts)
+    await bankAccountRepository.put({ ...account, isVerified: true })
+    setBankAccounts((current) =>
+      current && {
+        accounts: current.accounts.map((acc) => (acc.id === accountId ? { ...acc, isVerified: true } : acc)),
+      },
+    )
 
     toast({
       title: "Account Verified",
@@ -123,7 +112,7 @@ export const useBankAccounts = () => {
     })
   }
 
-  const setPrimaryAccount = (accountId: string) => {
+  const setPrimaryAccount = async (accountId: string) => {
     if (!user || !bankAccounts) return
 
     const updatedAccounts: LinkedBankAccounts = {
@@ -133,8 +122,7 @@ export const useBankAccounts = () => {
       })),
     }
 
-    const userKey = `${BANK_ACCOUNTS_STORAGE_KEY}_${user.id}`
-    localStorage.setItem(userKey, JSON.stringify(updatedAccounts))
+    await bankAccountRepository.putMany(updatedAccounts.accounts.map((acc) => ({ ...acc, userId: user.id })))
     setBankAccounts(updatedAccounts)
 
     toast({
@@ -143,7 +131,7 @@ export const useBankAccounts = () => {
     })
   }
 
-  const removeBankAccount = (accountId: string) => {
+  const removeBankAccount = async (accountId: string) => {
     if (!user || !bankAccounts) return
 
     const accountToRemove = bankAccounts.accounts.find((acc) => acc.id === accountId)
@@ -158,8 +146,10 @@ export const useBankAccounts = () => {
       updatedAccounts.accounts[0].isPrimary = true
     }
 
-    const userKey = `${BANK_ACCOUNTS_STORAGE_KEY}_${user.id}`
-    localStorage.setItem(userKey, JSON.stringify(updatedAccounts))
+    await bankAccountRepository.remove(accountId)
+    if (accountToRemove.isPrimary && updatedAccounts.accounts.length > 0) {
+      await bankAccountRepository.put({ ...updatedAccounts.accounts[0], userId: user.id })
+    }
     setBankAccounts(updatedAccounts)
 
     toast({
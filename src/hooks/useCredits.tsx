@@ -1,24 +1,21 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useCallback } from "react"
 import type { UserCredit, CreditHistory, Transaction } from "@/types"
 import { useUser } from "@clerk/clerk-react"
 import { toast } from "@/components/ui/use-toast"
+import { creditRepository } from "@/utils/repositories"
+import { getWallet } from "@/utils/wallet"
 
-const CREDITS_STORAGE_KEY = "offpay_credits"
+const INITIAL_BALANCE = 100
 
 export const useCredits = () => {
   const { user } = useUser()
   const [credits, setCredits] = useState<UserCredit | null>(null)
   const [isLoading, setIsLoading] = useState(true)
 
-  useEffect(() => {
-    if (user) {
-      loadCredits()
-    }
-  }, [user])
-
-  const loadCredits = () => {
+  // Stable identity so callers can list it as an effect dependency
+  const loadCredits = useCallback(async () => {
     setIsLoading(true)
     try {
       if (!user) {
@@ -26,19 +23,13 @@ export const useCredits = () => {
         return
       }
 
-      const userKey = `${CREDITS_STORAGE_KEY}_${user.id}`
-      const storedCredits = localStorage.getItem(userKey)
+      const storedCredits = await creditRepository.getCredits(user.id)
 
       if (storedCredits) {
-        setCredits(JSON.parse(storedCredits))
+        setCredits(storedCredits)
       } else {
-        const initialCredits: UserCredit = {
-          balance: 100,
-          history: [],
-        }
-
-        localStorage.setItem(userKey, JSON.stringify(initialCredits))
-        setCredits(initialCredits)
+        const account = await creditRepository.openAccount(user.id, INITIAL_BALANCE)
+        setCredits({ balance: account.balance, history: [] })
       }
     } catch (error) {
       console.error("Failed to load credits:", error)
@@ -50,18 +41,28 @@ export const useCredits = () => {
     } finally {
       setIsLoading(false)
     }
-  }
+  }, [user])
 
-  const updateCredits = (transaction: Transaction) => {
+  useEffect(() => {
+    if (user) {
+      loadCredits()
+    }
+  }, [user, loadCredits])
+
+  // `asRecipient` credits this user regardless of the addresses, for redeemed
+  // offers that were handed over without naming a wallet
+  const updateCredits = async (transaction: Transaction, asRecipient = false) => {
     if (!user || !credits) return
 
-    const userKey = `${CREDITS_STORAGE_KEY}_${user.id}`
-    let newBalance = credits.balance
+    // Transactions are signed with the wallet address; older ones carry the user id
+    const walletAddress = getWallet(user.id)?.address
+    const isOwnAddress = (address: string) => address.includes(user.id) || address === walletAddress
+    let delta: number
     let historyEntry: CreditHistory
 
     // Check if this is an "add money" transaction
     if (transaction.sender === "payment_gateway") {
-      newBalance += transaction.amount
+      delta = transaction.amount
       historyEntry = {
         id: crypto.randomUUID(),
         amount: transaction.amount,
@@ -72,8 +73,8 @@ export const useCredits = () => {
       }
     }
     // Check if user is sending money
-    else if (transaction.sender.includes(user.id)) {
-      newBalance -= transaction.amount
+    else if (!asRecipient && isOwnAddress(transaction.sender)) {
+      delta = -transaction.amount
       historyEntry = {
         id: crypto.randomUUID(),
         amount: transaction.amount,
@@ -84,8 +85,8 @@ export const useCredits = () => {
       }
     }
     // Check if user is receiving money
-    else if (transaction.recipient.includes(user.id)) {
-      newBalance += transaction.amount
+    else if (asRecipient || isOwnAddress(transaction.recipient)) {
+      delta = transaction.amount
       historyEntry = {
         id: crypto.randomUUID(),
         amount: transaction.amount,
@@ -99,13 +100,26 @@ export const useCredits = () => {
       return
     }
 
-    const updatedCredits: UserCredit = {
-      balance: Math.max(0, newBalance), // Ensure balance doesn't go negative
-      history: [historyEntry, ...credits.history],
-    }
+    try {
+      const account = await creditRepository.applyEntry({ ...historyEntry, userId: user.id }, delta)
+      if (!account) {
+        // Already applied for this transaction
+        return
+      }
 
-    localStorage.setItem(userKey, JSON.stringify(updatedCredits))
-    setCredits(updatedCredits)
+      setCredits((current) => ({
+        balance: account.balance,
+        history: [historyEntry, ...(current?.history ?? [])],
+      }))
+    } catch (error) {
+      console.error("Failed to update credits:", error)
+      toast({
+        title: "Error",
+        description: "Failed to update your credit balance",
+        variant: "destructive",
+      })
+      return
+    }
 
     toast({
       title: historyEntry.type === "credit" ? "Credits Added" : "Credits Deducted",
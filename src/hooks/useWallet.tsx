@@ -0,0 +1,122 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import type { Wallet } from "@/types"
+import { useUser } from "@clerk/clerk-react"
+import { toast } from "@/components/ui/use-toast"
+import {
+  exportWalletBackup,
+  getActiveSigner,
+  importWalletBackup,
+  loadOrCreateWallet,
+  rotateWalletKey,
+} from "@/utils/wallet"
+
+export const useWallet = () => {
+  const { user } = useUser()
+  const [wallet, setWallet] = useState<Wallet | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  const loadWallet = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      if (!user) {
+        setWallet(null)
+        return
+      }
+
+      setWallet(await loadOrCreateWallet(user.id))
+    } catch (error) {
+      console.error("Failed to load wallet:", error)
+      toast({
+        title: "Error",
+        description: "Failed to load your wallet keys",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [user])
+
+  useEffect(() => {
+    if (user) {
+      loadWallet()
+    }
+  }, [user, loadWallet])
+
+  // Stable identity so callers can list it as a hook dependency
+  const getSigner = useCallback(async () => {
+    if (!user) {
+      throw new Error("No signed-in user")
+    }
+    return getActiveSigner(user.id)
+  }, [user])
+
+  const rotateKey = async () => {
+    if (!user) return false
+
+    try {
+      setWallet(await rotateWalletKey(user.id))
+      toast({
+        title: "Key Rotated",
+        description: "New payments will be signed with a fresh key. Your wallet address is unchanged.",
+      })
+      return true
+    } catch (error) {
+      console.error("Failed to rotate wallet key:", error)
+      toast({
+        title: "Error",
+        description: "Failed to rotate your wallet key. Please try again.",
+        variant: "destructive",
+      })
+      return false
+    }
+  }
+
+  const exportBackup = async (passphrase: string) => {
+    if (!user) return null
+
+    try {
+      return await exportWalletBackup(user.id, passphrase)
+    } catch (error) {
+      console.error("Failed to export wallet backup:", error)
+      toast({
+        title: "Error",
+        description: "Failed to create a wallet backup. Please try again.",
+        variant: "destructive",
+      })
+      return null
+    }
+  }
+
+  const importBackup = async (backupContents: string, passphrase: string) => {
+    if (!user) return false
+
+    try {
+      setWallet(await importWalletBackup(user.id, backupContents, passphrase))
+      toast({
+        title: "Wallet Restored",
+        description: "Your wallet keys have been restored from the backup.",
+      })
+      return true
+    } catch (error) {
+      console.error("Failed to import wallet backup:", error)
+      toast({
+        title: "Restore Failed",
+        description: error instanceof Error ? error.message : "Failed to restore the wallet backup.",
+        variant: "destructive",
+      })
+      return false
+    }
+  }
+
+  return {
+    wallet,
+    isLoading,
+    getSigner,
+    rotateKey,
+    exportBackup,
+    importBackup,
+    refreshWallet: loadWallet,
+  }
+}
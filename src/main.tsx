@@ -3,6 +3,12 @@ import { createRoot } from 'react-dom/client'
 import { ClerkProvider } from "@clerk/clerk-react";
 import App from './App.tsx'
 import './index.css'
+import { registerMinerWorker } from './utils/miner'
+import { configureSyncServer } from './utils/syncClient'
+
+registerMinerWorker(() => new Worker(new URL('./workers/miner.worker.ts', import.meta.url), { type: 'module' }));
+// e.g. http://localhost:8787 for `npm run sync-server`
+configureSyncServer(import.meta.env.VITE_SYNC_SERVER_URL);
 
 const PUBLISHABLE_KEY = "pk_test_dGVhY2hpbmctY3JhYi0xNy5jbGVyay5hY2NvdW50cy5kZXYk";
 
@@ -0,0 +1,58 @@
+import React from 'react';
+import { useParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import QRScanner from '@/components/QRScanner';
+import Header from '@/components/layout/Header';
+import { Link2 } from 'lucide-react';
+
+const Pay = () => {
+  const { payload } = useParams<{ payload: string }>();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <div className="container mx-auto px-4 pt-24 pb-16 max-w-6xl">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+          className="mb-8 text-center"
+        >
+          <h1 className="text-3xl font-bold mb-2">Confirm Payment</h1>
+          <p className="text-muted-foreground">
+            Check the details below before you pay or accept
+          </p>
+        </motion.div>
+
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.2, duration: 0.5 }}
+        >
+          <QRScanner paymentLink={payload} />
+        </motion.div>
+
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.4, duration: 0.5 }}
+          className="mt-12 max-w-2xl mx-auto text-center"
+        >
+          <div className="p-4 bg-muted/30 rounded-lg">
+            <div className="flex items-center justify-center mb-3">
+              <Link2 className="h-5 w-5 mr-2 text-muted-foreground" />
+              <h4 className="text-md font-medium">About Payment Links</h4>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              A payment link carries the same signed payment as a QR code, so it is checked the same way.
+              It expires at the same time as the code and can only be paid once.
+            </p>
+          </div>
+        </motion.div>
+      </div>
+    </div>
+  );
+};
+
+export default Pay;
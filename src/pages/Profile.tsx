@@ -6,6 +6,9 @@ import { useUser } from "@clerk/clerk-react"
 import Header from "@/components/layout/Header"
 import CreditDisplay from "@/components/CreditDisplay"
 import BankAccountManager from "@/components/BankAccountManager"
+import WalletManager from "@/components/WalletManager"
+import PinManager from "@/components/PinManager"
+import AccountSwitcher from "@/components/AccountSwitcher"
 import { Card, CardContent } from "@/components/ui/card"
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar"
 import { Button } from "@/components/ui/button"
@@ -287,9 +290,12 @@ const Profile = () => {
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ delay: 0.4, duration: 0.5 }}
-            className="lg:col-span-1"
+            className="lg:col-span-1 space-y-6"
           >
             <BankAccountManager />
+            <PinManager />
+            <WalletManager />
+            <AccountSwitcher />
           </motion.div>
         </div>
       </div>
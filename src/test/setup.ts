@@ -1,3 +1,7 @@
+import { webcrypto } from 'crypto';
+import { TextDecoder, TextEncoder } from 'util';
+import { deserialize, serialize } from 'v8';
+
 // Mock localStorage
 const localStorageMock = {
   getItem: jest.fn(),
@@ -10,4 +14,14 @@ const localStorageMock = {
 
 Object.defineProperty(window, 'localStorage', {
   value: localStorageMock
-}); 
\ No newline at end of file
+});
+
+// jsdom ships neither SubtleCrypto, TextEncoder/TextDecoder nor structuredClone,
+// which fake-indexeddb needs to store records
+Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+Object.defineProperty(globalThis, 'TextEncoder', { value: TextEncoder, configurable: true });
+Object.defineProperty(globalThis, 'TextDecoder', { value: TextDecoder, configurable: true });
+Object.defineProperty(globalThis, 'structuredClone', {
+  value: <T>(value: T): T => deserialize(serialize(value)),
+  configurable: true,
+});
@@ -0,0 +1,9 @@
+import { exportPublicKey, generateSigningKeyPair } from '../utils/crypto';
+import { type WalletSigner, deriveWalletAddress } from '../utils/wallet';
+
+// A fresh wallet signer for tests that sign payments, requests or receipts
+export const makeSigner = async (): Promise<WalletSigner> => {
+  const keyPair = await generateSigningKeyPair();
+  const publicKey = await exportPublicKey(keyPair.publicKey);
+  return { address: await deriveWalletAddress(publicKey), publicKey, privateKey: keyPair.privateKey, keyProof: [] };
+};
@@ -5,24 +5,308 @@ export interface Transaction {
   sender: string
   timestamp: number
   description: string
-  status: "pending" | "synced" | "verified"
+  // `failed` ran out of sync attempts and waits for a manual retry; `rejected`
+  // can never go into the chain
+  status: "pending" | "synced" | "verified" | "failed" | "rejected"
   signature?: string
+  // Per-wallet and strictly increasing; together with the sender it identifies
+  // the payment, so the same QR can't be redeemed twice
+  nonce?: number
+  // The payment can't be accepted after this time. Signed, so the payer can't
+  // stretch it. Absent on single-use codes, which stay valid until redeemed.
+  expiresAt?: number
+  // The signer's key and rotation proof, kept alongside so the transaction can
+  // be re-verified on its own when the chain is validated
+  publicKey?: string
+  keyProof?: KeyCertificate[]
+  // Which side of the payment this device was on. Only kept on this device;
+  // nothing signed is ever rewritten to record it.
+  direction?: "sent" | "received"
+  // Sync bookkeeping, kept on this device and stripped before mining
+  syncAttempts?: number
+  lastSyncError?: string
+  lastSyncAttemptAt?: number
 }
 
 export interface QRData {
   transaction: Transaction
   publicKey: string
+  // Present when the signing key is not the wallet's original key
+  keyProof?: KeyCertificate[]
 }
 
-export interface StoredTransaction extends Transaction {
+// What a payment QR asks of whoever scans it. An `offer` is a QRData voucher the
+// payer signed in advance; the scanner redeems it and is credited. A `request`
+// asks the scanner to pay a fixed amount, an `open-amount` request lets the
+// scanner choose the amount.
+export type PaymentIntent = "offer" | "request" | "open-amount"
+
+// Signed by the payee. The payer answers it with a transaction of their own
+// whose id is the request id, so receipts and events line up on both devices.
+export interface PaymentRequest {
+  id: string
+  intent: "request" | "open-amount"
+  // Wallet address the payment goes to
+  payee: string
+  payeeName: string
+  // Absent for open-amount requests
+  amount?: number
+  description: string
+  timestamp: number
+  // From the payee's nonce sequence, so each request can only be paid once
+  nonce: number
+  // Absent on single-use requests, which stay payable until they are paid
+  expiresAt?: number
+  signature: string
+}
+
+export interface SignedPaymentRequest {
+  request: PaymentRequest
+  publicKey: string
+  keyProof?: KeyCertificate[]
+}
+
+// How long a generated code can be used for. Every code can only be redeemed
+// once except `reusable`, which is only offered for static merchant codes.
+export type QRValidity = "30s" | "5m" | "1h" | "single-use" | "reusable"
+
+// What a payer needs to answer a request, whether it came signed in an OffPay
+// code or was read from a merchant's printed code
+export type PaymentRequestTerms = Pick<
+  PaymentRequest,
+  "id" | "intent" | "payee" | "payeeName" | "amount" | "description" | "expiresAt"
+>
+
+// An EMVCo merchant-presented code (Bharat QR), reduced to the fields OffPay uses
+export interface MerchantQR {
+  // Static codes are printed once and reused; dynamic ones are made per sale
+  isDynamic: boolean
+  merchantName: string
+  merchantCity: string
+  merchantCategoryCode: string
+  // ISO 4217 numeric code; 356 is INR
+  currency: string
+  // Absent on static codes, where the payer enters it
+  amount?: number
+  countryCode: string
+  postalCode?: string
+  // From OffPay's merchant account template
+  walletAddress?: string
+  // From the NPCI UPI template; such codes can only be paid in a UPI app
+  upiAddress?: string
+  // The merchant's bill or reference number
+  reference?: string
+}
+
+// A standard UPI payment link (`upi://pay?...`) as printed on most Indian
+// merchant QR codes. OffPay can read and show these but the payment itself is
+// made in a UPI app.
+export interface UpiPaymentLink {
+  // Virtual payment address (`pa`), e.g. shop@okbank
+  payeeAddress: string
+  payeeName: string
+  // Absent when the payer is expected to enter it
+  amount?: number
+  currency: "INR"
+  note?: string
+  // Merchant's own reference for the payment (`tr`)
+  reference?: string
+  merchantCode?: string
+}
+
+// Shown by the payer once a scanned payment has gone through, so the payee can
+// confirm it without any connection between the two devices
+export interface PaymentReceipt {
+  transactionId: string
+  amount: number
+  // Wallet address of the device that processed the payment
+  payer: string
+  paidAt: number
+  signature: string
+  publicKey: string
+  keyProof?: KeyCertificate[]
+}
+
+// One part of a payload too big for a single QR code, shown as an animation
+export interface QRFrame {
+  // Shared by every frame of one payload
+  messageId: Uint8Array
+  index: number
+  total: number
+  // CRC-32 of the whole reassembled payload
+  checksum: number
+  chunk: Uint8Array
+}
+
+// One half of the handshake that links two devices directly. Shown as a QR code
+// and scanned by the other device, so no signaling server is needed; the SDP
+// already lists every connection candidate.
+export interface PeerSignal {
+  role: "offer" | "answer"
+  // Chosen by the offering device; the answer must carry the same one
+  sessionId: string
+  sdp: string
+}
+
+// Issued when a wallet rotates keys: the previous key endorses its successor so
+// the wallet address (derived from the first key) stays stable
+export interface KeyCertificate {
+  publicKey: string
+  previousPublicKey: string
+  issuedAt: number
+  signature: string
+}
+
+export interface WalletKey {
+  id: string
+  publicKey: string
+  createdAt: number
+  retiredAt?: number
+  certificate?: KeyCertificate
+  encryptedPrivateKey: string
+}
+
+export interface Wallet {
+  version: number
+  address: string
+  activeKeyId: string
+  keys: WalletKey[]
+}
+
+// Only the fields needed to list and filter records are kept in the clear;
+// the full transaction lives in the encrypted envelope
+export interface StoredTransaction {
+  id: string
+  status: Transaction["status"]
+  timestamp: number
   encryptedData: string
 }
 
+// Everything the block hash commits to. Transactions are covered through
+// merkleRoot, so a header alone is enough to check a Merkle proof against.
+export interface BlockHeader {
+  version: number
+  index: number
+  timestamp: number
+  previousHash: string
+  merkleRoot: string
+  txCount: number
+  difficulty: number
+  nonce: number
+}
+
+export interface Block {
+  header: BlockHeader
+  hash: string
+  transactions: Transaction[]
+}
+
+export interface MerkleProofStep {
+  hash: string
+  // Which side of the running hash the sibling sits on
+  position: "left" | "right"
+}
+
+export type ValidationFailureReason =
+  | "bad_genesis"
+  | "bad_index"
+  | "broken_link"
+  | "hash_mismatch"
+  | "insufficient_work"
+  | "merkle_mismatch"
+  | "timestamp_out_of_order"
+  | "future_timestamp"
+  | "invalid_amount"
+  | "duplicate_transaction"
+  | "invalid_signature"
+  | "nonce_reused"
+  | "invalid_version"
+
+// Validation stops at the first bad block; everything before it is known good
+export type ValidationReport =
+  | { status: "valid"; blocksChecked: number }
+  | {
+      status: "invalid"
+      blocksChecked: number
+      blockIndex: number
+      blockHash: string
+      reason: ValidationFailureReason
+      transactionId?: string
+      message: string
+    }
+
+// Marks a (sender, nonce) pair as redeemed on this device
+export interface SpentNullifier {
+  nullifier: string
+  transactionId: string
+  sender: string
+  nonce: number
+  spentAt: number
+}
+
+export type NullifierClaim =
+  | { status: "claimed" }
+  // The same transaction was already redeemed
+  | { status: "spent"; existing: SpentNullifier }
+  // A different transaction was redeemed with this nonce: a double spend
+  | { status: "conflict"; existing: SpentNullifier }
+
+// A switch to a branch of the chain with more work behind it. Orphaned
+// transactions were in the blocks given up but not in the new branch, so they
+// are pending again.
+export interface ChainReorganization {
+  ancestorIndex: number
+  removedBlocks: number
+  addedBlocks: number
+  orphanedTransactionIds: string[]
+  reorganizedAt: number
+}
+
+// `kept` means the other branch had no more work than this one
+export interface ChainMergeResult {
+  status: "unchanged" | "extended" | "kept" | "reorganized"
+  added: number
+  orphaned: Transaction[]
+}
+
+// A block that failed validation, set aside instead of deleted so it can be
+// inspected or re-checked later
+export interface QuarantinedBlock {
+  hash: string
+  block: Block
+  reason: ValidationFailureReason
+  message: string
+  quarantinedAt: number
+}
+
+// Proves a transaction is in a block without shipping the rest of the chain
+export interface MerkleProof {
+  transaction: Transaction
+  header: BlockHeader
+  blockHash: string
+  path: MerkleProofStep[]
+}
+
 export interface NetworkState {
   isOnline: boolean
   lastSynced: number | null
 }
 
+// `waiting` is backing off before the next retry; `offline` resumes on the
+// browser's online event
+export interface SyncQueueStatus {
+  state: "idle" | "syncing" | "waiting" | "offline"
+  // Transactions still to sync, counted when the last run ended
+  queued: number
+  // Progress through the current run
+  done: number
+  total: number
+  // Runs in a row that left transactions to retry
+  failures: number
+  nextRetryAt: number | null
+  lastError: string | null
+}
+
 export interface UserCredit {
   balance: number
   history: CreditHistory[]
@@ -37,6 +321,18 @@ export interface CreditHistory {
   description: string
 }
 
+// One row per ledger entry; the running balance is kept in CreditAccount so
+// reads don't have to replay the whole history
+export interface CreditLedgerEntry extends CreditHistory {
+  userId: string
+}
+
+export interface CreditAccount {
+  userId: string
+  balance: number
+  updatedAt: number
+}
+
 export interface BankAccount {
   id: string
   accountNumber: string
@@ -52,3 +348,88 @@ export interface BankAccount {
 export interface LinkedBankAccounts {
   accounts: BankAccount[]
 }
+
+export interface StoredBankAccount extends BankAccount {
+  userId: string
+}
+
+// What each payment event carries, by event type
+export interface PaymentEventMap {
+  paymentSent: PaymentEventData
+  paymentReceived: PaymentReceivedData
+  qrExpired: {
+    transactionId: string
+    // The expiry signed into the code
+    expiresAt: number
+    timestamp: number
+  }
+  // Sent back over the transports once a consumer has handled an event, so the
+  // sender stops retrying it. Never queued or acknowledged itself.
+  eventAcknowledged: {
+    eventId: string
+    timestamp: number
+  }
+  // Shared with a linked device, which opens it for the payer to confirm
+  paymentRequest: SignedPaymentRequest
+  // The payer's signed receipt, sent to the payee instead of being scanned
+  paymentReceipt: PaymentReceipt
+  // The newest blocks of the sender's chain
+  chainSegment: {
+    blocks: Block[]
+    timestamp: number
+  }
+}
+
+export interface PaymentEventData {
+  transactionId: string
+  amount: number
+  recipient: string
+  sender: string
+  timestamp: number
+}
+
+// Nothing else in the event is signed, so the payee only trusts the payer's
+// transaction carried with it. Events queued before it was are never credited.
+export interface PaymentReceivedData extends PaymentEventData {
+  transaction?: Transaction
+}
+
+export type PaymentEventType = keyof PaymentEventMap
+
+// One emission of an event. The id is unique per emission, so an event that
+// reaches a tab through more than one channel is only handled once.
+export type PaymentEvent = {
+  [K in PaymentEventType]: { id: string; type: K; data: PaymentEventMap[K]; timestamp: number }
+}[PaymentEventType]
+
+export type PaymentEventOf<K extends PaymentEventType> = Extract<PaymentEvent, { type: K }>
+
+// Outbound events wait for a consumer's acknowledgement and are retried until
+// then; inbound ones wait for a local consumer to handle them
+export type EventDeliveryStatus = "pending" | "sent" | "acknowledged" | "failed"
+
+// The outbox and inbox share one store with the event log. The delivery fields
+// are absent on events that don't wait for a consumer, and on ones logged
+// before delivery was tracked.
+export interface PaymentEventRecord {
+  id: string
+  type: string
+  data: unknown
+  timestamp: number
+  direction?: "outbound" | "inbound"
+  status?: EventDeliveryStatus
+  // Times the event has been handed to the transports
+  attempts?: number
+  nextAttemptAt?: number
+  lastError?: string
+  acknowledgedAt?: number
+}
+
+// A Clerk user who has signed in on this device and has local data here
+export interface LocalAccount {
+  userId: string
+  displayName: string
+  email?: string
+  imageUrl?: string
+  lastActiveAt: number
+}
@@ -0,0 +1,82 @@
+import type { LocalAccount } from "../types"
+import { deleteUserDatabase, getActiveUserId, setActiveUser } from "./db"
+import { lockVault } from "./vault"
+import { revokeDebitAuthorization } from "./pin"
+
+const ACCOUNTS_STORAGE_KEY = "offpay_accounts"
+// Every per-user localStorage entry is named `offpay_<name>_<userId>`
+const USER_KEY_PREFIX = "offpay_"
+
+const readAccounts = (): LocalAccount[] => {
+  const stored = localStorage.getItem(ACCOUNTS_STORAGE_KEY)
+  if (!stored) {
+    return []
+  }
+
+  try {
+    return JSON.parse(stored)
+  } catch (error) {
+    console.error("Failed to parse local accounts", error)
+    return []
+  }
+}
+
+const writeAccounts = (accounts: LocalAccount[]): void => {
+  localStorage.setItem(ACCOUNTS_STORAGE_KEY, JSON.stringify(accounts))
+}
+
+// Most recently used first
+export const getLocalAccounts = (): LocalAccount[] => {
+  return readAccounts().sort((a, b) => b.lastActiveAt - a.lastActiveAt)
+}
+
+// Called whenever a Clerk user signs in on this device. Switching users locks the
+// vault so the previous user's key never touches the next user's data.
+export const activateLocalAccount = async (account: Omit<LocalAccount, "lastActiveAt">): Promise<void> => {
+  writeAccounts([
+    ...readAccounts().filter((a) => a.userId !== account.userId),
+    { ...account, lastActiveAt: Date.now() },
+  ])
+
+  const previousUserId = getActiveUserId()
+  if (previousUserId === account.userId) {
+    return
+  }
+
+  if (previousUserId) {
+    revokeDebitAuthorization(previousUserId)
+  }
+  lockVault()
+  await setActiveUser(account.userId)
+}
+
+// Locks the vault and closes the user's database. Their data stays on the
+// device, encrypted, until they sign in again.
+export const deactivateLocalAccount = async (): Promise<void> => {
+  const userId = getActiveUserId()
+  if (userId) {
+    revokeDebitAuthorization(userId)
+  }
+
+  lockVault()
+  await setActiveUser(null)
+
+  // Events in flight between tabs; the user's outbox stays in their database
+  Object.keys(localStorage)
+    .filter((key) => key.startsWith("payment_event_"))
+    .forEach((key) => localStorage.removeItem(key))
+}
+
+// Erases everything this device holds for the user, including their wallet keys
+export const removeLocalAccount = async (userId: string): Promise<void> => {
+  if (getActiveUserId() === userId) {
+    await deactivateLocalAccount()
+  }
+
+  await deleteUserDatabase(userId)
+
+  Object.keys(localStorage)
+    .filter((key) => key.startsWith(USER_KEY_PREFIX) && key.endsWith(`_${userId}`))
+    .forEach((key) => localStorage.removeItem(key))
+  writeAccounts(readAccounts().filter((a) => a.userId !== userId))
+}
@@ -0,0 +1,50 @@
+// Base45 (RFC 9285) only uses characters from the QR alphanumeric set, so the
+// encoded text fits the denser alphanumeric mode instead of byte mode
+const ALPHABET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:"
+
+export const encodeBase45 = (bytes: Uint8Array): string => {
+  let output = ""
+  for (let i = 0; i < bytes.length; i += 2) {
+    if (i + 1 < bytes.length) {
+      let value = bytes[i] * 256 + bytes[i + 1]
+      for (let j = 0; j < 3; j++) {
+        output += ALPHABET[value % 45]
+        value = Math.floor(value / 45)
+      }
+    } else {
+      output += ALPHABET[bytes[i] % 45] + ALPHABET[Math.floor(bytes[i] / 45)]
+    }
+  }
+  return output
+}
+
+export const decodeBase45 = (text: string): Uint8Array => {
+  const digits = Array.from(text, (char) => {
+    const digit = ALPHABET.indexOf(char)
+    if (digit === -1) {
+      throw new Error(`Invalid Base45 character "${char}"`)
+    }
+    return digit
+  })
+  if (digits.length % 3 === 1) {
+    throw new Error("Invalid Base45 length")
+  }
+
+  const bytes: number[] = []
+  for (let i = 0; i < digits.length; i += 3) {
+    const chunk = digits.slice(i, i + 3)
+    const value = chunk.reduceRight((total, digit) => total * 45 + digit, 0)
+    if (chunk.length === 3) {
+      if (value > 0xffff) {
+        throw new Error("Invalid Base45 chunk")
+      }
+      bytes.push(value >> 8, value & 0xff)
+    } else {
+      if (value > 0xff) {
+        throw new Error("Invalid Base45 chunk")
+      }
+      bytes.push(value)
+    }
+  }
+  return new Uint8Array(bytes)
+}
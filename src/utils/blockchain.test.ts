@@ -1,4 +1,63 @@
+import 'fake-indexeddb/auto';
 import { blockchain, syncTransactionToBlockchain } from './blockchain';
+import { exportPublicKey, generateSigningKeyPair, signTransaction } from './crypto';
+import { validateChain, validateTransactionsForBlock } from './chainValidation';
+import { LEGACY_BLOCK_VERSION, calculateBlockHash, computeMerkleRoot, meetsDifficulty } from './blocks';
+import { deleteUserDatabase, setActiveUser } from './db';
+import { quarantineRepository } from './repositories';
+import { addSentTransaction, getTransactionById, getTransactions } from './storage';
+import { createVault, lockVault } from './vault';
+import { deriveWalletAddress } from './wallet';
+import type { Block, Transaction } from '../types';
+
+let signer: { keyPair: CryptoKeyPair; publicKey: string; address: string };
+
+const makeTransaction = async (id: string, amount: number, nonce?: number): Promise<Transaction> => {
+  const transaction: Transaction = {
+    id,
+    amount,
+    sender: signer.address,
+    recipient: 'wallet_recipient',
+    timestamp: Date.now(),
+    description: 'Test payment',
+    status: 'pending',
+    publicKey: signer.publicKey,
+    ...(nonce !== undefined && { nonce, expiresAt: Date.now() + 30000 }),
+  };
+  transaction.signature = await signTransaction(transaction, signer.keyPair.privateKey);
+  return transaction;
+};
+
+const makeBatch = (prefix: string, amounts: number[]): Promise<Transaction[]> =>
+  Promise.all(amounts.map((amount, i) => makeTransaction(`${prefix}${i + 1}`, amount)));
+
+// Mines a block in the pre-batching format, whose hash covers only its first transaction
+const mineLegacyBlock = (previous: Block, transactions: Transaction[]): Block => {
+  const block: Block = {
+    header: {
+      version: LEGACY_BLOCK_VERSION,
+      index: previous.header.index + 1,
+      timestamp: Date.now(),
+      previousHash: previous.hash,
+      merkleRoot: computeMerkleRoot(transactions),
+      txCount: transactions.length,
+      difficulty: 2,
+      nonce: 0,
+    },
+    hash: '',
+    transactions,
+  };
+  while (!meetsDifficulty((block.hash = calculateBlockHash(block)), 2)) {
+    block.header.nonce++;
+  }
+  return block;
+};
+
+beforeAll(async () => {
+  const keyPair = await generateSigningKeyPair();
+  const publicKey = await exportPublicKey(keyPair.publicKey);
+  signer = { keyPair, publicKey, address: await deriveWalletAddress(publicKey) };
+});
 
 describe('Blockchain', () => {
   beforeEach(() => {
@@ -11,47 +70,41 @@ describe('Blockchain', () => {
   test('should create genesis block', () => {
     const chain = blockchain.getChain();
     expect(chain.length).toBe(1);
-    expect(chain[0].index).toBe(0);
-    expect(chain[0].previousHash).toBe('0'.repeat(64));
+    expect(chain[0].header.index).toBe(0);
+    expect(chain[0].header.previousHash).toBe('0'.repeat(64));
+    expect(chain[0].transactions).toEqual([]);
   });
 
-  test('should add new block', () => {
-    const testData = { id: 'test1', amount: 100 };
-    const newBlock = blockchain.mineBlock(testData);
+  test('should add new block', async () => {
+    const testData = [await makeTransaction('test1', 100)];
+    const newBlock = await blockchain.mineBlock(testData);
     
-    expect(newBlock.index).toBe(1);
-    expect(newBlock.data).toEqual(testData);
-    expect(newBlock.previousHash).toBe(blockchain.getChain()[0].hash);
+    expect(newBlock.header.index).toBe(1);
+    expect(newBlock.transactions).toEqual(testData);
+    expect(newBlock.header.txCount).toBe(1);
+    expect(newBlock.header.previousHash).toBe(blockchain.getChain()[0].hash);
   });
 
-  test('should validate chain', () => {
-    const testData = { id: 'test2', amount: 200 };
-    blockchain.mineBlock(testData);
+  test('should validate chain', async () => {
+    const testData = [await makeTransaction('test2', 200)];
+    await blockchain.mineBlock(testData);
     
     expect(blockchain.isChainValid()).toBe(true);
   });
 
   test('should sync transaction', async () => {
-    const transaction = {
-      id: 'tx1',
-      amount: 150,
-      timestamp: Date.now()
-    };
+    const transaction = await makeTransaction('tx1', 150);
 
     const result = await syncTransactionToBlockchain(transaction);
     expect(result).toBe(true);
 
     const chain = blockchain.getChain();
     const lastBlock = chain[chain.length - 1];
-    expect(lastBlock.data).toEqual(transaction);
+    expect(lastBlock.transactions).toEqual([transaction]);
   });
 
   test('should prevent duplicate transactions', async () => {
-    const transaction = {
-      id: 'tx2',
-      amount: 300,
-      timestamp: Date.now()
-    };
+    const transaction = await makeTransaction('tx2', 300);
 
     // First sync should succeed
     const result1 = await syncTransactionToBlockchain(transaction);
@@ -62,18 +115,347 @@ describe('Blockchain', () => {
     expect(result2).toBe(false);
   });
 
-  test('should persist blockchain to localStorage', () => {
-    const testData = { id: 'test3', amount: 400 };
-    blockchain.mineBlock(testData);
+  test('should load mined blocks back from IndexedDB', async () => {
+    await setActiveUser('chain_owner');
+    await blockchain.ready;
+    const block = await blockchain.addTransactions(await makeBatch('persisted', [400, 500]));
 
-    // Get the stored chain from localStorage
-    const storedChain = localStorage.getItem('qr_secure_blockchain');
-    expect(storedChain).not.toBeNull();
-    
-    if (storedChain) {
-      const parsedChain = JSON.parse(storedChain);
-      expect(parsedChain.length).toBe(2); // Genesis block + new block
-      expect(parsedChain[1].data).toEqual(testData);
+    // Signing out and back in drops the in-memory chain and reloads it
+    await setActiveUser(null);
+    await setActiveUser('chain_owner');
+    await blockchain.ready;
+
+    expect(blockchain.getChain().length).toBe(2);
+    expect(blockchain.getChain()[1]).toEqual(block);
+    expect(blockchain.getValidationReport()?.status).toBe('valid');
+    await deleteUserDatabase('chain_owner');
+  });
+
+  test('should batch transactions into one block', async () => {
+    const transactions = await makeBatch('batch', [10, 20, 30, 40, 50]);
+    const block = await blockchain.addTransactions(transactions);
+
+    expect(blockchain.getChain().length).toBe(2);
+    expect(block.header.txCount).toBe(5);
+    expect(block.transactions.map(t => t.id)).toEqual(transactions.map(t => t.id));
+    expect(blockchain.isChainValid()).toBe(true);
+  });
+
+  test('should reject a batch containing a transaction already in the chain', async () => {
+    await blockchain.addTransaction(await makeTransaction('dup', 10));
+
+    const batch = [await makeTransaction('fresh', 10), await makeTransaction('dup', 10)];
+    await expect(blockchain.addTransactions(batch)).rejects.toThrow(
+      'Transaction already exists in blockchain'
+    );
+  });
+
+  test('should detect a transaction altered after mining', async () => {
+    const block = await blockchain.addTransactions(await makeBatch('tamper', [10, 20]));
+    block.transactions[1] = { ...block.transactions[1], amount: 2000 };
+
+    expect(blockchain.isChainValid()).toBe(false);
+  });
+
+  test('should prove inclusion of every transaction in a block', async () => {
+    // Odd count exercises the node carried up without a sibling
+    const transactions = await makeBatch('proof', [1, 2, 3, 4, 5, 6, 7]);
+    await blockchain.addTransactions(transactions);
+
+    for (const transaction of transactions) {
+      const proof = blockchain.getMerkleProof(transaction.id);
+      expect(proof).not.toBeNull();
+      expect(blockchain.verifyMerkleProof(proof!)).toBe(true);
     }
   });
-}); 
\ No newline at end of file
+
+  test('should reject a tampered merkle proof', async () => {
+    await blockchain.addTransactions(await makeBatch('p', [10, 20, 30]));
+    const proof = blockchain.getMerkleProof('p2')!;
+
+    expect(blockchain.verifyMerkleProof({ ...proof, transaction: { ...proof.transaction, amount: 99 } })).toBe(false);
+    expect(blockchain.verifyMerkleProof({ ...proof, path: proof.path.slice(1) })).toBe(false);
+    expect(blockchain.verifyMerkleProof({ ...proof, header: { ...proof.header, merkleRoot: '0'.repeat(64) } })).toBe(
+      false
+    );
+  });
+
+  test('should return no proof for an unknown transaction', () => {
+    expect(blockchain.getMerkleProof('missing')).toBeNull();
+  });
+
+  test('should mine concurrent batches one after another', async () => {
+    const [tx1, tx2] = await makeBatch('queued', [10, 20]);
+    const [first, second] = await Promise.all([blockchain.addTransaction(tx1), blockchain.addTransaction(tx2)]);
+
+    expect(second.header.previousHash).toBe(first.hash);
+    expect(blockchain.isChainValid()).toBe(true);
+  });
+
+  test('should report mining progress', async () => {
+    const onProgress = jest.fn();
+    await blockchain.mineBlock([await makeTransaction('progress', 10)], { onProgress });
+
+    expect(onProgress).toHaveBeenCalled();
+    expect(onProgress.mock.calls[onProgress.mock.calls.length - 1][0].expectedAttempts).toBe(256);
+  });
+
+  test('should cancel mining without changing the chain', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(blockchain.mineBlock([await makeTransaction('cancelled', 10)], { signal: controller.signal })).rejects.toThrow(
+      'Mining cancelled'
+    );
+    expect(blockchain.getChain().length).toBe(1);
+  });
+
+  test('should reject a non-positive amount before mining', async () => {
+    await expect(blockchain.addTransaction(await makeTransaction('negative', -5))).rejects.toThrow(
+      'Amount -5 is not a positive number'
+    );
+    expect(blockchain.getChain().length).toBe(1);
+  });
+
+  test('should reject an unsigned transaction before mining', async () => {
+    const transaction = { ...(await makeTransaction('unsigned', 10)), signature: undefined };
+
+    await expect(blockchain.addTransaction(transaction)).rejects.toThrow('Transaction signature does not verify');
+  });
+
+  test('should adopt blocks from another device that extend the chain', async () => {
+    await blockchain.mineBlock([await makeTransaction('seg1', 10)]);
+    await blockchain.mineBlock([await makeTransaction('seg2', 20)]);
+    const otherDevice = [...blockchain.getChain()];
+    blockchain['chain'] = otherDevice.slice(0, 2);
+
+    await expect(blockchain.appendSegment(otherDevice.slice(1))).resolves.toBe(1);
+    expect(blockchain.getLatestBlock().hash).toBe(otherDevice[2].hash);
+    await expect(blockchain.appendSegment(otherDevice)).resolves.toBe(0);
+  });
+
+  test('should check only the new blocks of a segment, against the transactions already in the chain', async () => {
+    await blockchain.addTransaction(await makeTransaction('spent', 10, 7));
+    // Re-mined with a changed amount, so only a signature check would notice
+    const [forged] = blockchain.getChain()[1].transactions;
+    blockchain['chain'].pop();
+    await blockchain.mineBlock([{ ...forged, amount: 2000 }]);
+    const base = [...blockchain.getChain()];
+    await blockchain.mineBlock([await makeTransaction('next', 20)]);
+    const valid = blockchain.getChain().slice(2);
+    blockchain['chain'] = [...base];
+    await blockchain.mineBlock([await makeTransaction('reused', 30, 7)]);
+    const reusingNonce = blockchain.getChain().slice(2);
+    blockchain['chain'] = [...base];
+
+    await expect(blockchain.appendSegment(reusingNonce)).rejects.toThrow('Nonce 7 was already spent');
+    await expect(blockchain.appendSegment(valid)).resolves.toBe(1);
+    const legacy = mineLegacyBlock(blockchain.getLatestBlock(), [await makeTransaction('old', 10)]);
+    await expect(blockchain.appendSegment([legacy])).rejects.toThrow('legacy blocks');
+  });
+
+  test('should reject a segment that does not extend the chain', async () => {
+    await blockchain.mineBlock([await makeTransaction('seg3', 30)]);
+    const segment = blockchain.getChain().slice(1);
+    blockchain['chain'] = [blockchain['createGenesisBlock']()];
+    await blockchain.mineBlock([await makeTransaction('seg4', 40)]);
+
+    await expect(blockchain.appendSegment(segment)).rejects.toThrow("don't extend this chain");
+    expect(blockchain.getChain()).toHaveLength(2);
+  });
+
+  test('should adopt a server chain only while it has no blocks of its own', async () => {
+    await blockchain.mineBlock([await makeTransaction('srv1', 10)]);
+    await blockchain.mineBlock([await makeTransaction('srv2', 20)]);
+    const serverChain = blockchain.getChain();
+    blockchain['chain'] = [blockchain['createGenesisBlock']()];
+
+    await expect(blockchain.adoptChain(serverChain)).resolves.toBe(2);
+    expect(blockchain.getLatestBlock().hash).toBe(serverChain[2].hash);
+    await expect(blockchain.adoptChain(serverChain)).rejects.toThrow('already has blocks');
+  });
+
+  test('should switch to a branch with more work and orphan what it drops', async () => {
+    const genesis = blockchain.getChain()[0];
+    await blockchain.mineBlock([await makeTransaction('mine1', 10)]);
+    const local = [...blockchain.getChain()];
+    blockchain['chain'] = [genesis];
+    await blockchain.mineBlock([await makeTransaction('theirs1', 20)]);
+    await blockchain.mineBlock([await makeTransaction('theirs2', 30)]);
+    const theirs = blockchain.getChain().slice(1);
+    blockchain['chain'] = local;
+    const reorganized = jest.fn();
+    window.addEventListener('chainReorganized', reorganized);
+
+    const result = await blockchain.mergeChain(theirs);
+
+    window.removeEventListener('chainReorganized', reorganized);
+    expect(result.status).toBe('reorganized');
+    expect(result.orphaned.map(transaction => transaction.id)).toEqual(['mine1']);
+    expect(blockchain.getLatestBlock().hash).toBe(theirs[1].hash);
+    expect(blockchain.getLastReorganization()).toMatchObject({
+      ancestorIndex: 0,
+      removedBlocks: 1,
+      addedBlocks: 2,
+      orphanedTransactionIds: ['mine1'],
+    });
+    expect(reorganized).toHaveBeenCalledTimes(1);
+  });
+
+  test('should re-queue an orphaned transaction so it validates again', async () => {
+    await setActiveUser('reorg_owner');
+    await createVault('reorg_owner', '123456');
+    await blockchain.ready;
+    const genesis = blockchain.getChain()[0];
+    const payment = await makeTransaction('orphan1', 10);
+    await addSentTransaction(payment);
+    await blockchain.addTransaction(payment);
+    const local = [...blockchain.getChain()];
+    blockchain['chain'] = [genesis];
+    await blockchain.mineBlock([await makeTransaction('theirs1', 20)]);
+    await blockchain.mineBlock([await makeTransaction('theirs2', 30)]);
+    const theirs = blockchain.getChain().slice(1);
+    blockchain['chain'] = local;
+
+    await blockchain.mergeChain(theirs);
+    const requeued = await getTransactionById('orphan1');
+
+    expect(requeued).toMatchObject({ status: 'pending', direction: 'sent', description: payment.description });
+    expect(await validateTransactionsForBlock([requeued!], blockchain.getChain())).toBeNull();
+    lockVault();
+    await deleteUserDatabase('reorg_owner');
+  });
+
+  test('should keep this chain against a branch with no more work unless it is canonical', async () => {
+    const genesis = blockchain.getChain()[0];
+    await blockchain.mineBlock([await makeTransaction('mine1', 10)]);
+    const local = [...blockchain.getChain()];
+    blockchain['chain'] = [genesis];
+    await blockchain.mineBlock([await makeTransaction('theirs1', 20)]);
+    const theirs = blockchain.getChain().slice(1);
+    blockchain['chain'] = local;
+
+    await expect(blockchain.mergeChain(theirs)).resolves.toMatchObject({ status: 'kept', added: 0 });
+    expect(blockchain.getLatestBlock().hash).toBe(local[1].hash);
+    await expect(blockchain.mergeChain(theirs, { canonical: true })).resolves.toMatchObject({
+      status: 'reorganized',
+    });
+    expect(blockchain.getLatestBlock().hash).toBe(theirs[0].hash);
+  });
+
+  test('should refuse legacy blocks from another device or a sync server', async () => {
+    const genesis = { ...blockchain.getChain()[0] };
+    genesis.header = { ...genesis.header, version: LEGACY_BLOCK_VERSION };
+    genesis.hash = calculateBlockHash(genesis);
+    const forged = { ...(await makeTransaction('forged', 5000)), signature: undefined };
+    const first = mineLegacyBlock(genesis, [forged]);
+    const legacyChain = [genesis, first, mineLegacyBlock(first, [await makeTransaction('filler', 10)])];
+
+    await expect(blockchain.mergeChain(legacyChain, { canonical: true })).rejects.toThrow('legacy blocks');
+    await expect(blockchain.adoptChain(legacyChain)).rejects.toThrow('legacy blocks');
+    expect(blockchain.getChain()).toHaveLength(1);
+  });
+
+  test('should extend the chain and refuse blocks with no shared history', async () => {
+    await blockchain.mineBlock([await makeTransaction('ext1', 10)]);
+    await blockchain.mineBlock([await makeTransaction('ext2', 20)]);
+    const chain = [...blockchain.getChain()];
+    blockchain['chain'] = chain.slice(0, 2);
+
+    await expect(blockchain.mergeChain(chain)).resolves.toMatchObject({ status: 'extended', added: 1 });
+    await expect(blockchain.mergeChain(chain)).resolves.toMatchObject({ status: 'unchanged' });
+    const stranger = { ...chain[2], header: { ...chain[2].header, previousHash: 'f'.repeat(64) }, hash: 'e'.repeat(64) };
+    await expect(blockchain.mergeChain([stranger])).rejects.toThrow("don't share any history");
+  });
+
+  test('should quarantine a tampered block and everything after it, then mine their transactions again', async () => {
+    await setActiveUser('quarantine_owner');
+    await createVault('quarantine_owner', '123456');
+    await blockchain.ready;
+    const [kept, moved, forged, later] = await makeBatch('stored', [10, 20, 30, 40]);
+    for (const transaction of [kept, moved, forged, later]) {
+      await addSentTransaction(transaction);
+    }
+    await blockchain.addTransaction(kept);
+    await blockchain.mineBlock([moved, { ...forged, amount: 3000 }]);
+    await blockchain.mineBlock([later]);
+    const [, , tampered, suffix] = blockchain.getChain();
+
+    // Signing back in reloads and validates the stored chain
+    await setActiveUser(null);
+    await setActiveUser('quarantine_owner');
+    await blockchain.ready;
+
+    expect(blockchain.getChain()).toHaveLength(2);
+    expect((await quarantineRepository.list()).map(record => record.hash).sort()).toEqual(
+      [tampered.hash, suffix.hash].sort()
+    );
+    const pending = (await getTransactions()).filter(transaction => transaction.status === 'pending');
+    expect(pending.map(transaction => transaction.id).sort()).toEqual(['stored2', 'stored4']);
+
+    await blockchain.addTransactions(pending);
+    expect(await blockchain.validate()).toMatchObject({ status: 'valid', blocksChecked: 3 });
+    lockVault();
+    await deleteUserDatabase('quarantine_owner');
+  });
+
+  test('should report the first block with a forged signature', async () => {
+    await blockchain.addTransaction(await makeTransaction('good', 10));
+    await blockchain.addTransactions(await makeBatch('forged', [10, 20]));
+    // Re-mine the block so only the signature check can catch the change
+    const [forged1, forged2] = blockchain.getChain()[2].transactions;
+    blockchain['chain'].pop();
+    await blockchain.mineBlock([forged1, { ...forged2, amount: 2000 }]);
+
+    expect(blockchain.isChainValid()).toBe(true);
+    const report = await blockchain.validate();
+    expect(report).toMatchObject({
+      status: 'invalid',
+      blockIndex: 2,
+      reason: 'invalid_signature',
+      transactionId: 'forged2',
+    });
+  });
+
+  test('should reject a second payment spending the same nonce', async () => {
+    await blockchain.addTransaction(await makeTransaction('first', 10, 42));
+
+    await expect(blockchain.addTransaction(await makeTransaction('second', 10, 42))).rejects.toThrow(
+      'Nonce 42 was already spent'
+    );
+  });
+
+  test('should report a nonce reused across blocks', async () => {
+    await blockchain.addTransaction(await makeTransaction('first', 10, 42));
+    // Mined directly, as a block synced from another device would arrive
+    await blockchain.mineBlock([await makeTransaction('second', 10, 42)]);
+
+    expect(await blockchain.validate()).toMatchObject({
+      status: 'invalid',
+      blockIndex: 2,
+      reason: 'nonce_reused',
+      transactionId: 'second',
+    });
+  });
+
+  test('should reject a legacy block built on top of a current-version block', async () => {
+    await blockchain.addTransaction(await makeTransaction('signed', 10));
+    const unsigned = { ...(await makeTransaction('unsigned', 5000)), signature: undefined };
+    const chain = [...blockchain.getChain(), mineLegacyBlock(blockchain.getLatestBlock(), [unsigned])];
+
+    expect(await validateChain(chain)).toMatchObject({
+      status: 'invalid',
+      blockIndex: 2,
+      reason: 'invalid_version',
+    });
+  });
+
+  test('should accept legacy blocks only as the original prefix of the chain', async () => {
+    const genesis = { ...blockchain.getChain()[0] };
+    genesis.header = { ...genesis.header, version: LEGACY_BLOCK_VERSION };
+    genesis.hash = calculateBlockHash(genesis);
+    const legacy = mineLegacyBlock(genesis, [await makeTransaction('old', 10)]);
+
+    expect(await validateChain([genesis, legacy])).toMatchObject({ status: 'valid', blocksChecked: 2 });
+  });
+});
@@ -1,201 +1,449 @@
-import * as CryptoJS from 'crypto-js';
-import { getTransactions, updateTransactionStatus } from './storage';
+import { getTransactions, requeueTransaction, updateTransactionStatus } from './storage';
 import { verifySignature } from './crypto';
+import { blockRepository } from './repositories';
+import {
+  checkChainStructure,
+  validateChain,
+  validateSegment,
+  validateTransactionsForBlock,
+  verifyTransactionSignature
+} from './chainValidation';
+import { getActiveUserId, onActiveUserChange } from './db';
+import {
+  BLOCK_VERSION,
+  EMPTY_MERKLE_ROOT,
+  LEGACY_BLOCK_VERSION,
+  buildMerklePath,
+  calculateBlockHash,
+  calculateHeaderHash,
+  computeMerkleRoot,
+  verifyMerkleProof,
+} from './blocks';
+import { mineHeader, type MiningOptions } from './miner';
+import { compareChains } from './forkChoice';
+import type {
+  Block,
+  BlockHeader,
+  ChainMergeResult,
+  ChainReorganization,
+  MerkleProof,
+  QuarantinedBlock,
+  Transaction,
+  ValidationReport
+} from '../types';
 
-const BLOCKCHAIN_STORAGE_KEY = 'offpay_blockchain';
-interface Block {
-  index: number;
-  timestamp: number;
-  data: any;
-  previousHash: string;
-  hash: string;
-  nonce: number;
-}
+// Keeps blocks small enough to mine and to ship between devices
+export const MAX_TRANSACTIONS_PER_BLOCK = 50;
 
 class Blockchain {
   private chain: Block[];
   private difficulty: number;
+  // Resolves once the active user's chain has been loaded from IndexedDB
+  ready: Promise<void>;
+  // Tail of the mining queue; each block has to build on the one before it
+  private mining: Promise<unknown> = Promise.resolve();
+  // Result of the deep validation run when the chain was last loaded
+  private validationReport: ValidationReport | null = null;
+  // Most recent switch to another branch since the chain was loaded
+  private lastReorganization: ChainReorganization | null = null;
 
   constructor() {
-    const storedChain = localStorage.getItem(BLOCKCHAIN_STORAGE_KEY);
-    if (storedChain) {
-      try {
-        this.chain = JSON.parse(storedChain);
-        if (!this.isChainValid()) {
-          console.error('Loaded blockchain is invalid, creating new chain');
-          this.chain = [this.createGenesisBlock()];
-        }
-      } catch (error) {
-        console.error('Failed to load blockchain:', error);
-        this.chain = [this.createGenesisBlock()];
-      }
-    } else {
-      this.chain = [this.createGenesisBlock()];
-    }
     this.difficulty = 2; 
+    this.chain = [this.createGenesisBlock()];
+    this.ready = this.loadChain();
+    // Each user has their own chain
+    onActiveUserChange(() => {
+      this.chain = [this.createGenesisBlock()];
+      this.validationReport = null;
+      this.lastReorganization = null;
+      this.ready = this.loadChain();
+    });
   }
-  private saveChain(): void {
+  private async loadChain(): Promise<void> {
+    if (!getActiveUserId()) {
+      return;
+    }
+
     try {
-      localStorage.setItem(BLOCKCHAIN_STORAGE_KEY, JSON.stringify(this.chain));
+      const storedChain = await blockRepository.list();
+      if (storedChain.length === 0) {
+        await blockRepository.put(this.chain[0]);
+        return;
+      }
+
+      this.chain = storedChain;
+      this.validationReport = await validateChain(storedChain);
+      if (this.validationReport.status === 'invalid') {
+        console.error('Loaded blockchain is invalid:', this.validationReport);
+        await this.quarantineFrom(this.validationReport);
+      }
     } catch (error) {
-      console.error('Failed to save blockchain:', error);
+      console.error('Failed to load blockchain:', error);
     }
   }
+  // Keeps every block before the first bad one and sets the rest aside. Their
+  // transactions go back to pending so they are mined again on the next sync,
+  // re-queued from the block's copy where it still verifies, since that is the
+  // one that was signed.
+  private async quarantineFrom(report: Extract<ValidationReport, { status: 'invalid' }>): Promise<void> {
+    const validBlocks = report.blockIndex === 0 ? [this.createGenesisBlock()] : this.chain.slice(0, report.blockIndex);
+    const badBlocks = this.chain.slice(report.blockIndex);
+    const quarantinedAt = Date.now();
+    const quarantined: QuarantinedBlock[] = badBlocks.map((block, i) => ({
+      hash: block.hash,
+      block,
+      reason: report.reason,
+      message: i === 0 ? report.message : `Builds on quarantined block ${report.blockHash}`,
+      quarantinedAt
+    }));
+
+    this.chain = validBlocks;
+    await blockRepository.quarantine(validBlocks, quarantined);
+
+    // A transaction quarantined for a bad signature or amount must not be retried
+    const rejectedId = report.transactionId;
+    for (const block of badBlocks) {
+      for (const transaction of block.transactions) {
+        if (transaction.id === rejectedId || this.hasTransaction(transaction.id)) {
+          continue;
+        }
+        if (await verifyTransactionSignature(transaction)) {
+          await requeueTransaction(transaction);
+        } else {
+          await updateTransactionStatus(transaction.id, 'pending');
+        }
+      }
+    }
+  }
+  // Blocks are append-only, so only the new block needs writing
+  private saveBlock(block: Block): void {
+    blockRepository.put(block).catch((error) => {
+      console.error('Failed to save blockchain:', error);
+    });
+  }
   private createGenesisBlock(): Block {
-    return {
+    const header: BlockHeader = {
+      version: BLOCK_VERSION,
       index: 0,
       timestamp: Date.now(),
-      data: "Genesis Block",
-      previousHash: "0".repeat(64),
-      hash: this.calculateHash(0, Date.now(), "Genesis Block", "0".repeat(64), 0),
+      previousHash: '0'.repeat(64),
+      merkleRoot: EMPTY_MERKLE_ROOT,
+      txCount: 0,
+      difficulty: this.difficulty,
       nonce: 0
     };
+    return { header, hash: calculateHeaderHash(header), transactions: [] };
   }
   getLatestBlock(): Block {
     return this.chain[this.chain.length - 1];
   }
-  private calculateHash(index: number, timestamp: number, data: any, previousHash: string, nonce: number): string {
-    return CryptoJS.SHA256(
-      index + timestamp + JSON.stringify(data) + previousHash + nonce
-    ).toString();
+  private enqueueMining<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.mining.then(task, task);
+    this.mining = run.catch(() => undefined);
+    return run;
   }
-  mineBlock(data: any): Block {
-    try {
-      const previousBlock = this.getLatestBlock();
-      const newIndex = previousBlock.index + 1;
-      const timestamp = Date.now();
-      let nonce = 0;
-      let hash: string;
-
-      // Proof of work
-      do {
-        nonce++;
-        hash = this.calculateHash(newIndex, timestamp, data, previousBlock.hash, nonce);
-      } while (!hash.startsWith('0'.repeat(this.difficulty)));
-      const newBlock: Block = {
-        index: newIndex,
-        timestamp,
-        data,
-        previousHash: previousBlock.hash,
-        hash,
-        nonce
-      };
-
-      this.chain.push(newBlock);
-      this.saveChain(); 
-      return newBlock;
-    } catch (error) {
-      console.error('Mining failed:', error);
-      throw new Error('Failed to mine block');
+  private async mineNextBlock(transactions: Transaction[], options: MiningOptions): Promise<Block> {
+    const previousBlock = this.getLatestBlock();
+    const header: BlockHeader = {
+      version: BLOCK_VERSION,
+      index: previousBlock.header.index + 1,
+      timestamp: Date.now(),
+      previousHash: previousBlock.hash,
+      merkleRoot: computeMerkleRoot(transactions),
+      txCount: transactions.length,
+      difficulty: this.difficulty,
+      nonce: 0
+    };
+
+    // Proof of work
+    const { nonce, hash } = await mineHeader(header, options);
+
+    // The active user may have changed while the worker was busy
+    if (this.getLatestBlock() !== previousBlock) {
+      throw new Error('Chain changed while mining');
     }
+    const newBlock: Block = { header: { ...header, nonce }, hash, transactions };
+
+    this.chain.push(newBlock);
+    this.saveBlock(newBlock);
+    return newBlock;
+  }
+  mineBlock(transactions: Transaction[], options: MiningOptions = {}): Promise<Block> {
+    return this.enqueueMining(() => this.mineNextBlock(transactions, options));
   }
 
   // Validation
+  // Structural check only (hashes, links, work, Merkle roots, amounts, ids and
+  // timestamps); use validate() to also verify every signature
   isChainValid(): boolean {
-    for (let i = 1; i < this.chain.length; i++) {
-      const currentBlock = this.chain[i];
-      const previousBlock = this.chain[i - 1];
-      //Verify 
-      const calculatedHash = this.calculateHash(
-        currentBlock.index,
-        currentBlock.timestamp,
-        currentBlock.data,
-        currentBlock.previousHash,
-        currentBlock.nonce
-      );
-
-      if (currentBlock.hash !== calculatedHash) {
-        console.log('Invalid hash in block:', currentBlock.index);
-        return false;
-      }
-      //Verify chain linkage
-      if (currentBlock.previousHash !== previousBlock.hash) {
-        console.log('Invalid previous hash in block:', currentBlock.index);
-        return false;
-      }
+    const report = checkChainStructure(this.chain);
+    if (report.status === 'invalid') {
+      console.log(`Invalid block ${report.blockIndex} (${report.reason}):`, report.message);
+      return false;
     }
     return true;
   }
+  validate(): Promise<ValidationReport> {
+    return validateChain(this.chain);
+  }
+  getValidationReport(): ValidationReport | null {
+    return this.validationReport;
+  }
+  getLastReorganization(): ChainReorganization | null {
+    return this.lastReorganization;
+  }
   getChain(): Block[] {
     return this.chain;
   }
+  private findTransaction(txId: string): { block: Block; txIndex: number } | null {
+    for (const block of this.chain) {
+      const txIndex = block.transactions.findIndex(t => t.id === txId);
+      if (txIndex !== -1) {
+        return { block, txIndex };
+      }
+    }
+    return null;
+  }
+  hasTransaction(txId: string): boolean {
+    return this.findTransaction(txId) !== null;
+  }
+
+  //Add a batch of transactions to the blockchain(mining)
+  addTransactions(transactions: Transaction[], options: MiningOptions = {}): Promise<Block> {
+    return this.enqueueMining(async () => {
+      if (transactions.length === 0 || transactions.some(t => !t || !t.id)) {
+        throw new Error('Invalid transaction data');
+      }
+      if (transactions.length > MAX_TRANSACTIONS_PER_BLOCK) {
+        throw new Error(`A block holds at most ${MAX_TRANSACTIONS_PER_BLOCK} transactions`);
+      }
+      // Checked once queued so a block mined ahead of this one is taken into account
+      const ids = new Set(transactions.map(t => t.id));
+      if (ids.size !== transactions.length) {
+        throw new Error('Transaction already exists in blockchain');
+      }
+      const failure = await validateTransactionsForBlock(transactions, this.chain);
+      if (failure) {
+        throw new Error(`${failure.message} (${failure.transactionId})`);
+      }
+
+      return this.mineNextBlock(transactions, options);
+    });
+  }
+  addTransaction(transaction: Transaction, options: MiningOptions = {}): Promise<Block> {
+    return this.addTransactions([transaction], options);
+  }
+
+  // Adopts blocks from another device that extend this chain, returning how
+  // many were added. Blocks already here are skipped; a segment that branches
+  // off anywhere but the tip is rejected, as is one that fails validation.
+  appendSegment(blocks: Block[]): Promise<number> {
+    return this.enqueueMining(async () => {
+      const known = new Set(this.chain.map(block => block.hash));
+      const fresh = blocks.filter(block => !known.has(block.hash));
+      if (fresh.length === 0) {
+        return 0;
+      }
+      if (fresh[0].header.previousHash !== this.getLatestBlock().hash) {
+        throw new Error("Those blocks don't extend this chain");
+      }
+      this.rejectLegacyBlocks(fresh);
+
+      // The chain here is already validated, so only the new blocks are checked
+      const report = await validateSegment(this.chain, fresh);
+      if (report.status === 'invalid') {
+        throw new Error(`Block ${report.blockIndex} was rejected: ${report.message}`);
+      }
 
-  //Add a new transaction to the blockchain(mining)
-  addTransaction(transaction: any): Block {
-    if (!transaction || !transaction.id) {
-      throw new Error('Invalid transaction data');
+      this.chain.push(...fresh);
+      fresh.forEach(block => this.saveBlock(block));
+      return fresh.length;
+    });
+  }
+
+  // Legacy blocks skip the signature checks, so they are only trusted from this
+  // device's own storage, never from another device or a sync server
+  private rejectLegacyBlocks(blocks: Block[]): void {
+    const legacy = blocks.find(block => block.header.version === LEGACY_BLOCK_VERSION);
+    if (legacy) {
+      throw new Error(`Block ${legacy.header.index} was rejected: legacy blocks can't be received from elsewhere`);
     }
-    const existingTransaction = this.chain.some(block => 
-      block.data && block.data.id === transaction.id
-    );
-    
-    if (existingTransaction) {
-      throw new Error('Transaction already exists in blockchain');
+  }
+
+  // Takes a sync server's chain in place of one that is still only its own
+  // genesis block, which can never match the server's. Returns how many blocks
+  // were added after genesis.
+  adoptChain(chain: Block[]): Promise<number> {
+    return this.enqueueMining(async () => {
+      if (this.chain.length > 1) {
+        throw new Error('This chain already has blocks of its own');
+      }
+      this.rejectLegacyBlocks(chain);
+
+      const report = await validateChain(chain);
+      if (report.status === 'invalid') {
+        throw new Error(`Block ${report.blockIndex} was rejected: ${report.message}`);
+      }
+
+      this.chain = [...chain];
+      this.validationReport = report;
+      blockRepository.replaceAll(this.chain).catch((error) => {
+        console.error('Failed to save blockchain:', error);
+      });
+      return chain.length - 1;
+    });
+  }
+
+  // Reconciles blocks from another device or a sync server with this chain.
+  // They may extend it, or branch off at an earlier block, in which case the
+  // branch with more cumulative work wins; on a tie this chain is kept. A
+  // `canonical` source, i.e. the sync server, wins regardless of work.
+  mergeChain(blocks: Block[], options: { canonical?: boolean } = {}): Promise<ChainMergeResult> {
+    return this.enqueueMining(async () => {
+      const fork = compareChains(this.chain, blocks);
+      if (!fork) {
+        throw new Error("Those blocks don't share any history with this chain");
+      }
+      if (fork.added.length === 0) {
+        return { status: 'unchanged', added: 0, orphaned: [] };
+      }
+      this.rejectLegacyBlocks(fork.added);
+      if (fork.removed.length > 0 && !options.canonical && fork.addedWork <= fork.removedWork) {
+        return { status: 'kept', added: 0, orphaned: [] };
+      }
+
+      // Only the other side's blocks need checking, unless not even genesis is shared
+      const report =
+        fork.ancestorIndex === -1
+          ? await validateChain(fork.candidate)
+          : await validateSegment(this.chain.slice(0, fork.ancestorIndex + 1), fork.added);
+      if (report.status === 'invalid') {
+        throw new Error(`Block ${report.blockIndex} was rejected: ${report.message}`);
+      }
+
+      if (fork.removed.length === 0) {
+        this.chain.push(...fork.added);
+        fork.added.forEach(block => this.saveBlock(block));
+        return { status: 'extended', added: fork.added.length, orphaned: [] };
+      }
+      const orphaned = await this.reorganize(fork.candidate, fork.ancestorIndex, report);
+      return { status: 'reorganized', added: fork.added.length, orphaned };
+    });
+  }
+  // Swaps in the new branch and returns the transactions it dropped
+  private async reorganize(candidate: Block[], ancestorIndex: number, report: ValidationReport): Promise<Transaction[]> {
+    const removed = this.chain.slice(ancestorIndex + 1);
+    this.chain = candidate;
+    this.validationReport = report;
+    blockRepository.replaceAll(candidate).catch((error) => {
+      console.error('Failed to save blockchain:', error);
+    });
+
+    const orphaned = removed
+      .flatMap(block => block.transactions)
+      .filter(transaction => !this.hasTransaction(transaction.id));
+    // Re-queued from the block's copy, which is the one that was signed
+    for (const transaction of orphaned) {
+      await requeueTransaction(transaction).catch((error) => {
+        console.error(`Failed to return transaction ${transaction.id} to pending:`, error);
+      });
     }
-    
-    return this.mineBlock(transaction);
+
+    this.lastReorganization = {
+      ancestorIndex,
+      removedBlocks: removed.length,
+      addedBlocks: candidate.length - ancestorIndex - 1,
+      orphanedTransactionIds: orphaned.map(transaction => transaction.id),
+      reorganizedAt: Date.now()
+    };
+    window.dispatchEvent(new CustomEvent('chainReorganized', { detail: this.lastReorganization }));
+    return orphaned;
+  }
+
+  // Everything another device needs to check that `txId` is in this chain
+  getMerkleProof(txId: string): MerkleProof | null {
+    const found = this.findTransaction(txId);
+    if (!found) {
+      return null;
+    }
+
+    const { block, txIndex } = found;
+    return {
+      transaction: block.transactions[txIndex],
+      header: block.header,
+      blockHash: block.hash,
+      path: buildMerklePath(block.transactions, txIndex)
+    };
+  }
+  verifyMerkleProof(proof: MerkleProof): boolean {
+    return verifyMerkleProof(proof);
   }
 }
 export const blockchain = new Blockchain();
-export const syncTransactionToBlockchain = async (transaction: any): Promise<boolean> => {
+// Mines the batch into as few blocks as MAX_TRANSACTIONS_PER_BLOCK allows;
+// progress is reported per block
+export const syncTransactionsToBlockchain = async (
+  transactions: Transaction[],
+  options: MiningOptions = {}
+): Promise<boolean> => {
   try {
-    console.log(`Syncing transaction ${transaction.id} to blockchain...`);
-    const newBlock = blockchain.addTransaction(transaction);
+    console.log(`Syncing ${transactions.length} transactions to blockchain...`);
+    await blockchain.ready;
+    for (let i = 0; i < transactions.length; i += MAX_TRANSACTIONS_PER_BLOCK) {
+      const batch = transactions.slice(i, i + MAX_TRANSACTIONS_PER_BLOCK);
+      const newBlock = await blockchain.addTransactions(batch, options);
+      console.log(`${batch.length} transactions successfully synced to block ${newBlock.header.index}`);
+    }
     const isValid = blockchain.isChainValid();
     if (!isValid) {
-      throw new Error('Blockchain validation failed after adding transaction');
+      throw new Error('Blockchain validation failed after adding transactions');
     }
-    console.log(`Transaction ${transaction.id} successfully synced to block ${newBlock.index}`);
     return true;
   } catch (error) {
-    console.error(`Failed to sync transaction ${transaction.id}:`, error);
+    console.error('Failed to sync transactions:', error);
     return false;
   }
 };
-export const syncPendingTransactions = async (): Promise<{
+export const syncTransactionToBlockchain = async (
+  transaction: Transaction,
+  options: MiningOptions = {}
+): Promise<boolean> => {
+  return syncTransactionsToBlockchain([transaction], options);
+};
+export const syncPendingTransactions = async (options: MiningOptions = {}): Promise<{
   success: number;
   failed: number;
 }> => {
   console.log('Syncing all pending transactions...');
-  const transactions = getTransactions();
+  await blockchain.ready;
+  const transactions = await getTransactions();
   const pendingTransactions = transactions.filter(t => t.status === 'pending');
-  let success = 0;
-  let failed = 0;  
-  for (const transaction of pendingTransactions) {
-    try {
-      const synced = await syncTransactionToBlockchain(transaction);
-      if (synced) {
-        success++;
-        updateTransactionStatus(transaction.id, 'synced');
-      } else {
-        failed++;
-      }
-    } catch (error) {
-      console.error('Error syncing transaction:', error);
-      failed++;
-    }
+  // Already mined but never marked, e.g. the tab closed mid-sync
+  const alreadyMined = pendingTransactions.filter(t => blockchain.hasTransaction(t.id));
+  const toMine = pendingTransactions.filter(t => !blockchain.hasTransaction(t.id));
+
+  const synced = toMine.length === 0 || await syncTransactionsToBlockchain(toMine, options);
+  const succeeded = synced ? pendingTransactions : alreadyMined;
+  for (const transaction of succeeded) {
+    await updateTransactionStatus(transaction.id, 'synced');
   }
   
-  return { success, failed };
+  return { success: succeeded.length, failed: pendingTransactions.length - succeeded.length };
 };
 export const verifyTransaction = async (
-  transaction: any,
+  transaction: Transaction,
   signature: string,
   publicKey: string
 ): Promise<boolean> => {
   try {
     console.log(`Verifying transaction ${transaction.id}...`);
-    const isSignatureValid = verifySignature(transaction, signature, publicKey);
+    const isSignatureValid = await verifySignature(transaction, signature, publicKey);
     if (!isSignatureValid) {
       return false;
     }
-    const chain = blockchain.getChain();
-    const transactionExists = chain.some(block => 
-      block.data && block.data.id === transaction.id
-    );
-    
-    if (transactionExists) {
-      updateTransactionStatus(transaction.id, 'verified');
+    await blockchain.ready;
+    if (blockchain.hasTransaction(transaction.id)) {
+      await updateTransactionStatus(transaction.id, 'verified');
       console.log(`Transaction ${transaction.id} verified successfully`);
       return true;
     }
@@ -0,0 +1,144 @@
+import CryptoJS from "crypto-js"
+import type { Block, BlockHeader, MerkleProof, MerkleProofStep, Transaction } from "../types"
+import { serializeTransactionForSigning } from "./crypto"
+
+export const BLOCK_VERSION = 2
+// Blocks mined before batching held one transaction in `data` and hashed that
+// directly instead of a header. They are kept as-is so old chains stay valid.
+export const LEGACY_BLOCK_VERSION = 1
+const LEGACY_DIFFICULTY = 2
+export const EMPTY_MERKLE_ROOT = "0".repeat(64)
+
+export interface LegacyBlock {
+  index: number
+  timestamp: number
+  data: unknown
+  previousHash: string
+  hash: string
+  nonce: number
+}
+
+const sha256 = (value: string): string => CryptoJS.SHA256(value).toString()
+
+// Leaves and inner nodes are hashed with different prefixes so an inner node
+// can never be presented as a transaction
+export const hashTransaction = (transaction: Transaction): string => {
+  return sha256(`leaf:${JSON.stringify([serializeTransactionForSigning(transaction), transaction.signature ?? ""])}`)
+}
+
+const hashPair = (left: string, right: string): string => sha256(`node:${left}${right}`)
+
+// An odd node at the end of a level is carried up unchanged rather than paired
+// with itself, so no two transaction lists share a root
+const nextLevel = (level: string[]): string[] => {
+  const next: string[] = []
+  for (let i = 0; i < level.length; i += 2) {
+    next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i])
+  }
+  return next
+}
+
+export const computeMerkleRoot = (transactions: Transaction[]): string => {
+  if (transactions.length === 0) {
+    return EMPTY_MERKLE_ROOT
+  }
+
+  let level = transactions.map(hashTransaction)
+  while (level.length > 1) {
+    level = nextLevel(level)
+  }
+  return level[0]
+}
+
+export const buildMerklePath = (transactions: Transaction[], txIndex: number): MerkleProofStep[] => {
+  const path: MerkleProofStep[] = []
+  let level = transactions.map(hashTransaction)
+  let index = txIndex
+
+  while (level.length > 1) {
+    if (index % 2 === 1) {
+      path.push({ hash: level[index - 1], position: "left" })
+    } else if (index + 1 < level.length) {
+      path.push({ hash: level[index + 1], position: "right" })
+    }
+    level = nextLevel(level)
+    index = Math.floor(index / 2)
+  }
+
+  return path
+}
+
+export const calculateHeaderHash = (header: BlockHeader): string => {
+  return sha256(
+    JSON.stringify([
+      header.version,
+      header.index,
+      header.timestamp,
+      header.previousHash,
+      header.merkleRoot,
+      header.txCount,
+      header.difficulty,
+      header.nonce,
+    ]),
+  )
+}
+
+export const calculateBlockHash = (block: Pick<Block, "header" | "transactions">): string => {
+  if (block.header.version === LEGACY_BLOCK_VERSION) {
+    const { index, timestamp, previousHash, nonce } = block.header
+    // Reproduces the original formula exactly, numeric addition included
+    return sha256(index + timestamp + JSON.stringify(block.transactions[0]) + previousHash + nonce)
+  }
+  return calculateHeaderHash(block.header)
+}
+
+export const meetsDifficulty = (hash: string, difficulty: number): boolean => {
+  return hash.startsWith("0".repeat(difficulty))
+}
+
+export const isLegacyBlock = (block: Block | LegacyBlock): block is LegacyBlock => {
+  return !("header" in block)
+}
+
+export const fromLegacyBlock = (legacy: LegacyBlock): Block => {
+  // The genesis block stored a string instead of a transaction
+  const transactions = legacy.data && typeof legacy.data === "object" ? [legacy.data as Transaction] : []
+
+  return {
+    header: {
+      version: LEGACY_BLOCK_VERSION,
+      index: legacy.index,
+      timestamp: legacy.timestamp,
+      previousHash: legacy.previousHash,
+      merkleRoot: computeMerkleRoot(transactions),
+      txCount: transactions.length,
+      difficulty: LEGACY_DIFFICULTY,
+      nonce: legacy.nonce,
+    },
+    hash: legacy.hash,
+    transactions,
+  }
+}
+
+export const normalizeBlock = (block: Block | LegacyBlock): Block => {
+  return isLegacyBlock(block) ? fromLegacyBlock(block) : block
+}
+
+export const verifyMerkleProof = (proof: MerkleProof): boolean => {
+  const root = proof.path.reduce(
+    (hash, step) => (step.position === "left" ? hashPair(step.hash, hash) : hashPair(hash, step.hash)),
+    hashTransaction(proof.transaction),
+  )
+  if (root !== proof.header.merkleRoot) {
+    return false
+  }
+
+  // Legacy headers can't be hashed on their own; their single transaction is
+  // the one being proven
+  const blockHash =
+    proof.header.version === LEGACY_BLOCK_VERSION
+      ? calculateBlockHash({ header: proof.header, transactions: [proof.transaction] })
+      : calculateHeaderHash(proof.header)
+
+  return blockHash === proof.blockHash && meetsDifficulty(blockHash, proof.header.difficulty)
+}
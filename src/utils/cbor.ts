@@ -0,0 +1,184 @@
+// Minimal CBOR (RFC 8949) for QR payloads: integers, floats, strings, byte
+// strings, arrays, string-keyed maps, booleans and null. No tags or
+// indefinite lengths.
+
+export type CborValue = number | string | boolean | null | Uint8Array | CborValue[] | { [key: string]: CborValue }
+
+const MAJOR_UNSIGNED = 0
+const MAJOR_NEGATIVE = 1
+const MAJOR_BYTES = 2
+const MAJOR_TEXT = 3
+const MAJOR_ARRAY = 4
+const MAJOR_MAP = 5
+const MAJOR_SIMPLE = 7
+
+const SIMPLE_FALSE = 20
+const SIMPLE_TRUE = 21
+const SIMPLE_NULL = 22
+const FLOAT64 = 27
+
+class CborWriter {
+  private bytes: number[] = []
+
+  writeHead(major: number, length: number): void {
+    const type = major << 5
+    if (length < 24) {
+      this.bytes.push(type | length)
+    } else if (length < 0x100) {
+      this.bytes.push(type | 24, length)
+    } else if (length < 0x10000) {
+      this.bytes.push(type | 25, length >> 8, length & 0xff)
+    } else if (length < 0x100000000) {
+      this.bytes.push(type | 26, (length >>> 24) & 0xff, (length >> 16) & 0xff, (length >> 8) & 0xff, length & 0xff)
+    } else {
+      // Bitwise operators are 32-bit, so split into high and low words
+      const high = Math.floor(length / 0x100000000)
+      const low = length >>> 0
+      this.bytes.push(type | 27)
+      for (const word of [high, low]) {
+        this.bytes.push((word >>> 24) & 0xff, (word >> 16) & 0xff, (word >> 8) & 0xff, word & 0xff)
+      }
+    }
+  }
+
+  writeFloat(value: number): void {
+    const view = new DataView(new ArrayBuffer(8))
+    view.setFloat64(0, value)
+    this.bytes.push((MAJOR_SIMPLE << 5) | FLOAT64, ...new Uint8Array(view.buffer))
+  }
+
+  writeRaw(bytes: Uint8Array): void {
+    bytes.forEach((byte) => this.bytes.push(byte))
+  }
+
+  write(value: CborValue): void {
+    if (value === null || value === undefined) {
+      this.bytes.push((MAJOR_SIMPLE << 5) | SIMPLE_NULL)
+    } else if (typeof value === "boolean") {
+      this.bytes.push((MAJOR_SIMPLE << 5) | (value ? SIMPLE_TRUE : SIMPLE_FALSE))
+    } else if (typeof value === "number") {
+      if (!Number.isSafeInteger(value)) {
+        this.writeFloat(value)
+      } else if (value >= 0) {
+        this.writeHead(MAJOR_UNSIGNED, value)
+      } else {
+        this.writeHead(MAJOR_NEGATIVE, -1 - value)
+      }
+    } else if (typeof value === "string") {
+      const encoded = new TextEncoder().encode(value)
+      this.writeHead(MAJOR_TEXT, encoded.length)
+      this.writeRaw(encoded)
+    } else if (value instanceof Uint8Array) {
+      this.writeHead(MAJOR_BYTES, value.length)
+      this.writeRaw(value)
+    } else if (Array.isArray(value)) {
+      this.writeHead(MAJOR_ARRAY, value.length)
+      value.forEach((item) => this.write(item))
+    } else {
+      const entries = Object.entries(value).filter(([, item]) => item !== undefined)
+      this.writeHead(MAJOR_MAP, entries.length)
+      entries.forEach(([key, item]) => {
+        this.write(key)
+        this.write(item)
+      })
+    }
+  }
+
+  toBytes(): Uint8Array {
+    return new Uint8Array(this.bytes)
+  }
+}
+
+class CborReader {
+  private offset = 0
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  get done(): boolean {
+    return this.offset >= this.bytes.length
+  }
+
+  private take(count: number): Uint8Array {
+    if (this.offset + count > this.bytes.length) {
+      throw new Error("CBOR data is truncated")
+    }
+    const slice = this.bytes.subarray(this.offset, this.offset + count)
+    this.offset += count
+    return slice
+  }
+
+  private readLength(info: number): number {
+    if (info < 24) {
+      return info
+    }
+    const size = { 24: 1, 25: 2, 26: 4, 27: 8 }[info]
+    if (!size) {
+      throw new Error(`Unsupported CBOR length encoding ${info}`)
+    }
+    const length = this.take(size).reduce((total, byte) => total * 256 + byte, 0)
+    if (!Number.isSafeInteger(length)) {
+      throw new Error("CBOR integer is too large")
+    }
+    return length
+  }
+
+  read(): CborValue {
+    const [initial] = this.take(1)
+    const major = initial >> 5
+    const info = initial & 0x1f
+
+    switch (major) {
+      case MAJOR_UNSIGNED:
+        return this.readLength(info)
+      case MAJOR_NEGATIVE:
+        return -1 - this.readLength(info)
+      case MAJOR_BYTES:
+        return this.take(this.readLength(info)).slice()
+      case MAJOR_TEXT:
+        return new TextDecoder().decode(this.take(this.readLength(info)))
+      case MAJOR_ARRAY: {
+        const length = this.readLength(info)
+        const items: CborValue[] = []
+        for (let i = 0; i < length; i++) {
+          items.push(this.read())
+        }
+        return items
+      }
+      case MAJOR_MAP: {
+        const length = this.readLength(info)
+        const map: { [key: string]: CborValue } = {}
+        for (let i = 0; i < length; i++) {
+          const key = this.read()
+          if (typeof key !== "string") {
+            throw new Error("CBOR map keys must be strings")
+          }
+          map[key] = this.read()
+        }
+        return map
+      }
+      case MAJOR_SIMPLE:
+        if (info === SIMPLE_FALSE) return false
+        if (info === SIMPLE_TRUE) return true
+        if (info === SIMPLE_NULL) return null
+        if (info === FLOAT64) return new DataView(this.take(8).slice().buffer).getFloat64(0)
+        throw new Error(`Unsupported CBOR simple value ${info}`)
+      default:
+        throw new Error(`Unsupported CBOR major type ${major}`)
+    }
+  }
+}
+
+export const encodeCbor = (value: CborValue): Uint8Array => {
+  const writer = new CborWriter()
+  writer.write(value)
+  return writer.toBytes()
+}
+
+export const decodeCbor = (bytes: Uint8Array): CborValue => {
+  const reader = new CborReader(bytes)
+  const value = reader.read()
+  if (!reader.done) {
+    throw new Error("Unexpected data after CBOR value")
+  }
+  return value
+}
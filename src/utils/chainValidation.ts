@@ -0,0 +1,251 @@
+import type { Block, Transaction, ValidationFailureReason, ValidationReport } from "../types"
+import {
+  EMPTY_MERKLE_ROOT,
+  LEGACY_BLOCK_VERSION,
+  calculateBlockHash,
+  computeMerkleRoot,
+  meetsDifficulty,
+} from "./blocks"
+import { verifySignature } from "./crypto"
+import { getNullifier } from "./replay"
+import { verifyWalletKey } from "./wallet"
+
+export const MIN_DIFFICULTY = 2
+// How far ahead of this device's clock a block or transaction may be dated
+export const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000
+
+interface BlockFailure {
+  reason: ValidationFailureReason
+  message: string
+  transactionId?: string
+}
+
+export const isValidAmount = (amount: number): boolean => {
+  return typeof amount === "number" && Number.isFinite(amount) && amount > 0
+}
+
+// Signed transactions must verify against the key they carry, and that key has
+// to belong to the sender's wallet address
+export const verifyTransactionSignature = async (transaction: Transaction): Promise<boolean> => {
+  if (!transaction.signature || !transaction.publicKey) {
+    return false
+  }
+
+  return (
+    (await verifySignature(transaction, transaction.signature, transaction.publicKey)) &&
+    (await verifyWalletKey(transaction.sender, transaction.publicKey, transaction.keyProof))
+  )
+}
+
+const checkGenesis = (block: Block): BlockFailure | null => {
+  const { header } = block
+  if (header.index !== 0 || header.previousHash !== "0".repeat(64)) {
+    return { reason: "bad_genesis", message: "Genesis block must have index 0 and an all-zero previous hash" }
+  }
+  if (block.transactions.length > 0 || (header.version !== LEGACY_BLOCK_VERSION && header.merkleRoot !== EMPTY_MERKLE_ROOT)) {
+    return { reason: "bad_genesis", message: "Genesis block must not contain transactions" }
+  }
+  return null
+}
+
+// Transaction ids and (sender, nonce) pairs already seen further down the chain
+interface SeenTransactions {
+  ids: Set<string>
+  nullifiers: Set<string>
+}
+
+const createSeen = (chain: Block[] = []): SeenTransactions => {
+  const seen: SeenTransactions = { ids: new Set(), nullifiers: new Set() }
+  chain.forEach((block) => block.transactions.forEach((transaction) => markSeen(seen, transaction)))
+  return seen
+}
+
+const markSeen = (seen: SeenTransactions, transaction: Transaction): void => {
+  seen.ids.add(transaction.id)
+  if (transaction.nonce !== undefined) {
+    seen.nullifiers.add(getNullifier(transaction.sender, transaction.nonce))
+  }
+}
+
+// Duplicate ids, and different transactions spending the same nonce
+const checkUniqueness = (transaction: Transaction, seen: SeenTransactions): BlockFailure | null => {
+  if (seen.ids.has(transaction.id)) {
+    return {
+      reason: "duplicate_transaction",
+      message: "Transaction already exists in blockchain",
+      transactionId: transaction.id,
+    }
+  }
+  if (transaction.nonce !== undefined && seen.nullifiers.has(getNullifier(transaction.sender, transaction.nonce))) {
+    return {
+      reason: "nonce_reused",
+      message: `Nonce ${transaction.nonce} was already spent by ${transaction.sender}`,
+      transactionId: transaction.id,
+    }
+  }
+  return null
+}
+
+// Everything that can be checked without async crypto. Records the block's
+// transactions in `seen`.
+const checkBlockStructure = (
+  block: Block,
+  previousBlock: Block,
+  seen: SeenTransactions,
+  now: number,
+): BlockFailure | null => {
+  const { header } = block
+
+  // Legacy blocks skip the signature checks, so they are only accepted as the
+  // chain's original prefix, never after a block of the current version
+  if (header.version === LEGACY_BLOCK_VERSION && previousBlock.header.version !== LEGACY_BLOCK_VERSION) {
+    return { reason: "invalid_version", message: "Legacy block follows a current-version block" }
+  }
+  if (header.index !== previousBlock.header.index + 1) {
+    return { reason: "bad_index", message: `Expected index ${previousBlock.header.index + 1}, found ${header.index}` }
+  }
+  if (header.previousHash !== previousBlock.hash) {
+    return { reason: "broken_link", message: "Previous hash does not match the preceding block" }
+  }
+  if (block.hash !== calculateBlockHash(block)) {
+    return { reason: "hash_mismatch", message: "Block hash does not match its contents" }
+  }
+  if (header.difficulty < MIN_DIFFICULTY || !meetsDifficulty(block.hash, header.difficulty)) {
+    return {
+      reason: "insufficient_work",
+      message: `Proof of work does not meet difficulty ${Math.max(header.difficulty, MIN_DIFFICULTY)}`,
+    }
+  }
+  if (header.txCount !== block.transactions.length || header.merkleRoot !== computeMerkleRoot(block.transactions)) {
+    return { reason: "merkle_mismatch", message: "Merkle root does not match the block's transactions" }
+  }
+  if (header.timestamp < previousBlock.header.timestamp) {
+    return { reason: "timestamp_out_of_order", message: "Block is dated before the block it builds on" }
+  }
+  if (header.timestamp > now + MAX_CLOCK_SKEW_MS) {
+    return { reason: "future_timestamp", message: "Block is dated in the future" }
+  }
+
+  for (const transaction of block.transactions) {
+    if (!isValidAmount(transaction.amount)) {
+      return {
+        reason: "invalid_amount",
+        message: `Amount ${transaction.amount} is not a positive number`,
+        transactionId: transaction.id,
+      }
+    }
+    const duplicate = checkUniqueness(transaction, seen)
+    if (duplicate) {
+      return duplicate
+    }
+    if (transaction.timestamp > header.timestamp + MAX_CLOCK_SKEW_MS) {
+      return {
+        reason: "future_timestamp",
+        message: "Transaction is dated after the block that contains it",
+        transactionId: transaction.id,
+      }
+    }
+    markSeen(seen, transaction)
+  }
+
+  return null
+}
+
+// Legacy blocks predate signed transactions and only get the structural checks;
+// checkBlockStructure has already made sure they are part of the legacy prefix
+const checkBlockSignatures = async (block: Block): Promise<BlockFailure | null> => {
+  if (block.header.version === LEGACY_BLOCK_VERSION) {
+    return null
+  }
+
+  for (const transaction of block.transactions) {
+    if (!(await verifyTransactionSignature(transaction))) {
+      return {
+        reason: "invalid_signature",
+        message: "Transaction signature does not verify",
+        transactionId: transaction.id,
+      }
+    }
+  }
+  return null
+}
+
+const toReport = (chain: Block[], index: number, failure: BlockFailure): ValidationReport => ({
+  status: "invalid",
+  blocksChecked: index + 1,
+  blockIndex: index,
+  blockHash: chain[index].hash,
+  ...failure,
+})
+
+// Hashes, links, work, Merkle roots, amounts, ids and timestamps; no signatures
+export const checkChainStructure = (chain: Block[]): ValidationReport => {
+  const seen = createSeen()
+  const now = Date.now()
+
+  for (let i = 0; i < chain.length; i++) {
+    const failure = i === 0 ? checkGenesis(chain[i]) : checkBlockStructure(chain[i], chain[i - 1], seen, now)
+    if (failure) {
+      return toReport(chain, i, failure)
+    }
+  }
+  return { status: "valid", blocksChecked: chain.length }
+}
+
+// Full validation, including every transaction signature. Stops at the first
+// bad block; everything before it is known good.
+export const validateChain = async (chain: Block[]): Promise<ValidationReport> => {
+  if (chain.length === 0) {
+    return { status: "valid", blocksChecked: 0 }
+  }
+
+  const failure = checkGenesis(chain[0])
+  if (failure) {
+    return toReport(chain, 0, failure)
+  }
+  return validateSegment(chain.slice(0, 1), chain.slice(1))
+}
+
+// Validates blocks that extend `chain`, which must already be known good, so
+// only the new blocks are checked, against its tip and the transactions already
+// in it. Indexes in the report count from the start of `chain`.
+export const validateSegment = async (chain: Block[], segment: Block[]): Promise<ValidationReport> => {
+  const seen = createSeen(chain)
+  const now = Date.now()
+
+  for (let i = 0; i < segment.length; i++) {
+    const previousBlock = i === 0 ? chain[chain.length - 1] : segment[i - 1]
+    const failure =
+      checkBlockStructure(segment[i], previousBlock, seen, now) ?? (await checkBlockSignatures(segment[i]))
+    if (failure) {
+      return toReport([...chain, ...segment], chain.length + i, failure)
+    }
+  }
+  return { status: "valid", blocksChecked: chain.length + segment.length }
+}
+
+// Checks a batch before it is mined so invalid transactions never reach a block
+export const validateTransactionsForBlock = async (
+  transactions: Transaction[],
+  chain: Block[],
+): Promise<BlockFailure | null> => {
+  const seen = createSeen(chain)
+
+  for (const transaction of transactions) {
+    if (!isValidAmount(transaction.amount)) {
+      return { reason: "invalid_amount", message: `Amount ${transaction.amount} is not a positive number`, transactionId: transaction.id }
+    }
+    const duplicate = checkUniqueness(transaction, seen)
+    if (duplicate) {
+      return duplicate
+    }
+    if (transaction.timestamp > Date.now() + MAX_CLOCK_SKEW_MS) {
+      return { reason: "future_timestamp", message: "Transaction is dated in the future", transactionId: transaction.id }
+    }
+    if (!(await verifyTransactionSignature(transaction))) {
+      return { reason: "invalid_signature", message: "Transaction signature does not verify", transactionId: transaction.id }
+    }
+    markSeen(seen, transaction)
+  }
+  return null
+}
@@ -0,0 +1,119 @@
+import type { Transaction } from '../types';
+import {
+  decodeLegacyCiphertext,
+  decryptData,
+  deriveEncryptionKey,
+  encryptData,
+  exportPublicKey,
+  generateSigningKeyPair,
+  isLegacyCiphertext,
+  signTransaction,
+  verifySignature,
+} from './crypto';
+
+const makeTransaction = (): Transaction => ({
+  id: 'tx1',
+  amount: 250,
+  sender: 'wallet_abc',
+  recipient: 'shop',
+  timestamp: 1700000000000,
+  description: 'Coffee',
+  status: 'pending',
+});
+
+describe('Transaction signatures', () => {
+  test('should verify a signature made with the matching key', async () => {
+    const keyPair = await generateSigningKeyPair();
+    const publicKey = await exportPublicKey(keyPair.publicKey);
+    const transaction = makeTransaction();
+
+    const signature = await signTransaction(transaction, keyPair.privateKey);
+
+    expect(await verifySignature(transaction, signature, publicKey)).toBe(true);
+  });
+
+  test('should ignore status changes', async () => {
+    const keyPair = await generateSigningKeyPair();
+    const publicKey = await exportPublicKey(keyPair.publicKey);
+    const transaction = makeTransaction();
+    const signature = await signTransaction(transaction, keyPair.privateKey);
+
+    expect(await verifySignature({ ...transaction, status: 'verified' }, signature, publicKey)).toBe(true);
+  });
+
+  test('should reject tampered fields', async () => {
+    const keyPair = await generateSigningKeyPair();
+    const publicKey = await exportPublicKey(keyPair.publicKey);
+    const transaction = makeTransaction();
+    const signature = await signTransaction(transaction, keyPair.privateKey);
+
+    expect(await verifySignature({ ...transaction, amount: 2500 }, signature, publicKey)).toBe(false);
+    expect(await verifySignature({ ...transaction, description: 'Laptop' }, signature, publicKey)).toBe(false);
+    expect(await verifySignature({ ...transaction, timestamp: 1700000000001 }, signature, publicKey)).toBe(false);
+  });
+
+  test('should reject a signature from another key', async () => {
+    const signer = await generateSigningKeyPair();
+    const other = await generateSigningKeyPair();
+    const transaction = makeTransaction();
+    const signature = await signTransaction(transaction, signer.privateKey);
+
+    expect(await verifySignature(transaction, signature, await exportPublicKey(other.publicKey))).toBe(false);
+    expect(await verifySignature(transaction, 'sig_forged', await exportPublicKey(signer.publicKey))).toBe(false);
+  });
+
+  test('should cover the nonce and expiry', async () => {
+    const keyPair = await generateSigningKeyPair();
+    const publicKey = await exportPublicKey(keyPair.publicKey);
+    const transaction = { ...makeTransaction(), nonce: 7, expiresAt: 1700000030000 };
+    const signature = await signTransaction(transaction, keyPair.privateKey);
+
+    expect(await verifySignature(transaction, signature, publicKey)).toBe(true);
+    expect(await verifySignature({ ...transaction, expiresAt: 1800000000000 }, signature, publicKey)).toBe(false);
+    expect(await verifySignature({ ...transaction, nonce: 8 }, signature, publicKey)).toBe(false);
+    expect(await verifySignature({ ...transaction, nonce: undefined }, signature, publicKey)).toBe(false);
+  });
+});
+
+describe('Encryption at rest', () => {
+  // Low iteration count keeps the suite fast; production uses the default
+  const ITERATIONS = 1000;
+
+  test('should round-trip data through an envelope', async () => {
+    const key = await deriveEncryptionKey('123456', undefined, ITERATIONS);
+    const encrypted = await encryptData(makeTransaction(), key, 'tx1');
+
+    expect(isLegacyCiphertext(encrypted)).toBe(false);
+    expect(encrypted).not.toContain('Coffee');
+    expect(JSON.parse(encrypted)).toMatchObject({ v: 1, alg: 'AES-GCM', salt: key.salt, iter: ITERATIONS });
+    expect(await decryptData(encrypted, key, 'tx1')).toEqual(makeTransaction());
+  });
+
+  test('should reject a wrong PIN or tampered ciphertext', async () => {
+    const key = await deriveEncryptionKey('123456', undefined, ITERATIONS);
+    const wrongKey = await deriveEncryptionKey('654321', key.salt, ITERATIONS);
+    const encrypted = await encryptData(makeTransaction(), key);
+
+    await expect(decryptData(encrypted, wrongKey)).rejects.toThrow();
+
+    const envelope = JSON.parse(encrypted);
+    envelope.ct = envelope.ct.replace(/^./, envelope.ct[0] === 'A' ? 'B' : 'A');
+    await expect(decryptData(JSON.stringify(envelope), key)).rejects.toThrow();
+  });
+
+  test('should reject an envelope moved to another record', async () => {
+    const key = await deriveEncryptionKey('123456', undefined, ITERATIONS);
+    const encrypted = await encryptData(makeTransaction(), key, 'tx1');
+
+    await expect(decryptData(encrypted, key, 'tx2')).rejects.toThrow();
+  });
+
+  test('should only read legacy base64 records through the migration decoder', async () => {
+    const key = await deriveEncryptionKey('123456', undefined, ITERATIONS);
+    const legacy = btoa(JSON.stringify(makeTransaction()));
+
+    expect(isLegacyCiphertext(legacy)).toBe(true);
+    await expect(decryptData(legacy, key)).rejects.toThrow('Not an encrypted envelope');
+    expect(decodeLegacyCiphertext(legacy)).toEqual(makeTransaction());
+  });
+});
@@ -1,55 +1,259 @@
+import type { Transaction } from '../types';
 
+const SIGNING_KEY_PARAMS: EcKeyImportParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGNATURE_PARAMS: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+const TRANSACTION_SIGNATURE_VERSION = 'offpay-tx-v1';
+// Adds the replay-protection fields; used whenever a transaction carries a nonce
+const TRANSACTION_SIGNATURE_VERSION_2 = 'offpay-tx-v2';
+const ENCRYPTION_VERSION = 1;
+const PBKDF2_ITERATIONS = 310000;
 
 export const generateId = (): string => {
   return Math.random().toString(36).substring(2, 10);
 };
 
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// Canonical form of everything a signature covers. Fields are listed in a fixed
+// order so both devices serialize identically; `status` is left out because it
+// changes as the transaction moves through the ledger.
+export const serializeTransactionForSigning = (transaction: Transaction): string => {
+  if (transaction.nonce !== undefined) {
+    return JSON.stringify([
+      TRANSACTION_SIGNATURE_VERSION_2,
+      transaction.id,
+      transaction.amount,
+      transaction.sender,
+      transaction.recipient,
+      transaction.timestamp,
+      transaction.description ?? '',
+      transaction.nonce,
+      transaction.expiresAt ?? null,
+    ]);
+  }
+  return JSON.stringify([
+    TRANSACTION_SIGNATURE_VERSION,
+    transaction.id,
+    transaction.amount,
+    transaction.sender,
+    transaction.recipient,
+    transaction.timestamp,
+    transaction.description ?? '',
+  ]);
+};
+
+export const generateSigningKeyPair = async (): Promise<CryptoKeyPair> => {
+  return crypto.subtle.generateKey(SIGNING_KEY_PARAMS, true, ['sign', 'verify']);
+};
 
-export const encryptData = (data: any, secretKey: string): string => {
-  
-  const jsonString = JSON.stringify(data);
-  return btoa(jsonString);
+// Public keys travel inside QR payloads, so they are exported as the compact
+// uncompressed EC point rather than SPKI/JWK.
+export const exportPublicKey = async (publicKey: CryptoKey): Promise<string> => {
+  const raw = await crypto.subtle.exportKey('raw', publicKey);
+  return bytesToBase64(new Uint8Array(raw));
 };
 
+export const importPublicKey = async (publicKey: string): Promise<CryptoKey> => {
+  return crypto.subtle.importKey('raw', base64ToBytes(publicKey), SIGNING_KEY_PARAMS, true, ['verify']);
+};
+
+export const exportPrivateKey = async (privateKey: CryptoKey): Promise<JsonWebKey> => {
+  return crypto.subtle.exportKey('jwk', privateKey);
+};
 
-export const decryptData = (encryptedData: string, secretKey: string): any => {
+export const importPrivateKey = async (privateKey: JsonWebKey): Promise<CryptoKey> => {
+  return crypto.subtle.importKey('jwk', privateKey, SIGNING_KEY_PARAMS, false, ['sign']);
+};
+
+export const sha256Hex = async (data: Uint8Array): Promise<string> => {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+  return Array.from(digest, (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const signData = async (data: string, privateKey: CryptoKey): Promise<string> => {
+  const signature = await crypto.subtle.sign(SIGNATURE_PARAMS, privateKey, new TextEncoder().encode(data));
+  return bytesToBase64(new Uint8Array(signature));
+};
+
+export const verifyData = async (data: string, signature: string, publicKey: string): Promise<boolean> => {
   try {
-    const jsonString = atob(encryptedData);
-    return JSON.parse(jsonString);
+    const key = await importPublicKey(publicKey);
+    return await crypto.subtle.verify(
+      SIGNATURE_PARAMS,
+      key,
+      base64ToBytes(signature),
+      new TextEncoder().encode(data)
+    );
   } catch (error) {
-    console.error("Failed to decrypt data:", error);
-    return null;
+    console.warn('Signature verification failed:', error);
+    return false;
   }
 };
 
+// Envelope written by encryptData. Everything needed to re-derive the key and
+// decrypt (apart from the secret itself) travels with the ciphertext so records
+// stay readable if the KDF parameters are raised in a later version.
+interface EncryptedEnvelope {
+  v: number;
+  alg: 'AES-GCM';
+  kdf: 'PBKDF2-SHA256';
+  iter: number;
+  salt: string;
+  iv: string;
+  ct: string;
+}
 
-export const signTransaction = (transaction: any, privateKey: string): string => {
- 
-  const dataToSign = `${transaction.id}-${transaction.amount}-${transaction.sender}-${transaction.recipient}`;
-  
+export interface EncryptionKey {
+  key: CryptoKey;
+  salt: string;
+  iterations: number;
+}
 
-  let signature = btoa(dataToSign).substring(0, 20);
-  return `sig_${signature}`;
+export const deriveEncryptionKey = async (
+  secret: string,
+  salt: string = bytesToBase64(crypto.getRandomValues(new Uint8Array(16))),
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<EncryptionKey> => {
+  const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), 'PBKDF2', false, [
+    'deriveKey',
+  ]);
+  const key = await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: base64ToBytes(salt), iterations },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+  return { key, salt, iterations };
 };
 
+const parseEnvelope = (encryptedData: string): EncryptedEnvelope | null => {
+  try {
+    const envelope = JSON.parse(encryptedData);
+    if (envelope && typeof envelope === 'object' && typeof envelope.v === 'number' && envelope.ct) {
+      return envelope;
+    }
+  } catch {
+    // Not JSON, so not an envelope
+  }
+  return null;
+};
 
-export const verifySignature = (transaction: any, signature: string, publicKey: string): boolean => {
-  console.log("Verifying signature:", { transaction, signature });
-  
- 
-  if (!signature || !signature.startsWith('sig_')) {
-    console.warn('Invalid signature format:', signature);
+// Records written before envelopes existed are bare base64(JSON).
+export const isLegacyCiphertext = (encryptedData: string): boolean => {
+  return parseEnvelope(encryptedData) === null;
+};
+
+// Nothing authenticates a legacy record, so this is only for the one-time
+// migration that seals them; decryptData refuses them.
+export const decodeLegacyCiphertext = <T = unknown>(encryptedData: string): T => {
+  return JSON.parse(atob(encryptedData));
+};
+
+export const encryptData = async (
+  data: unknown,
+  encryptionKey: EncryptionKey,
+  associatedData = ''
+): Promise<string> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(associatedData) },
+    encryptionKey.key,
+    new TextEncoder().encode(JSON.stringify(data))
+  );
+
+  const envelope: EncryptedEnvelope = {
+    v: ENCRYPTION_VERSION,
+    alg: 'AES-GCM',
+    kdf: 'PBKDF2-SHA256',
+    iter: encryptionKey.iterations,
+    salt: encryptionKey.salt,
+    iv: bytesToBase64(iv),
+    ct: bytesToBase64(new Uint8Array(ciphertext)),
+  };
+  return JSON.stringify(envelope);
+};
+
+// Throws if the record was written under another key or has been modified;
+// callers decide whether that is fatal.
+export const decryptData = async <T = unknown>(
+  encryptedData: string,
+  encryptionKey: EncryptionKey,
+  associatedData = ''
+): Promise<T> => {
+  const envelope = parseEnvelope(encryptedData);
+  if (!envelope) {
+    throw new Error('Not an encrypted envelope');
+  }
+
+  if (envelope.v !== ENCRYPTION_VERSION || envelope.alg !== 'AES-GCM') {
+    throw new Error(`Unsupported encryption envelope v${envelope.v} (${envelope.alg})`);
+  }
+  if (envelope.salt !== encryptionKey.salt || envelope.iter !== encryptionKey.iterations) {
+    throw new Error('Data was encrypted with a different key');
+  }
+
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: base64ToBytes(envelope.iv), additionalData: new TextEncoder().encode(associatedData) },
+    encryptionKey.key,
+    base64ToBytes(envelope.ct)
+  );
+  return JSON.parse(new TextDecoder().decode(plaintext));
+};
+
+// For data that travels between devices (e.g. backups), where the key has to be
+// re-derived from the salt and iteration count recorded in the envelope.
+export const decryptWithSecret = async <T = unknown>(
+  encryptedData: string,
+  secret: string,
+  associatedData = ''
+): Promise<T> => {
+  const envelope = parseEnvelope(encryptedData);
+  if (!envelope) {
+    throw new Error('Not an encrypted envelope');
+  }
+  const encryptionKey = await deriveEncryptionKey(secret, envelope.salt, envelope.iter);
+  return decryptData<T>(encryptedData, encryptionKey, associatedData);
+};
+
+
+export const signTransaction = async (transaction: Transaction, privateKey: CryptoKey): Promise<string> => {
+  return signData(serializeTransactionForSigning(transaction), privateKey);
+};
+
+
+export const verifySignature = async (
+  transaction: Transaction,
+  signature: string,
+  publicKey: string
+): Promise<boolean> => {
+  if (!signature || !publicKey) {
+    console.warn('Missing signature or public key');
     return false;
   }
-  
-  if (!transaction.id || 
-      typeof transaction.amount !== 'number' || 
-      !transaction.sender || 
+
+  if (!transaction.id ||
+      typeof transaction.amount !== 'number' ||
+      !transaction.sender ||
       !transaction.recipient) {
     console.warn('Invalid transaction format', transaction);
     return false;
   }
-  
- 
-  return true;
+
+  return verifyData(serializeTransactionForSigning(transaction), signature, publicKey);
 };
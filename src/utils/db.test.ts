@@ -0,0 +1,111 @@
+import 'fake-indexeddb/auto';
+import type { LegacyBlock } from './blocks';
+import { DB_VERSION, deleteUserDatabase, getDatabase, requestToPromise, setActiveUser } from './db';
+import { blockRepository, creditRepository } from './repositories';
+
+// Opens a user's database at an older schema version, as an earlier release left it
+const openAtVersion = (name: string, version: number, upgrade: (db: IDBDatabase) => void): Promise<IDBDatabase> => {
+  const request = indexedDB.open(name, version);
+  request.onupgradeneeded = () => upgrade(request.result);
+  return requestToPromise(request);
+};
+
+const legacyBlock: LegacyBlock = {
+  index: 0,
+  timestamp: 1700000000000,
+  data: 'Genesis Block',
+  previousHash: '0',
+  hash: 'legacy_genesis',
+  nonce: 0,
+};
+
+afterEach(async () => {
+  await setActiveUser(null);
+  jest.mocked(localStorage.getItem).mockReset();
+  jest.mocked(localStorage.removeItem).mockClear();
+});
+
+describe('User database', () => {
+  test('should create every store and index at the current version', async () => {
+    await setActiveUser('fresh');
+    const db = await getDatabase();
+
+    expect(db.version).toBe(DB_VERSION);
+    expect([...db.objectStoreNames].sort()).toEqual([
+      'bankAccounts',
+      'blocks',
+      'creditAccounts',
+      'creditLedger',
+      'events',
+      'meta',
+      'nullifiers',
+      'quarantine',
+      'transactions',
+    ]);
+    const read = db.transaction(['blocks', 'events'], 'readonly');
+    expect([...read.objectStore('blocks').indexNames].sort()).toEqual(['index', 'timestamp']);
+    expect(read.objectStore('blocks').index('index').keyPath).toBe('header.index');
+    expect([...read.objectStore('events').indexNames].sort()).toEqual(['status', 'timestamp', 'type']);
+    await deleteUserDatabase('fresh');
+  });
+
+  test('should upgrade legacy blocks when migrating from the first version', async () => {
+    const old = await openAtVersion('offpay_upgraded', 1, (db) => {
+      const blocks = db.createObjectStore('blocks', { keyPath: 'hash' });
+      blocks.createIndex('index', 'index');
+      blocks.createIndex('timestamp', 'timestamp');
+      ['transactions', 'creditAccounts', 'creditLedger', 'bankAccounts', 'events', 'meta'].forEach((name) =>
+        db.createObjectStore(name, { keyPath: name === 'creditAccounts' ? 'userId' : name === 'meta' ? 'key' : 'id' })
+      );
+    });
+    const write = old.transaction('blocks', 'readwrite');
+    write.objectStore('blocks').put(legacyBlock);
+    await new Promise((resolve) => (write.oncomplete = resolve));
+    old.close();
+
+    await setActiveUser('upgraded');
+    const [block] = await blockRepository.list();
+
+    expect(block.hash).toBe('legacy_genesis');
+    expect(block.header.index).toBe(0);
+    expect(block.transactions).toEqual([]);
+    await deleteUserDatabase('upgraded');
+  });
+
+  test('should import legacy localStorage data and then drop it', async () => {
+    const history = [
+      { id: 'c1', amount: 50, type: 'credit', transactionId: 'tx1', timestamp: 1700000000000, description: 'Top up' },
+    ];
+    const legacy: Record<string, string> = {
+      offpay_credits_importer: JSON.stringify({ balance: 150, history }),
+      offpay_blockchain: JSON.stringify([legacyBlock]),
+    };
+    jest.mocked(localStorage.getItem).mockImplementation((key) => legacy[key] ?? null);
+
+    await setActiveUser('importer');
+    const credits = await creditRepository.getCredits('importer');
+
+    expect(credits?.balance).toBe(150);
+    expect(credits?.history).toEqual([{ ...history[0], userId: 'importer' }]);
+    expect((await blockRepository.list()).map((block) => block.hash)).toEqual(['legacy_genesis']);
+    expect(localStorage.removeItem).toHaveBeenCalledWith('offpay_credits_importer');
+    expect(localStorage.removeItem).toHaveBeenCalledWith('offpay_blockchain');
+    await deleteUserDatabase('importer');
+  });
+
+  test('should keep each user in their own database', async () => {
+    await setActiveUser('alice');
+    await creditRepository.openAccount('alice', 100);
+    await setActiveUser('bob');
+
+    expect(await creditRepository.getCredits('alice')).toBeNull();
+    await setActiveUser('alice');
+    expect((await creditRepository.getCredits('alice'))?.balance).toBe(100);
+    await deleteUserDatabase('alice');
+    await deleteUserDatabase('bob');
+  });
+
+  test('should refuse to read or write without an active user', async () => {
+    await expect(getDatabase()).rejects.toThrow('No active user');
+  });
+});
@@ -0,0 +1,425 @@
+import type {
+  Block,
+  CreditAccount,
+  CreditLedgerEntry,
+  PaymentEventRecord,
+  QuarantinedBlock,
+  SpentNullifier,
+  StoredBankAccount,
+  StoredTransaction,
+} from "../types"
+import { type LegacyBlock, fromLegacyBlock, isLegacyBlock, normalizeBlock } from "./blocks"
+
+// Each signed-in user gets their own database; "offpay" on its own is the
+// shared database earlier versions wrote every user's records into
+const DB_NAME_PREFIX = "offpay"
+const LEGACY_SHARED_DB_NAME = "offpay"
+export const DB_VERSION = 5
+
+export interface MetaRecord {
+  key: string
+  value: unknown
+}
+
+export interface StoreMap {
+  transactions: StoredTransaction
+  blocks: Block
+  creditAccounts: CreditAccount
+  creditLedger: CreditLedgerEntry
+  bankAccounts: StoredBankAccount
+  events: PaymentEventRecord
+  meta: MetaRecord
+  quarantine: QuarantinedBlock
+  nullifiers: SpentNullifier
+}
+
+export type StoreName = keyof StoreMap
+
+// Each entry upgrades the schema from version `index` to `index + 1`. Never
+// edit a shipped migration; append a new one and bump DB_VERSION.
+const migrations: ((db: IDBDatabase, transaction: IDBTransaction) => void)[] = [
+  (db) => {
+    const transactions = db.createObjectStore("transactions", { keyPath: "id" })
+    transactions.createIndex("status", "status")
+    transactions.createIndex("timestamp", "timestamp")
+
+    const blocks = db.createObjectStore("blocks", { keyPath: "hash" })
+    blocks.createIndex("index", "index")
+    blocks.createIndex("timestamp", "timestamp")
+
+    db.createObjectStore("creditAccounts", { keyPath: "userId" })
+
+    const creditLedger = db.createObjectStore("creditLedger", { keyPath: "id" })
+    creditLedger.createIndex("userId", "userId")
+    creditLedger.createIndex("transactionId", "transactionId")
+    creditLedger.createIndex("timestamp", "timestamp")
+
+    const bankAccounts = db.createObjectStore("bankAccounts", { keyPath: "id" })
+    bankAccounts.createIndex("userId", "userId")
+
+    const events = db.createObjectStore("events", { keyPath: "id" })
+    events.createIndex("type", "type")
+    events.createIndex("timestamp", "timestamp")
+
+    db.createObjectStore("meta", { keyPath: "key" })
+  },
+  // Blocks gained a typed header and a transaction list
+  (_db, transaction) => {
+    const blocks = transaction.objectStore("blocks")
+    blocks.deleteIndex("index")
+    blocks.deleteIndex("timestamp")
+    blocks.createIndex("index", "header.index")
+    blocks.createIndex("timestamp", "header.timestamp")
+
+    const request = blocks.openCursor()
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (!cursor) return
+      if (isLegacyBlock(cursor.value)) {
+        cursor.update(fromLegacyBlock(cursor.value))
+      }
+      cursor.continue()
+    }
+  },
+  // Blocks that fail validation are set aside here instead of being deleted
+  (db) => {
+    const quarantine = db.createObjectStore("quarantine", { keyPath: "hash" })
+    quarantine.createIndex("quarantinedAt", "quarantinedAt")
+  },
+  (db) => {
+    const nullifiers = db.createObjectStore("nullifiers", { keyPath: "nullifier" })
+    nullifiers.createIndex("sender", "sender")
+  },
+  // The event log doubles as the outbox and inbox
+  (_db, transaction) => {
+    transaction.objectStore("events").createIndex("status", "status")
+  },
+]
+
+let activeUserId: string | null = null
+let databasePromise: Promise<IDBDatabase> | null = null
+const activeUserListeners = new Set<(userId: string | null) => void>()
+
+const getDatabaseName = (userId: string) => `${DB_NAME_PREFIX}_${userId}`
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error ?? new Error("Transaction aborted"))
+  })
+}
+
+const openDatabase = (userId: string): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available"))
+      return
+    }
+
+    const request = indexedDB.open(getDatabaseName(userId), DB_VERSION)
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        migrations[version](db, request.transaction!)
+      }
+    }
+
+    request.onsuccess = () => {
+      const db = request.result
+      // Another tab upgraded the schema; close so its upgrade isn't blocked
+      db.onversionchange = () => {
+        db.close()
+        if (activeUserId === userId) {
+          databasePromise = null
+        }
+      }
+      resolve(db)
+    }
+    request.onerror = () => reject(request.error)
+    request.onblocked = () => console.warn("Database upgrade is blocked by another open tab")
+  })
+}
+
+export const getActiveUserId = (): string | null => {
+  return activeUserId
+}
+
+// Closes the previous user's database; nothing is read or written until a
+// user is active again
+export const setActiveUser = async (userId: string | null): Promise<void> => {
+  if (userId === activeUserId) {
+    return
+  }
+
+  const previous = databasePromise
+  activeUserId = userId
+  databasePromise = null
+  activeUserListeners.forEach((listener) => listener(userId))
+
+  if (previous) {
+    try {
+      ;(await previous).close()
+    } catch {
+      // Opening failed, so there is nothing to close
+    }
+  }
+}
+
+export const onActiveUserChange = (listener: (userId: string | null) => void): (() => void) => {
+  activeUserListeners.add(listener)
+  return () => {
+    activeUserListeners.delete(listener)
+  }
+}
+
+export const getDatabase = (): Promise<IDBDatabase> => {
+  const userId = activeUserId
+  if (!userId) {
+    return Promise.reject(new Error("No active user"))
+  }
+
+  if (!databasePromise) {
+    const opening: Promise<IDBDatabase> = openDatabase(userId)
+      .then(async (db) => {
+        await importLegacyStorage(db, userId)
+        return db
+      })
+      .catch((error) => {
+        if (databasePromise === opening) {
+          databasePromise = null
+        }
+        throw error
+      })
+    databasePromise = opening
+  }
+  return databasePromise
+}
+
+export const deleteUserDatabase = async (userId: string): Promise<void> => {
+  if (userId === activeUserId) {
+    await setActiveUser(null)
+  }
+  await requestToPromise(indexedDB.deleteDatabase(getDatabaseName(userId)))
+}
+
+// Runs `work` inside a single IndexedDB transaction and resolves once it has
+// committed, so multi-store writes either all land or none do. `work` may only
+// await requests made on `transaction`, otherwise it auto-commits early.
+export const withStores = async <T>(
+  storeNames: StoreName | StoreName[],
+  mode: IDBTransactionMode,
+  work: (transaction: IDBTransaction) => T | Promise<T>,
+): Promise<T> => {
+  const db = await getDatabase()
+  const transaction = db.transaction(storeNames, mode)
+  const done = transactionDone(transaction)
+  const result = await work(transaction)
+  await done
+  return result
+}
+
+export const getRecord = <S extends StoreName>(storeName: S, key: IDBValidKey): Promise<StoreMap[S] | undefined> => {
+  return withStores(storeName, "readonly", (transaction) =>
+    requestToPromise<StoreMap[S] | undefined>(transaction.objectStore(storeName).get(key)),
+  )
+}
+
+export const getAllRecords = <S extends StoreName>(storeName: S): Promise<StoreMap[S][]> => {
+  return withStores(storeName, "readonly", (transaction) =>
+    requestToPromise<StoreMap[S][]>(transaction.objectStore(storeName).getAll()),
+  )
+}
+
+export const getRecordsByIndex = <S extends StoreName>(
+  storeName: S,
+  indexName: string,
+  query?: IDBValidKey | IDBKeyRange,
+): Promise<StoreMap[S][]> => {
+  return withStores(storeName, "readonly", (transaction) =>
+    requestToPromise<StoreMap[S][]>(transaction.objectStore(storeName).index(indexName).getAll(query)),
+  )
+}
+
+export const putRecords = <S extends StoreName>(storeName: S, records: StoreMap[S][]): Promise<void> => {
+  return withStores(storeName, "readwrite", (transaction) => {
+    const store = transaction.objectStore(storeName)
+    records.forEach((record) => store.put(record))
+  })
+}
+
+export const putRecord = <S extends StoreName>(storeName: S, record: StoreMap[S]): Promise<void> => {
+  return putRecords(storeName, [record])
+}
+
+export const deleteRecord = (storeName: StoreName, key: IDBValidKey): Promise<void> => {
+  return withStores(storeName, "readwrite", (transaction) => {
+    transaction.objectStore(storeName).delete(key)
+  })
+}
+
+export const clearStore = (storeName: StoreName): Promise<void> => {
+  return withStores(storeName, "readwrite", (transaction) => {
+    transaction.objectStore(storeName).clear()
+  })
+}
+
+// One-time import of data earlier versions kept outside the per-user database:
+// JSON blobs in localStorage, then a single IndexedDB database shared by every
+// user. Wallet, vault and PIN records are small per-user entries and stay in
+// localStorage.
+const LEGACY_IMPORT_KEY = "legacyImportCompleted"
+const LEGACY_TRANSACTIONS_KEY = "offpay_transactions"
+const LEGACY_BLOCKCHAIN_KEY = "offpay_blockchain"
+const LEGACY_CREDITS_PREFIX = "offpay_credits_"
+const LEGACY_BANK_ACCOUNTS_PREFIX = "offpay_bank_accounts_"
+
+const readLegacyJson = <T>(key: string): T | null => {
+  const stored = localStorage.getItem(key)
+  if (!stored) {
+    return null
+  }
+
+  try {
+    return JSON.parse(stored)
+  } catch (error) {
+    console.error(`Failed to parse legacy storage key ${key}`, error)
+    return null
+  }
+}
+
+// Resolves null instead of creating the shared database when it doesn't exist
+const openLegacySharedDatabase = (): Promise<IDBDatabase | null> => {
+  return new Promise((resolve) => {
+    const request = indexedDB.open(LEGACY_SHARED_DB_NAME)
+    request.onupgradeneeded = () => request.transaction!.abort()
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => resolve(null)
+  })
+}
+
+const importLegacyStorage = async (db: IDBDatabase, userId: string): Promise<void> => {
+  const marker = await requestToPromise<MetaRecord | undefined>(
+    db.transaction("meta", "readonly").objectStore("meta").get(LEGACY_IMPORT_KEY),
+  )
+  if (marker) {
+    return
+  }
+
+  const sharedDb = await openLegacySharedDatabase()
+  const shared = {
+    blocks: [] as (Block | LegacyBlock)[],
+    creditAccounts: [] as CreditAccount[],
+    creditLedger: [] as CreditLedgerEntry[],
+    bankAccounts: [] as StoredBankAccount[],
+  }
+  if (sharedDb) {
+    const read = sharedDb.transaction(["blocks", "creditAccounts", "creditLedger", "bankAccounts"], "readonly")
+    shared.blocks = await requestToPromise<(Block | LegacyBlock)[]>(read.objectStore("blocks").getAll())
+    shared.creditAccounts = await requestToPromise<CreditAccount[]>(read.objectStore("creditAccounts").getAll())
+    shared.creditLedger = await requestToPromise<CreditLedgerEntry[]>(read.objectStore("creditLedger").getAll())
+    shared.bankAccounts = await requestToPromise<StoredBankAccount[]>(read.objectStore("bankAccounts").getAll())
+  }
+
+  const importedKeys: string[] = []
+  const transaction = db.transaction(["blocks", "creditAccounts", "creditLedger", "bankAccounts", "meta"], "readwrite")
+  const done = transactionDone(transaction)
+
+  // The chain was never tied to a user, so whoever signs in first inherits it
+  const legacyBlocks = readLegacyJson<LegacyBlock[]>(LEGACY_BLOCKCHAIN_KEY)
+  const blocks = legacyBlocks ?? shared.blocks
+  blocks.forEach((block) => transaction.objectStore("blocks").put(normalizeBlock(block)))
+  if (legacyBlocks) {
+    importedKeys.push(LEGACY_BLOCKCHAIN_KEY)
+  }
+
+  const credits = readLegacyJson<{ balance: number; history: CreditLedgerEntry[] }>(`${LEGACY_CREDITS_PREFIX}${userId}`)
+  if (credits) {
+    transaction.objectStore("creditAccounts").put({ userId, balance: credits.balance, updatedAt: Date.now() })
+    credits.history.forEach((entry) => transaction.objectStore("creditLedger").put({ ...entry, userId }))
+    importedKeys.push(`${LEGACY_CREDITS_PREFIX}${userId}`)
+  }
+
+  const bankAccounts = readLegacyJson<{ accounts: StoredBankAccount[] }>(`${LEGACY_BANK_ACCOUNTS_PREFIX}${userId}`)
+  if (bankAccounts) {
+    bankAccounts.accounts.forEach((account) => transaction.objectStore("bankAccounts").put({ ...account, userId }))
+    importedKeys.push(`${LEGACY_BANK_ACCOUNTS_PREFIX}${userId}`)
+  }
+
+  shared.creditAccounts
+    .filter((account) => account.userId === userId)
+    .forEach((account) => transaction.objectStore("creditAccounts").put(account))
+  shared.creditLedger
+    .filter((entry) => entry.userId === userId)
+    .forEach((entry) => transaction.objectStore("creditLedger").put(entry))
+  shared.bankAccounts
+    .filter((account) => account.userId === userId)
+    .forEach((account) => transaction.objectStore("bankAccounts").put(account))
+
+  transaction.objectStore("meta").put({ key: LEGACY_IMPORT_KEY, value: Date.now() })
+  await done
+
+  // Only drop the old copies once the import has committed
+  importedKeys.forEach((key) => localStorage.removeItem(key))
+  if (sharedDb) {
+    const cleanup = sharedDb.transaction(["blocks", "creditAccounts", "creditLedger", "bankAccounts"], "readwrite")
+    if (!legacyBlocks) {
+      cleanup.objectStore("blocks").clear()
+    }
+    cleanup.objectStore("creditAccounts").delete(userId)
+    shared.creditLedger
+      .filter((entry) => entry.userId === userId)
+      .forEach((entry) => cleanup.objectStore("creditLedger").delete(entry.id))
+    shared.bankAccounts
+      .filter((account) => account.userId === userId)
+      .forEach((account) => cleanup.objectStore("bankAccounts").delete(account.id))
+    await transactionDone(cleanup)
+    sharedDb.close()
+  }
+}
+
+// Transactions are encrypted under their owner's vault key, so they can only be
+// attributed to a user once that user has unlocked. These two helpers let the
+// storage layer claim the records it can open and leave the rest for others.
+export const listUnclaimedTransactions = async (): Promise<StoredTransaction[]> => {
+  const unclaimed = readLegacyJson<StoredTransaction[]>(LEGACY_TRANSACTIONS_KEY) ?? []
+
+  const sharedDb = await openLegacySharedDatabase()
+  if (sharedDb) {
+    const read = sharedDb.transaction("transactions", "readonly")
+    unclaimed.push(...(await requestToPromise<StoredTransaction[]>(read.objectStore("transactions").getAll())))
+    sharedDb.close()
+  }
+
+  return unclaimed
+}
+
+export const releaseClaimedTransactions = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) {
+    return
+  }
+
+  const claimed = new Set(ids)
+  const remaining = (readLegacyJson<StoredTransaction[]>(LEGACY_TRANSACTIONS_KEY) ?? []).filter((t) => !claimed.has(t.id))
+  if (remaining.length > 0) {
+    localStorage.setItem(LEGACY_TRANSACTIONS_KEY, JSON.stringify(remaining))
+  } else {
+    localStorage.removeItem(LEGACY_TRANSACTIONS_KEY)
+  }
+
+  const sharedDb = await openLegacySharedDatabase()
+  if (sharedDb) {
+    const cleanup = sharedDb.transaction("transactions", "readwrite")
+    ids.forEach((id) => cleanup.objectStore("transactions").delete(id))
+    await transactionDone(cleanup)
+    sharedDb.close()
+  }
+}
@@ -0,0 +1,72 @@
+import type { MerchantQR } from '../types';
+import {
+  crc16,
+  decodeMerchantQR,
+  encodeMerchantQR,
+  isMerchantQR,
+  toPaymentRequestTerms,
+  toUpiPaymentLink,
+} from './emvco';
+
+const makeMerchant = (overrides: Partial<MerchantQR> = {}): MerchantQR => ({
+  isDynamic: false,
+  merchantName: 'Corner Cafe',
+  merchantCity: 'Bengaluru',
+  merchantCategoryCode: '5812',
+  currency: '356',
+  countryCode: 'IN',
+  walletAddress: 'wallet-abc',
+  ...overrides,
+});
+
+describe('EMVCo merchant QR codes', () => {
+  test('should compute the CRC-16/CCITT-FALSE check value', () => {
+    expect(crc16('123456789')).toBe('29B1');
+  });
+
+  test('should round-trip a merchant code', () => {
+    const merchant = makeMerchant({ isDynamic: true, amount: 120.5, upiAddress: 'cafe@okaxis', reference: 'ORD42' });
+    const text = encodeMerchantQR(merchant);
+
+    expect(isMerchantQR(text)).toBe(true);
+    expect(decodeMerchantQR(text)).toEqual(merchant);
+  });
+
+  test('should reject a code whose checksum does not match', () => {
+    const text = encodeMerchantQR(makeMerchant());
+    const tampered = text.replace('Corner Cafe', 'Corner Cafa');
+
+    expect(() => decodeMerchantQR(tampered)).toThrow('checksum');
+    expect(() => encodeMerchantQR(makeMerchant({ walletAddress: undefined }))).toThrow('payment account');
+  });
+
+  test('should ask the payer for an amount on a static code', () => {
+    const terms = toPaymentRequestTerms(decodeMerchantQR(encodeMerchantQR(makeMerchant())), 1700000000000);
+
+    expect(terms).toMatchObject({
+      intent: 'open-amount',
+      payee: 'wallet-abc',
+      payeeName: 'Corner Cafe',
+      description: 'Corner Cafe, Bengaluru',
+    });
+    expect(terms?.amount).toBeUndefined();
+    expect(terms!.expiresAt).toBeGreaterThan(1700000000000);
+  });
+
+  test('should fall back to UPI for a code without an OffPay wallet', () => {
+    const merchant = makeMerchant({ walletAddress: undefined, upiAddress: 'cafe@okaxis', amount: 99 });
+
+    expect(toPaymentRequestTerms(merchant)).toBeNull();
+    expect(toUpiPaymentLink(merchant)).toEqual({
+      payeeAddress: 'cafe@okaxis',
+      payeeName: 'Corner Cafe',
+      amount: 99,
+      currency: 'INR',
+      merchantCode: '5812',
+    });
+  });
+
+  test('should refuse currencies other than rupees', () => {
+    expect(() => toPaymentRequestTerms(makeMerchant({ currency: '840' }))).toThrow("840 aren't supported");
+  });
+});
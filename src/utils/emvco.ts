@@ -0,0 +1,235 @@
+import type { MerchantQR, PaymentRequestTerms, UpiPaymentLink } from "../types"
+import { generateId } from "./crypto"
+import { QR_VALIDITY_MS } from "./replay"
+
+// EMVCo merchant-presented QR (MPM): a flat run of fields, each a two digit
+// tag, a two digit length and the value, ending in a CRC over everything else
+const TAG_PAYLOAD_FORMAT = "00"
+const TAG_INITIATION = "01"
+const TAG_CATEGORY_CODE = "52"
+const TAG_CURRENCY = "53"
+const TAG_AMOUNT = "54"
+const TAG_COUNTRY = "58"
+const TAG_MERCHANT_NAME = "59"
+const TAG_MERCHANT_CITY = "60"
+const TAG_POSTAL_CODE = "61"
+const TAG_ADDITIONAL_DATA = "62"
+const TAG_CRC = "63"
+
+// Merchant account information templates live in tags 26-51; sub-tag 00 names
+// the payment network and the rest are up to that network
+const TAG_TEMPLATE_GUID = "00"
+const TAG_TEMPLATE_ACCOUNT = "01"
+// Sub-tag of additional data
+const TAG_BILL_NUMBER = "01"
+
+const PAYLOAD_FORMAT = "01"
+const INITIATION_STATIC = "11"
+const INITIATION_DYNAMIC = "12"
+
+export const OFFPAY_MERCHANT_GUID = "app.offpay"
+const UPI_MERCHANT_GUID = "A000000677010111"
+const OFFPAY_TEMPLATE_TAG = "26"
+const UPI_TEMPLATE_TAG = "27"
+
+export const INR_CURRENCY_CODE = "356"
+
+// Longest values the spec allows
+const MAX_MERCHANT_NAME = 25
+const MAX_MERCHANT_CITY = 15
+const MAX_FIELD_LENGTH = 99
+
+const AMOUNT_PATTERN = /^\d+(\.\d{1,2})?$/
+const CATEGORY_CODE_PATTERN = /^\d{4}$/
+
+// CRC-16/CCITT-FALSE, as EMVCo specifies
+export const crc16 = (text: string): string => {
+  let crc = 0xffff
+  for (const byte of new TextEncoder().encode(text)) {
+    crc ^= byte << 8
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, "0")
+}
+
+const encodeField = (tag: string, value: string): string => {
+  if (value.length > MAX_FIELD_LENGTH) {
+    throw new Error(`EMVCo field ${tag} is longer than ${MAX_FIELD_LENGTH} characters`)
+  }
+  return `${tag}${value.length.toString().padStart(2, "0")}${value}`
+}
+
+const readFields = (text: string): Map<string, string> => {
+  const fields = new Map<string, string>()
+  let offset = 0
+  while (offset < text.length) {
+    const tag = text.slice(offset, offset + 2)
+    const length = Number(text.slice(offset + 2, offset + 4))
+    if (!/^\d{2}$/.test(tag) || !Number.isInteger(length) || offset + 4 + length > text.length) {
+      throw new Error("Invalid merchant QR code: damaged field")
+    }
+    fields.set(tag, text.slice(offset + 4, offset + 4 + length))
+    offset += 4 + length
+  }
+  return fields
+}
+
+// Payment format indicator `01` always comes first
+export const isMerchantQR = (text: string): boolean => text.trim().startsWith("000201")
+
+// Throws with a message suitable for showing to the user
+export const decodeMerchantQR = (text: string): MerchantQR => {
+  const trimmed = text.trim()
+
+  // The CRC is always the last field and covers its own tag and length
+  const crcField = trimmed.slice(-8)
+  if (!crcField.startsWith(`${TAG_CRC}04`) || crc16(trimmed.slice(0, -4)) !== crcField.slice(4).toUpperCase()) {
+    throw new Error("Merchant QR code failed its checksum. Please scan it again.")
+  }
+
+  const fields = readFields(trimmed.slice(0, -8))
+  if (fields.get(TAG_PAYLOAD_FORMAT) !== PAYLOAD_FORMAT) {
+    throw new Error("Invalid merchant QR code: unknown format")
+  }
+
+  const required = (tag: string, name: string) => {
+    const value = fields.get(tag)?.trim()
+    if (!value) {
+      throw new Error(`Invalid merchant QR code: missing ${name}`)
+    }
+    return value
+  }
+
+  const merchantCategoryCode = required(TAG_CATEGORY_CODE, "merchant category")
+  if (!CATEGORY_CODE_PATTERN.test(merchantCategoryCode)) {
+    throw new Error("Invalid merchant QR code: malformed merchant category")
+  }
+
+  const rawAmount = fields.get(TAG_AMOUNT)
+  let amount: number | undefined
+  if (rawAmount !== undefined) {
+    amount = Number.parseFloat(rawAmount)
+    if (!AMOUNT_PATTERN.test(rawAmount) || amount <= 0) {
+      throw new Error("Invalid merchant QR code: malformed amount")
+    }
+  }
+
+  let walletAddress: string | undefined
+  let upiAddress: string | undefined
+  for (let tag = 26; tag <= 51; tag++) {
+    const template = fields.get(tag.toString())
+    if (template === undefined) continue
+
+    const account = readFields(template)
+    const guid = account.get(TAG_TEMPLATE_GUID)
+    if (guid === OFFPAY_MERCHANT_GUID) {
+      walletAddress = account.get(TAG_TEMPLATE_ACCOUNT)
+    } else if (guid?.toUpperCase() === UPI_MERCHANT_GUID) {
+      upiAddress = account.get(TAG_TEMPLATE_ACCOUNT)
+    }
+  }
+
+  const additionalData = fields.get(TAG_ADDITIONAL_DATA)
+  const reference = additionalData ? readFields(additionalData).get(TAG_BILL_NUMBER) : undefined
+  const postalCode = fields.get(TAG_POSTAL_CODE)
+
+  return {
+    isDynamic: fields.get(TAG_INITIATION) === INITIATION_DYNAMIC,
+    merchantName: required(TAG_MERCHANT_NAME, "merchant name"),
+    merchantCity: required(TAG_MERCHANT_CITY, "merchant city"),
+    merchantCategoryCode,
+    currency: required(TAG_CURRENCY, "currency"),
+    ...(amount !== undefined && { amount }),
+    countryCode: required(TAG_COUNTRY, "country"),
+    ...(postalCode && { postalCode }),
+    ...(walletAddress && { walletAddress }),
+    ...(upiAddress && { upiAddress }),
+    ...(reference && { reference }),
+  }
+}
+
+export const encodeMerchantQR = (merchant: MerchantQR): string => {
+  if (!merchant.walletAddress && !merchant.upiAddress) {
+    throw new Error("A merchant QR code needs at least one payment account")
+  }
+
+  const fields = [
+    encodeField(TAG_PAYLOAD_FORMAT, PAYLOAD_FORMAT),
+    encodeField(TAG_INITIATION, merchant.isDynamic ? INITIATION_DYNAMIC : INITIATION_STATIC),
+  ]
+  if (merchant.walletAddress) {
+    fields.push(
+      encodeField(
+        OFFPAY_TEMPLATE_TAG,
+        encodeField(TAG_TEMPLATE_GUID, OFFPAY_MERCHANT_GUID) + encodeField(TAG_TEMPLATE_ACCOUNT, merchant.walletAddress),
+      ),
+    )
+  }
+  if (merchant.upiAddress) {
+    fields.push(
+      encodeField(
+        UPI_TEMPLATE_TAG,
+        encodeField(TAG_TEMPLATE_GUID, UPI_MERCHANT_GUID) + encodeField(TAG_TEMPLATE_ACCOUNT, merchant.upiAddress),
+      ),
+    )
+  }
+  fields.push(
+    encodeField(TAG_CATEGORY_CODE, merchant.merchantCategoryCode),
+    encodeField(TAG_CURRENCY, merchant.currency),
+  )
+  if (merchant.amount !== undefined) {
+    fields.push(encodeField(TAG_AMOUNT, merchant.amount.toFixed(2)))
+  }
+  fields.push(
+    encodeField(TAG_COUNTRY, merchant.countryCode),
+    encodeField(TAG_MERCHANT_NAME, merchant.merchantName.slice(0, MAX_MERCHANT_NAME)),
+    encodeField(TAG_MERCHANT_CITY, merchant.merchantCity.slice(0, MAX_MERCHANT_CITY)),
+  )
+  if (merchant.postalCode) {
+    fields.push(encodeField(TAG_POSTAL_CODE, merchant.postalCode))
+  }
+  if (merchant.reference) {
+    fields.push(encodeField(TAG_ADDITIONAL_DATA, encodeField(TAG_BILL_NUMBER, merchant.reference)))
+  }
+
+  const body = `${fields.join("")}${TAG_CRC}04`
+  return body + crc16(body)
+}
+
+// Terms for paying the merchant's OffPay wallet, or null if the code only
+// carries other networks. Codes aren't signed, so each payment gets its own id.
+export const toPaymentRequestTerms = (merchant: MerchantQR, now: number = Date.now()): PaymentRequestTerms | null => {
+  if (!merchant.walletAddress) {
+    return null
+  }
+  if (merchant.currency !== INR_CURRENCY_CODE) {
+    throw new Error(`Merchant codes in currency ${merchant.currency} aren't supported`)
+  }
+
+  return {
+    id: generateId(),
+    intent: merchant.amount === undefined ? "open-amount" : "request",
+    payee: merchant.walletAddress,
+    payeeName: merchant.merchantName,
+    ...(merchant.amount !== undefined && { amount: merchant.amount }),
+    description: `${merchant.merchantName}, ${merchant.merchantCity}`,
+    expiresAt: now + QR_VALIDITY_MS,
+  }
+}
+
+export const toUpiPaymentLink = (merchant: MerchantQR): UpiPaymentLink | null => {
+  if (!merchant.upiAddress || merchant.currency !== INR_CURRENCY_CODE) {
+    return null
+  }
+
+  return {
+    payeeAddress: merchant.upiAddress,
+    payeeName: merchant.merchantName,
+    ...(merchant.amount !== undefined && { amount: merchant.amount }),
+    currency: "INR",
+    ...(merchant.reference && { reference: merchant.reference }),
+    merchantCode: merchant.merchantCategoryCode,
+  }
+}
@@ -0,0 +1,61 @@
+import type { Block } from "../types"
+import { getExpectedAttempts } from "./miner"
+
+// Where another device's blocks leave this chain. `removed` are this chain's
+// blocks after the common ancestor, `added` the other side's.
+export interface ChainFork {
+  // -1 when the two don't even share a genesis block
+  ancestorIndex: number
+  removed: Block[]
+  added: Block[]
+  // This chain up to the ancestor, then the other side's blocks
+  candidate: Block[]
+  // Both share everything up to the ancestor, so only the branches are weighed
+  removedWork: number
+  addedWork: number
+}
+
+// Hashes expected to find the block, so a few hard blocks can outweigh many easy ones
+export const getBlockWork = (block: Block): number => getExpectedAttempts(block.header.difficulty)
+
+export const getCumulativeWork = (blocks: Block[]): number =>
+  blocks.reduce((work, block) => work + getBlockWork(block), 0)
+
+// Index in `chain` of the last block `blocks` shares with it, counting the block
+// the first of them builds on. -1 when they have nothing in common.
+export const findCommonAncestor = (chain: Block[], blocks: Block[]): number => {
+  const indexByHash = new Map(chain.map((block, i) => [block.hash, i]))
+  for (let i = blocks.length - 1; i >= 0; i--) {
+    const index = indexByHash.get(blocks[i].hash)
+    if (index !== undefined) return index
+  }
+  return blocks.length > 0 ? (indexByHash.get(blocks[0].header.previousHash) ?? -1) : -1
+}
+
+// Null when `blocks` can't be placed against `chain`: they share no block with
+// it and don't start at a genesis of their own, or they skip blocks past the
+// ancestor. Nothing here is validated.
+export const compareChains = (chain: Block[], blocks: Block[]): ChainFork | null => {
+  const ancestorIndex = findCommonAncestor(chain, blocks)
+  const known = new Set(chain.map((block) => block.hash))
+  const added = blocks.filter((block) => !known.has(block.hash))
+
+  const expectedPrevious = ancestorIndex === -1 ? null : chain[ancestorIndex].hash
+  if (added.length > 0) {
+    const joins =
+      expectedPrevious === null ? added[0].header.index === 0 : added[0].header.previousHash === expectedPrevious
+    if (!joins) return null
+  } else if (ancestorIndex === -1) {
+    return null
+  }
+
+  const removed = chain.slice(ancestorIndex + 1)
+  return {
+    ancestorIndex,
+    removed,
+    added,
+    candidate: [...chain.slice(0, ancestorIndex + 1), ...added],
+    removedWork: getCumulativeWork(removed),
+    addedWork: getCumulativeWork(added),
+  }
+}
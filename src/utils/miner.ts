@@ -0,0 +1,150 @@
+import type { BlockHeader } from "../types"
+import { calculateHeaderHash, meetsDifficulty } from "./blocks"
+
+// Hashes tried between progress reports, and between yields to the event loop
+// when mining on the main thread
+export const MINING_BATCH_SIZE = 2000
+
+export interface MiningProgress {
+  attempts: number
+  // Expected number of hashes for this difficulty; attempts can exceed it
+  expectedAttempts: number
+}
+
+export interface MiningOptions {
+  onProgress?: (progress: MiningProgress) => void
+  signal?: AbortSignal
+}
+
+export interface MiningResult {
+  nonce: number
+  hash: string
+}
+
+export type MinerRequest = { type: "mine"; header: BlockHeader }
+
+export type MinerResponse =
+  | { type: "progress"; attempts: number }
+  | { type: "found"; nonce: number; hash: string; attempts: number }
+  | { type: "error"; message: string }
+
+type MinerWorkerFactory = () => Worker
+
+let createMinerWorker: MinerWorkerFactory | null = null
+
+// The worker is created by the app entry point so bundler-specific worker
+// imports stay out of modules that also run under tests
+export const registerMinerWorker = (factory: MinerWorkerFactory): void => {
+  createMinerWorker = factory
+}
+
+export const getExpectedAttempts = (difficulty: number): number => 16 ** difficulty
+
+// Tries nonces from header.nonce + 1 upwards, calling `onBatch` after every
+// MINING_BATCH_SIZE hashes. Shared by the worker and the main-thread fallback.
+export const searchNonce = (
+  header: BlockHeader,
+  onBatch: (attempts: number) => boolean | void,
+): (MiningResult & { attempts: number }) | null => {
+  const candidate = { ...header }
+  let attempts = 0
+
+  for (;;) {
+    candidate.nonce++
+    attempts++
+    const hash = calculateHeaderHash(candidate)
+    if (meetsDifficulty(hash, candidate.difficulty)) {
+      return { nonce: candidate.nonce, hash, attempts }
+    }
+    // Returning false from onBatch stops the search
+    if (attempts % MINING_BATCH_SIZE === 0 && onBatch(attempts) === false) {
+      return null
+    }
+  }
+}
+
+const cancelledError = () => new Error("Mining cancelled")
+
+const mineInWorker = (header: BlockHeader, options: MiningOptions, worker: Worker): Promise<MiningResult> => {
+  const expectedAttempts = getExpectedAttempts(header.difficulty)
+
+  return new Promise((resolve, reject) => {
+    // The worker's loop never yields, so cancelling means terminating it
+    const finish = () => {
+      worker.terminate()
+      options.signal?.removeEventListener("abort", handleAbort)
+    }
+    const handleAbort = () => {
+      finish()
+      reject(cancelledError())
+    }
+
+    worker.onmessage = (event: MessageEvent<MinerResponse>) => {
+      const message = event.data
+      if (message.type === "progress") {
+        options.onProgress?.({ attempts: message.attempts, expectedAttempts })
+      } else if (message.type === "found") {
+        finish()
+        options.onProgress?.({ attempts: message.attempts, expectedAttempts })
+        resolve({ nonce: message.nonce, hash: message.hash })
+      } else {
+        finish()
+        reject(new Error(message.message))
+      }
+    }
+    worker.onerror = (event) => {
+      finish()
+      reject(new Error(event.message || "Mining worker failed"))
+    }
+
+    options.signal?.addEventListener("abort", handleAbort)
+    const request: MinerRequest = { type: "mine", header }
+    worker.postMessage(request)
+  })
+}
+
+// Fallback when no worker is registered: mines in batches and yields between
+// them so the UI keeps rendering
+const mineOnMainThread = async (header: BlockHeader, options: MiningOptions): Promise<MiningResult> => {
+  const expectedAttempts = getExpectedAttempts(header.difficulty)
+  let start = { ...header }
+  let totalAttempts = 0
+
+  for (;;) {
+    if (options.signal?.aborted) {
+      throw cancelledError()
+    }
+
+    let batchAttempts = 0
+    const result = searchNonce(start, (attempts) => {
+      batchAttempts = attempts
+      return false
+    })
+
+    if (result) {
+      totalAttempts += result.attempts
+      options.onProgress?.({ attempts: totalAttempts, expectedAttempts })
+      return { nonce: result.nonce, hash: result.hash }
+    }
+
+    totalAttempts += batchAttempts
+    start = { ...start, nonce: start.nonce + batchAttempts }
+    options.onProgress?.({ attempts: totalAttempts, expectedAttempts })
+    await new Promise((resolve) => setTimeout(resolve, 0))
+  }
+}
+
+export const mineHeader = (header: BlockHeader, options: MiningOptions = {}): Promise<MiningResult> => {
+  if (options.signal?.aborted) {
+    return Promise.reject(cancelledError())
+  }
+
+  if (createMinerWorker) {
+    try {
+      return mineInWorker(header, options, createMinerWorker())
+    } catch (error) {
+      console.warn("Mining worker unavailable, mining on the main thread", error)
+    }
+  }
+  return mineOnMainThread(header, options)
+}
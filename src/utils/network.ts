@@ -1,13 +1,21 @@
 
 
 import { NetworkState } from '../types';
+import { getActiveUserId } from './db';
+
+// Sync state is per user; nothing has been synced while signed out
+const getLastSyncedKey = (): string | null => {
+  const userId = getActiveUserId();
+  return userId ? `offpay_last_synced_${userId}` : null;
+};
 
 
 export const getNetworkState = (): NetworkState => {
   const isOnline = navigator.onLine;
   
   
-  const lastSyncedStr = localStorage.getItem('last_synced');
+  const lastSyncedKey = getLastSyncedKey();
+  const lastSyncedStr = lastSyncedKey ? localStorage.getItem(lastSyncedKey) : null;
   const lastSynced = lastSyncedStr ? parseInt(lastSyncedStr, 10) : null;
   
   return {
@@ -17,9 +25,23 @@ export const getNetworkState = (): NetworkState => {
 };
 
 
+const lastSyncedListeners = new Set<(lastSynced: number) => void>();
+
+// Called after a round-trip with the sync server
 export const updateLastSynced = (): void => {
+  const lastSyncedKey = getLastSyncedKey();
+  if (!lastSyncedKey) return;
   const now = Date.now();
-  localStorage.setItem('last_synced', now.toString());
+  localStorage.setItem(lastSyncedKey, now.toString());
+  lastSyncedListeners.forEach(listener => listener(now));
+};
+
+// Returns a function that stops listening
+export const onLastSyncedChange = (listener: (lastSynced: number) => void): () => void => {
+  lastSyncedListeners.add(listener);
+  return () => {
+    lastSyncedListeners.delete(listener);
+  };
 };
 
 
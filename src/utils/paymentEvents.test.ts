@@ -0,0 +1,198 @@
+import type { PaymentEvent, PaymentEventRecord, Transaction } from '../types';
+import {
+  PaymentEventManager,
+  type PaymentEventStore,
+  type PaymentEventTransport,
+  getRetryDelay,
+  isPaymentEvent,
+} from './paymentEvents';
+
+// Connects managers as if they were tabs, echoing every event back to its sender
+// too, the way a careless transport might
+const createLoopbackNetwork = () => {
+  const receivers = new Set<(event: PaymentEvent) => void>();
+  const sent: PaymentEvent[] = [];
+  const connect = (): PaymentEventTransport => ({
+    name: 'loopback',
+    send: (event) => {
+      sent.push(event);
+      receivers.forEach((deliver) => deliver(event));
+    },
+    listen: (deliver) => {
+      receivers.add(deliver);
+      return () => receivers.delete(deliver);
+    },
+  });
+  return { connect, sent, redeliver: (event: PaymentEvent) => receivers.forEach((deliver) => deliver(event)) };
+};
+
+// Stands in for the user's database; survives a manager being replaced, the
+// way the real one survives a reload
+const createMemoryStore = () => {
+  const records = new Map<string, PaymentEventRecord>();
+  const store: PaymentEventStore = {
+    add: async (record) => {
+      records.set(record.id, { ...record });
+    },
+    get: async (id) => records.get(id),
+    listByStatus: async (status) => [...records.values()].filter((record) => record.status === status),
+  };
+  return { store, records };
+};
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const payment = { transactionId: 'tx1', amount: 10, recipient: 'alice', sender: 'bob', timestamp: 1700000000000 };
+
+describe('Payment events', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  test('should deliver an emission to local listeners exactly once', async () => {
+    const network = createLoopbackNetwork();
+    const manager = new PaymentEventManager([network.connect(), network.connect()], createMemoryStore().store);
+    const listener = jest.fn();
+    manager.subscribe('paymentReceived', listener);
+
+    const event = manager.emit('paymentReceived', payment);
+    network.redeliver(event);
+    await flush();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(event.data, event);
+  });
+
+  test('should deliver to other managers once, however many routes an event takes', async () => {
+    const network = createLoopbackNetwork();
+    const sender = new PaymentEventManager([network.connect()], createMemoryStore().store);
+    const receiver = new PaymentEventManager([network.connect(), network.connect()], createMemoryStore().store);
+    const received = jest.fn();
+    const expired = jest.fn();
+    receiver.subscribe('paymentReceived', received);
+    receiver.subscribe('qrExpired', expired);
+
+    const transaction: Transaction = {
+      id: 'tx1',
+      amount: 10,
+      recipient: 'alice',
+      sender: 'bob',
+      timestamp: 1700000000000,
+      description: 'Lunch',
+      status: 'pending',
+    };
+    sender.emitPaymentReceived(transaction);
+    sender.emitPaymentReceived(transaction);
+    network.redeliver(network.sent[0]);
+    await flush();
+
+    // Two emissions of the same payment are two events; redelivery isn't
+    expect(received).toHaveBeenCalledTimes(2);
+    expect(new Set(received.mock.calls.map(([, event]) => event.id)).size).toBe(2);
+    expect(expired).not.toHaveBeenCalled();
+  });
+
+  test('should recognise only well-formed events from other tabs', () => {
+    const event = { id: 'evt1', type: 'qrExpired', data: { transactionId: 'tx1', expiresAt: 1, timestamp: 1 }, timestamp: 1 };
+
+    expect(isPaymentEvent(event)).toBe(true);
+    expect(isPaymentEvent({ ...event, type: 'walletDrained' })).toBe(false);
+    expect(isPaymentEvent({ ...event, id: undefined })).toBe(false);
+    expect(isPaymentEvent({ ...event, data: null })).toBe(false);
+  });
+
+  test('should stop listening once a transport is removed', async () => {
+    const network = createLoopbackNetwork();
+    const manager = new PaymentEventManager([], createMemoryStore().store);
+    const detach = manager.addTransport(network.connect());
+    const listener = jest.fn();
+    manager.subscribe('paymentSent', listener);
+
+    detach();
+    network.redeliver({ id: 'evt1', type: 'paymentSent', data: payment, timestamp: 1 });
+    await flush();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test('should keep an event in the outbox until its consumer acknowledges it', async () => {
+    const network = createLoopbackNetwork();
+    const outbox = createMemoryStore();
+    const sender = new PaymentEventManager([], outbox.store);
+    sender.start();
+
+    // Nobody to send to yet, so it waits
+    const event = sender.emit('paymentReceived', payment);
+    await flush();
+    expect(outbox.records.get(event.id)).toMatchObject({ direction: 'outbound', status: 'pending', attempts: 0 });
+
+    // The receiver comes online later and handles it
+    const receiver = new PaymentEventManager([network.connect()], createMemoryStore().store);
+    receiver.subscribe('paymentReceived', (_data, received) => receiver.acknowledge(received));
+    sender.addTransport(network.connect());
+    await flush();
+
+    expect(outbox.records.get(event.id)).toMatchObject({ status: 'acknowledged', attempts: 1 });
+    sender.stop();
+  });
+
+  test('should back off between retries and give up eventually', async () => {
+    const network = createLoopbackNetwork();
+    const outbox = createMemoryStore();
+    const sender = new PaymentEventManager([network.connect()], outbox.store);
+    sender.start();
+
+    const event = sender.emit('paymentReceived', payment);
+    await flush();
+
+    // Not due yet
+    await sender.retryPending(event.timestamp + 1);
+    expect(outbox.records.get(event.id)?.attempts).toBe(1);
+
+    let now = event.timestamp;
+    for (let attempt = 1; attempt < 10; attempt++) {
+      now += getRetryDelay(attempt);
+      await sender.retryPending(now);
+    }
+
+    expect(network.sent.filter((sent) => sent.id === event.id)).toHaveLength(8);
+    expect(outbox.records.get(event.id)).toMatchObject({ status: 'failed', attempts: 8 });
+    sender.stop();
+  });
+
+  test('should replay unhandled events from the inbox after a reload', async () => {
+    const network = createLoopbackNetwork();
+    const sender = new PaymentEventManager([network.connect()], createMemoryStore().store);
+    const inbox = createMemoryStore();
+
+    // Received while no page was listening
+    const closedPage = new PaymentEventManager([network.connect()], inbox.store);
+    const event = sender.emit('paymentReceived', payment);
+    await flush();
+    expect(inbox.records.get(event.id)).toMatchObject({ direction: 'inbound', status: 'pending' });
+
+    // The page opens again and handles it
+    const reopened = new PaymentEventManager([network.connect()], inbox.store);
+    const listener = jest.fn((_data, received) => reopened.acknowledge(received));
+    reopened.subscribe('paymentReceived', listener, { replay: true });
+    await flush();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][1]).toEqual(event);
+    expect(inbox.records.get(event.id)?.status).toBe('acknowledged');
+
+    // Handled events aren't replayed, and a late retry is only acknowledged again
+    const later = jest.fn();
+    const afterAnotherReload = new PaymentEventManager([network.connect()], inbox.store);
+    afterAnotherReload.subscribe('paymentReceived', later, { replay: true });
+    const sentBefore = network.sent.length;
+    network.redeliver(event);
+    await flush();
+
+    expect(later).not.toHaveBeenCalled();
+    expect(network.sent.slice(sentBefore).some((sent) => sent.type === 'eventAcknowledged')).toBe(true);
+    expect(closedPage).toBeDefined();
+  });
+});
@@ -1,11 +1,164 @@
-// Payment event management system
+import type {
+  PaymentEvent,
+  PaymentEventData,
+  PaymentEventMap,
+  PaymentEventOf,
+  PaymentEventRecord,
+  PaymentEventType,
+  Transaction,
+} from "../types"
+import { getActiveUserId, onActiveUserChange } from "./db"
+import { eventRepository } from "./repositories"
+
+// Carries events to other tabs or devices. A transport only moves events; the
+// manager drops the ones it has already seen, so a transport may deliver the
+// same event more than once or echo events back to their sender.
+export interface PaymentEventTransport {
+  name: string
+  send: (event: PaymentEvent) => void
+  // Returns a function that stops listening
+  listen: (deliver: (event: PaymentEvent) => void) => () => void
+}
+
+// Where the manager keeps its outbox and inbox; the user's database in the app
+export type PaymentEventStore = Pick<typeof eventRepository, "add" | "get" | "listByStatus">
+
+type PaymentEventListener<K extends PaymentEventType> = (data: PaymentEventMap[K], event: PaymentEventOf<K>) => void
+
+interface SubscribeOptions {
+  // Also hand over received events of this type that no consumer has handled
+  replay?: boolean
+}
+
+const EVENT_TYPES: readonly PaymentEventType[] = [
+  "paymentSent",
+  "paymentReceived",
+  "qrExpired",
+  "eventAcknowledged",
+  "paymentRequest",
+  "paymentReceipt",
+  "chainSegment",
+]
+
+// Only these wait for a consumer to acknowledge them; the rest are sent once
+// and just logged
+const ACKNOWLEDGED_EVENT_TYPES: readonly PaymentEventType[] = ["paymentReceived", "paymentReceipt"]
+
+// Unacknowledged events are handed to the transports again with exponential
+// backoff, until they have been tried this many times
+const MAX_DELIVERY_ATTEMPTS = 8
+const RETRY_BASE_DELAY_MS = 5 * 1000
+const RETRY_MAX_DELAY_MS = 10 * 60 * 1000
+const RETRY_CHECK_INTERVAL_MS = 15 * 1000
+
+// Enough to cover any burst of redeliveries without growing forever
+const MAX_SEEN_EVENT_IDS = 500
+
+const CHANNEL_NAME = "payment-events"
+const STORAGE_KEY_PREFIX = "payment_event_"
+const STORAGE_EVENT_TTL_MS = 60 * 1000
+
+// Anything arriving from outside this tab is checked before it reaches listeners
+export const isPaymentEvent = (value: unknown): value is PaymentEvent => {
+  if (typeof value !== "object" || value === null) return false
+  const event = value as Partial<PaymentEvent>
+  return (
+    typeof event.id === "string" &&
+    EVENT_TYPES.includes(event.type) &&
+    typeof event.timestamp === "number" &&
+    typeof event.data === "object" &&
+    event.data !== null
+  )
+}
+
+// Other tabs of this browser. The channel doesn't deliver a message back to the
+// object that posted it, so one channel is kept open for both directions.
+export const createBroadcastChannelTransport = (name: string = CHANNEL_NAME): PaymentEventTransport => {
+  const channel = new BroadcastChannel(name)
+  return {
+    name: "broadcast-channel",
+    send: (event) => channel.postMessage(event),
+    listen: (deliver) => {
+      const handleMessage = (message: MessageEvent) => {
+        if (isPaymentEvent(message.data)) {
+          deliver(message.data)
+        }
+      }
+      channel.addEventListener("message", handleMessage)
+      return () => channel.removeEventListener("message", handleMessage)
+    },
+  }
+}
+
+// For browsers without BroadcastChannel. Storage events only fire in other tabs.
+export const createStorageTransport = (): PaymentEventTransport => ({
+  name: "local-storage",
+  send: (event) => {
+    const key = `${STORAGE_KEY_PREFIX}${event.id}`
+    localStorage.setItem(key, JSON.stringify(event))
+    setTimeout(() => localStorage.removeItem(key), STORAGE_EVENT_TTL_MS)
+  },
+  listen: (deliver) => {
+    const handleStorage = (storageEvent: StorageEvent) => {
+      if (!storageEvent.key?.startsWith(STORAGE_KEY_PREFIX) || !storageEvent.newValue) return
+      try {
+        const event: unknown = JSON.parse(storageEvent.newValue)
+        if (isPaymentEvent(event)) {
+          deliver(event)
+        }
+      } catch (error) {
+        console.error("❌ Error parsing localStorage event:", error)
+      }
+    }
+    window.addEventListener("storage", handleStorage)
+    return () => window.removeEventListener("storage", handleStorage)
+  },
+})
+
+const getDefaultTransports = (): PaymentEventTransport[] => {
+  if (typeof window === "undefined") return []
+  return ["BroadcastChannel" in window ? createBroadcastChannelTransport() : createStorageTransport()]
+}
+
+export const getRetryDelay = (attempts: number): number =>
+  Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS)
+
+// Drops the delivery bookkeeping a stored event carries
+const toPaymentEvent = (record: PaymentEventRecord): PaymentEvent =>
+  ({ id: record.id, type: record.type, data: record.data, timestamp: record.timestamp }) as PaymentEvent
+
+const createPaymentEventData = (
+  transactionId: string,
+  amount: number,
+  recipient: string,
+  sender: string,
+): PaymentEventData => ({
+  transactionId,
+  amount,
+  recipient,
+  sender,
+  timestamp: Date.now(),
+})
+
+// Payment event management system. Each emission gets its own id and every
+// listener in this tab sees it exactly once, however many transports carry it.
+// Events that need a consumer are kept in the outbox until one acknowledges
+// them, and received ones in the inbox until they are handled here, so neither
+// side loses a payment to a closed tab or a dropped connection.
 export class PaymentEventManager {
   private static instance: PaymentEventManager
-  private eventListeners: Map<string, Set<(data: any) => void>> = new Map()
+  private eventListeners: Map<PaymentEventType, Set<PaymentEventListener<any>>> = new Map()
+  private transports: Map<PaymentEventTransport, () => void> = new Map()
+  // Insertion ordered, so the oldest ids are the first to go
+  private seenEventIds: Set<string> = new Set()
+  private retryTimer: ReturnType<typeof setInterval> | null = null
+  private retrying = false
 
-  private constructor() {
-    // Initialize cross-tab communication immediately
-    this.initCrossTabCommunication()
+  constructor(
+    transports: PaymentEventTransport[] = getDefaultTransports(),
+    private store: PaymentEventStore = eventRepository,
+  ) {
+    transports.forEach((transport) => this.addTransport(transport))
   }
 
   public static getInstance(): PaymentEventManager {
@@ -16,192 +169,304 @@ export class PaymentEventManager {
   }
 
   // Subscribe to payment events
-  public subscribe(eventType: string, callback: (data: any) => void): () => void {
+  public subscribe<K extends PaymentEventType>(
+    eventType: K,
+    callback: PaymentEventListener<K>,
+    options: SubscribeOptions = {},
+  ): () => void {
     if (!this.eventListeners.has(eventType)) {
       this.eventListeners.set(eventType, new Set())
     }
 
-    this.eventListeners.get(eventType)!.add(callback)
+    // A replayed event may also arrive live while the replay is loading
+    const delivered = new Set<string>()
+    const listener: PaymentEventListener<K> = (data, event) => {
+      if (delivered.has(event.id)) return
+      delivered.add(event.id)
+      callback(data, event)
+    }
+    this.eventListeners.get(eventType)!.add(listener)
+
+    if (options.replay) {
+      this.replay(eventType, listener)
+    }
 
     // Return unsubscribe function
     return () => {
-      this.eventListeners.get(eventType)?.delete(callback)
+      this.eventListeners.get(eventType)?.delete(listener)
     }
   }
 
-  // Emit payment events with multiple delivery methods
-  public emit(eventType: string, data: any): void {
-    console.log(`🚀 Emitting event: ${eventType}`, data)
+  // Returns a function that detaches the transport again
+  public addTransport(transport: PaymentEventTransport): () => void {
+    if (!this.transports.has(transport)) {
+      try {
+        const stopListening = transport.listen((event) => this.receive(event, transport.name))
+        this.transports.set(transport, stopListening)
+        console.log(`🔌 Payment event transport attached: ${transport.name}`)
+      } catch (error) {
+        console.error(`❌ Error attaching ${transport.name} transport:`, error)
+      }
+      // Whatever was waiting for a way out can go now
+      this.retryPending(Date.now(), true)
+    }
+
+    return () => {
+      this.transports.get(transport)?.()
+      this.transports.delete(transport)
+    }
+  }
 
-    // Method 1: Emit to local listeners immediately
-    this.emitToLocalListeners(eventType, data)
+  // Retries the outbox on a timer and whenever the device comes back online
+  public start(): void {
+    if (this.retryTimer) return
 
-    // Method 2: Emit as DOM event
-    this.emitDOMEvent(eventType, data)
+    this.retryTimer = setInterval(() => this.retryPending(), RETRY_CHECK_INTERVAL_MS)
+    window.addEventListener("online", this.handleOnline)
+    this.retryPending()
+    console.log("🔄 Payment event outbox started")
+  }
 
-    // Method 3: Store in localStorage for cross-tab communication
-    this.emitToLocalStorage(eventType, data)
+  public stop(): void {
+    if (!this.retryTimer) return
 
-    // Method 4: Use BroadcastChannel API if available
-    this.emitToBroadcastChannel(eventType, data)
+    clearInterval(this.retryTimer)
+    this.retryTimer = null
+    window.removeEventListener("online", this.handleOnline)
+  }
 
-    // Method 5: Use sessionStorage as backup
-    this.emitToSessionStorage(eventType, data)
+  private handleOnline = () => {
+    this.retryPending(Date.now(), true)
   }
 
-  private emitToLocalListeners(eventType: string, data: any): void {
-    const listeners = this.eventListeners.get(eventType)
-    if (listeners && listeners.size > 0) {
-      console.log(`📡 Emitting to ${listeners.size} local listeners for ${eventType}`)
-      listeners.forEach((callback) => {
-        try {
-          callback(data)
-        } catch (error) {
-          console.error(`❌ Error in local listener for ${eventType}:`, error)
+  public emit<K extends PaymentEventType>(eventType: K, data: PaymentEventMap[K]): PaymentEventOf<K> {
+    const event = { id: crypto.randomUUID(), type: eventType, data, timestamp: Date.now() } as PaymentEventOf<K>
+    console.log(`🚀 Emitting event: ${eventType}`, event)
+
+    this.markSeen(event.id)
+    const { sent, error } = this.broadcast(event)
+
+    // Keep a durable log of every event emitted on this device; the ones that
+    // need a consumer stay in the outbox until it acknowledges them. Saved
+    // before local delivery so a listener's acknowledgement finds the record.
+    const record: PaymentEventRecord = ACKNOWLEDGED_EVENT_TYPES.includes(eventType)
+      ? {
+          ...event,
+          direction: "outbound",
+          status: sent ? "sent" : "pending",
+          attempts: sent ? 1 : 0,
+          nextAttemptAt: event.timestamp + getRetryDelay(1),
+          ...(error && { lastError: error }),
         }
-      })
-    } else {
-      console.log(`⚠️ No local listeners found for ${eventType}`)
-    }
+      : event
+    this.saveRecord(record)
+    this.deliver(event)
+    return event
   }
 
-  private emitDOMEvent(eventType: string, data: any): void {
+  // Consumers call this once they have handled an event, so it isn't replayed
+  // to them again and whoever sent it stops retrying
+  public async acknowledge(event: PaymentEvent): Promise<void> {
+    this.sendAcknowledgement(event.id)
+    await this.markAcknowledged(event.id)
+  }
+
+  // Hands every unacknowledged outbox event whose backoff has passed to the
+  // transports again; a new way out, like a transport or the network coming
+  // back, skips the backoff. Does nothing until the outbox is started.
+  public async retryPending(now: number = Date.now(), ignoreBackoff = false): Promise<void> {
+    if (this.retrying || !this.retryTimer || this.transports.size === 0) return
+    this.retrying = true
+
     try {
-      const customEvent = new CustomEvent(eventType, {
-        detail: data,
-        bubbles: true,
-        cancelable: true,
-      })
-      window.dispatchEvent(customEvent)
-      document.dispatchEvent(customEvent)
-      console.log(`📢 DOM event emitted for ${eventType}`)
+      const queued = [...(await this.store.listByStatus("pending")), ...(await this.store.listByStatus("sent"))]
+      for (const record of queued) {
+        if (record.direction !== "outbound" || (!ignoreBackoff && (record.nextAttemptAt ?? 0) > now)) continue
+
+        const attempts = record.attempts ?? 0
+        if (attempts >= MAX_DELIVERY_ATTEMPTS) {
+          console.warn(`⌛ Giving up on ${record.type} event ${record.id} after ${attempts} attempts`)
+          await this.store.add({
+            ...record,
+            status: "failed",
+            lastError: `Not acknowledged after ${attempts} attempts`,
+          })
+          continue
+        }
+
+        const { sent, error } = this.broadcast(toPaymentEvent(record))
+        await this.store.add({
+          ...record,
+          status: sent ? "sent" : record.status,
+          attempts: sent ? attempts + 1 : attempts,
+          nextAttemptAt: now + getRetryDelay(attempts + 1),
+          ...(error && { lastError: error }),
+        })
+      }
     } catch (error) {
-      console.error(`❌ Error emitting DOM event for ${eventType}:`, error)
+      console.error("❌ Error retrying payment events:", error)
+    } finally {
+      this.retrying = false
     }
   }
 
-  private emitToLocalStorage(eventType: string, data: any): void {
-    try {
-      const eventData = {
-        type: eventType,
-        data,
-        timestamp: Date.now(),
-        id: Math.random().toString(36).substring(2, 15),
-      }
+  // Events from transports: anything already seen, including our own, is dropped
+  private receive(event: PaymentEvent, transportName: string): void {
+    if (this.seenEventIds.has(event.id)) {
+      console.log(`♻️ Dropping duplicate ${event.type} event ${event.id} from ${transportName}`)
+      return
+    }
+    this.markSeen(event.id)
 
-      const storageKey = `payment_event_${eventType}_${data.transactionId || eventData.id}`
-      localStorage.setItem(storageKey, JSON.stringify(eventData))
-      console.log(`💾 Event stored in localStorage: ${storageKey}`)
+    if (event.type === "eventAcknowledged") {
+      this.markAcknowledged(event.data.eventId)
+      return
+    }
 
-      // Clean up after 60 seconds
-      setTimeout(() => {
-        localStorage.removeItem(storageKey)
-      }, 60000)
+    console.log(`📥 Received ${event.type} event from ${transportName}`, event.data)
+    this.acceptInbound(event)
+  }
+
+  // The inbox also dedups across reloads, when the in-memory ids are gone
+  private async acceptInbound(event: PaymentEvent): Promise<void> {
+    let existing: PaymentEventRecord | undefined
+    try {
+      existing = await this.store.get(event.id)
     } catch (error) {
-      console.error(`❌ Error storing event in localStorage:`, error)
+      console.error(`❌ Error checking the inbox for ${event.type} event:`, error)
     }
+
+    if (existing) {
+      // The sender is still retrying, so our acknowledgement never reached it
+      if (existing.status === "acknowledged") {
+        this.sendAcknowledgement(event.id)
+      }
+      return
+    }
+
+    if (ACKNOWLEDGED_EVENT_TYPES.includes(event.type)) {
+      this.saveRecord({ ...event, direction: "inbound", status: "pending" })
+    }
+    this.deliver(event)
   }
 
-  private emitToBroadcastChannel(eventType: string, data: any): void {
+  private async markAcknowledged(eventId: string): Promise<void> {
     try {
-      if ("BroadcastChannel" in window) {
-        const channel = new BroadcastChannel("payment-events")
-        channel.postMessage({
-          type: eventType,
-          data,
-          timestamp: Date.now(),
-        })
-        console.log(`📻 Event sent via BroadcastChannel for ${eventType}`)
-        channel.close()
+      const record = await this.store.get(eventId)
+      if (record?.status && record.status !== "acknowledged") {
+        await this.store.add({ ...record, status: "acknowledged", acknowledgedAt: Date.now() })
+        console.log(`✅ ${record.type} event ${eventId} acknowledged`)
       }
     } catch (error) {
-      console.error(`❌ Error using BroadcastChannel:`, error)
+      console.error(`❌ Error acknowledging event ${eventId}:`, error)
     }
   }
 
-  private emitToSessionStorage(eventType: string, data: any): void {
+  // Acknowledgements aren't queued: if one is lost, the sender retries the
+  // event and the inbox answers it again
+  private sendAcknowledgement(eventId: string): void {
+    const event: PaymentEvent = {
+      id: crypto.randomUUID(),
+      type: "eventAcknowledged",
+      data: { eventId, timestamp: Date.now() },
+      timestamp: Date.now(),
+    }
+    this.markSeen(event.id)
+    this.broadcast(event)
+  }
+
+  // Hands a new subscriber every received event of its type that hasn't been
+  // handled yet. Our own outbound events are the outbox's to retry, not ours
+  // to consume.
+  private async replay<K extends PaymentEventType>(eventType: K, listener: PaymentEventListener<K>): Promise<void> {
+    let records: PaymentEventRecord[]
     try {
-      const eventData = {
-        type: eventType,
-        data,
-        timestamp: Date.now(),
-      }
-      sessionStorage.setItem(`payment_event_latest_${eventType}`, JSON.stringify(eventData))
-      console.log(`🗂️ Event stored in sessionStorage for ${eventType}`)
+      records = await this.store.listByStatus("pending")
     } catch (error) {
-      console.error(`❌ Error storing event in sessionStorage:`, error)
+      console.error(`❌ Error replaying ${eventType} events:`, error)
+      return
     }
-  }
 
-  // Listen for various communication channels
-  public initCrossTabCommunication(): void {
-    // localStorage events
-    window.addEventListener("storage", (event) => {
-      if (event.key?.startsWith("payment_event_") && event.newValue) {
+    records
+      .filter((record) => record.direction === "inbound" && record.type === eventType)
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .forEach((record) => {
+        // The subscriber may have gone while the records were loading
+        if (!this.eventListeners.get(eventType)?.has(listener)) return
+        const event = toPaymentEvent(record) as PaymentEventOf<K>
+        this.markSeen(event.id)
         try {
-          const eventData = JSON.parse(event.newValue)
-          console.log(`📥 Received localStorage event: ${eventData.type}`, eventData.data)
-          this.emitToLocalListeners(eventData.type, eventData.data)
+          listener(event.data as PaymentEventMap[K], event)
         } catch (error) {
-          console.error("❌ Error parsing localStorage event:", error)
+          console.error(`❌ Error in local listener for ${eventType}:`, error)
         }
-      }
-    })
+      })
+  }
 
-    // BroadcastChannel events
-    if ("BroadcastChannel" in window) {
+  private broadcast(event: PaymentEvent): { sent: boolean; error?: string } {
+    let sent = false
+    let error: string | undefined
+    this.transports.forEach((_, transport) => {
       try {
-        const channel = new BroadcastChannel("payment-events")
-        channel.addEventListener("message", (event) => {
-          console.log(`📥 Received BroadcastChannel event: ${event.data.type}`, event.data.data)
-          this.emitToLocalListeners(event.data.type, event.data.data)
-        })
-      } catch (error) {
-        console.error("❌ Error setting up BroadcastChannel:", error)
+        transport.send(event)
+        sent = true
+      } catch (sendError) {
+        console.error(`❌ Error sending ${event.type} over ${transport.name}:`, sendError)
+        error = sendError instanceof Error ? sendError.message : String(sendError)
       }
+    })
+    return { sent, error }
+  }
+
+  private markSeen(eventId: string): void {
+    this.seenEventIds.add(eventId)
+    if (this.seenEventIds.size > MAX_SEEN_EVENT_IDS) {
+      this.seenEventIds.delete(this.seenEventIds.values().next().value)
     }
+  }
 
-    // DOM events
-    window.addEventListener("paymentReceived", (event: any) => {
-      console.log(`📥 Received DOM paymentReceived event:`, event.detail)
-      this.emitToLocalListeners("paymentReceived", event.detail)
+  private saveRecord(record: PaymentEventRecord): void {
+    this.store.add(record).catch((error) => {
+      console.error(`❌ Error recording ${record.type} event:`, error)
     })
+  }
 
-    window.addEventListener("paymentSent", (event: any) => {
-      console.log(`📥 Received DOM paymentSent event:`, event.detail)
-      this.emitToLocalListeners("paymentSent", event.detail)
-    })
+  private deliver(event: PaymentEvent): void {
+    const listeners = this.eventListeners.get(event.type)
+    if (!listeners || listeners.size === 0) {
+      console.log(`⚠️ No local listeners found for ${event.type}`)
+      return
+    }
 
-    console.log("🔄 Cross-tab communication initialized")
+    console.log(`📡 Emitting to ${listeners.size} local listeners for ${event.type}`)
+    listeners.forEach((callback) => {
+      try {
+        callback(event.data, event)
+      } catch (error) {
+        console.error(`❌ Error in local listener for ${event.type}:`, error)
+      }
+    })
   }
 
   // Payment specific events with enhanced logging
   public emitPaymentSent(transactionId: string, amount: number, recipient: string, sender: string): void {
     console.log(`💸 Emitting payment sent event for transaction: ${transactionId}`)
-    this.emit("paymentSent", {
-      transactionId,
-      amount,
-      recipient,
-      sender,
-      timestamp: Date.now(),
-    })
+    this.emit("paymentSent", createPaymentEventData(transactionId, amount, recipient, sender))
   }
 
-  public emitPaymentReceived(transactionId: string, amount: number, recipient: string, sender: string): void {
-    console.log(`💰 Emitting payment received event for transaction: ${transactionId}`)
-    this.emit("paymentReceived", {
-      transactionId,
-      amount,
-      recipient,
-      sender,
-      timestamp: Date.now(),
-    })
+  // Carries the signed transaction itself, which is what the payee checks
+  public emitPaymentReceived(transaction: Transaction): void {
+    const { id, amount, recipient, sender } = transaction
+    console.log(`💰 Emitting payment received event for transaction: ${id}`)
+    this.emit("paymentReceived", { ...createPaymentEventData(id, amount, recipient, sender), transaction })
   }
 
-  public emitQRExpired(transactionId: string): void {
+  // expiresAt is the expiry signed into the code, which is what the scanner checks
+  public emitQRExpired(transactionId: string, expiresAt: number): void {
     console.log(`⏰ Emitting QR expired event for transaction: ${transactionId}`)
     this.emit("qrExpired", {
       transactionId,
+      expiresAt,
       timestamp: Date.now(),
     })
   }
@@ -219,6 +484,14 @@ export class PaymentEventManager {
 // Export singleton instance
 export const paymentEventManager = PaymentEventManager.getInstance()
 
+// The outbox lives in the signed-in user's database
+if (typeof window !== "undefined") {
+  if (getActiveUserId()) {
+    paymentEventManager.start()
+  }
+  onActiveUserChange((userId) => (userId ? paymentEventManager.start() : paymentEventManager.stop()))
+}
+
 // Global debug helper
 if (typeof window !== "undefined") {
   ;(window as any).paymentEventManager = paymentEventManager
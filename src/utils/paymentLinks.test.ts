@@ -0,0 +1,39 @@
+import { makeSigner } from '../test/signers';
+import { signPaymentRequest } from './paymentRequests';
+import { PAYMENT_LINK_PATH, buildPaymentLink, readPaymentLink } from './paymentLinks';
+import { createPaymentReceipt } from './receipts';
+
+describe('Payment links', () => {
+  test('should carry a signed request through a URL-safe link', async () => {
+    const payee = await makeSigner();
+    const signed = await signPaymentRequest(
+      {
+        id: 'req1',
+        intent: 'request',
+        payee: payee.address,
+        payeeName: 'Corner Cafe',
+        amount: 120,
+        description: 'Lunch',
+        timestamp: 1700000000000,
+        nonce: 7,
+        expiresAt: 1700000030000,
+      },
+      payee,
+    );
+    const link = buildPaymentLink({ type: 'request', data: signed }, 'https://offpay.example');
+    const segment = link.slice(`https://offpay.example${PAYMENT_LINK_PATH}/`.length);
+
+    expect(segment).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(readPaymentLink(segment)).toEqual({ type: 'request', data: signed });
+  });
+
+  test('should reject damaged links and payloads that are not payments', async () => {
+    const payer = await makeSigner();
+    const receipt = await createPaymentReceipt({ id: 'tx1', amount: 10, signature: 'c2ln' }, payer);
+
+    expect(() => readPaymentLink('not a link!')).toThrow('damaged');
+    expect(() => buildPaymentLink({ type: 'receipt', data: receipt }, 'https://offpay.example')).toThrow(
+      'Only payments',
+    );
+  });
+});
@@ -0,0 +1,42 @@
+import { base64ToBytes, bytesToBase64 } from "./crypto"
+import { type QRPayload, decodeQRPayloadBytes, encodeQRPayloadBytes } from "./qrCodec"
+
+// A payment link carries the same signed payload as the QR code, as URL-safe
+// Base64 in the last path segment: `<origin>/pay/<payload>`
+export const PAYMENT_LINK_PATH = "/pay"
+
+const toBase64Url = (bytes: Uint8Array): string =>
+  bytesToBase64(bytes).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const base64 = text.replace(/-/g, "+").replace(/_/g, "/")
+  return base64ToBytes(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="))
+}
+
+// Only payments can be shared; receipts and frames only make sense face to face
+export const isShareablePayload = (payload: QRPayload): boolean =>
+  payload.type === "payment" || payload.type === "request"
+
+export const buildPaymentLink = (payload: QRPayload, origin: string = window.location.origin): string => {
+  if (!isShareablePayload(payload)) {
+    throw new Error("Only payments can be shared as a link")
+  }
+  return `${origin}${PAYMENT_LINK_PATH}/${toBase64Url(encodeQRPayloadBytes(payload))}`
+}
+
+// Takes the `/pay/<payload>` path segment. Throws with a message suitable for
+// showing to the user.
+export const readPaymentLink = (segment: string): QRPayload => {
+  let bytes: Uint8Array
+  try {
+    bytes = fromBase64Url(segment.trim())
+  } catch {
+    throw new Error("This payment link is damaged. Ask for it to be sent again.")
+  }
+
+  const payload = decodeQRPayloadBytes(bytes)
+  if (!isShareablePayload(payload)) {
+    throw new Error("This link doesn't contain a payment.")
+  }
+  return payload
+}
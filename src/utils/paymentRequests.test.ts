@@ -0,0 +1,124 @@
+import 'fake-indexeddb/auto';
+import { makeSigner } from '../test/signers';
+import type { PaymentRequest } from '../types';
+import { verifySignature } from './crypto';
+import { deleteUserDatabase, setActiveUser } from './db';
+import { decodeQRPayload, encodeQRPayload } from './qrCodec';
+import {
+  createRequestPayment,
+  getRequestReceiptSubject,
+  redeemRequestPayment,
+  signPaymentRequest,
+  verifyPaymentRequest,
+} from './paymentRequests';
+import { createPaymentReceipt, verifyPaymentReceipt } from './receipts';
+import { getQRExpiry, isPaymentExpired } from './replay';
+
+const makeRequest = (payee: string, overrides: Partial<PaymentRequest> = {}): Omit<PaymentRequest, 'signature'> => ({
+  id: 'req1',
+  intent: 'request',
+  payee,
+  payeeName: 'Corner Cafe',
+  amount: 120,
+  description: 'Lunch',
+  timestamp: 1700000000000,
+  nonce: 7,
+  expiresAt: 1700000030000,
+  ...overrides,
+});
+
+describe('Payment requests', () => {
+  test('should verify a request after a trip through a QR code', async () => {
+    const payee = await makeSigner();
+    const signed = await signPaymentRequest(makeRequest(payee.address), payee);
+    const scanned = decodeQRPayload(encodeQRPayload({ type: 'request', data: signed }));
+
+    expect(scanned).toEqual({ type: 'request', data: signed });
+    expect(await verifyPaymentRequest(signed)).toBe(true);
+  });
+
+  test('should round-trip an open-amount request without an amount', async () => {
+    const payee = await makeSigner();
+    const request = makeRequest(payee.address, { intent: 'open-amount' });
+    delete request.amount;
+    const signed = await signPaymentRequest(request, payee);
+    const scanned = decodeQRPayload(encodeQRPayload({ type: 'request', data: signed }));
+
+    expect(scanned.type === 'request' && scanned.data.request.amount).toBeUndefined();
+    expect(await verifyPaymentRequest(signed)).toBe(true);
+  });
+
+  test('should sign the chosen validity into the request', async () => {
+    const payee = await makeSigner();
+    const now = 1700000000000;
+    expect(getQRExpiry('5m', now)).toBe(now + 5 * 60 * 1000);
+    expect(getQRExpiry('single-use', now)).toBeUndefined();
+
+    const singleUse = makeRequest(payee.address);
+    delete singleUse.expiresAt;
+    const signed = await signPaymentRequest(singleUse, payee);
+    const scanned = decodeQRPayload(encodeQRPayload({ type: 'request', data: signed }));
+
+    expect(scanned).toEqual({ type: 'request', data: signed });
+    expect(await verifyPaymentRequest(signed)).toBe(true);
+    expect(isPaymentExpired(signed.request, now + 24 * 60 * 60 * 1000)).toBe(false);
+
+    // Stretching the expiry breaks the signature
+    const timed = await signPaymentRequest(makeRequest(payee.address), payee);
+    expect(isPaymentExpired(timed.request, timed.request.expiresAt! + 1)).toBe(true);
+    expect(await verifyPaymentRequest({ ...timed, request: { ...timed.request, expiresAt: now + 60 * 60 * 1000 } })).toBe(
+      false,
+    );
+  });
+
+  test('should reject a tampered request or one signed by another wallet', async () => {
+    const payee = await makeSigner();
+    const other = await makeSigner();
+    const signed = await signPaymentRequest(makeRequest(payee.address), payee);
+
+    expect(await verifyPaymentRequest({ ...signed, request: { ...signed.request, amount: 1 } })).toBe(false);
+    expect(await verifyPaymentRequest({ ...signed, request: { ...signed.request, payee: other.address } })).toBe(false);
+    expect(await verifyPaymentRequest({ ...signed, publicKey: other.publicKey })).toBe(false);
+  });
+
+  test('should pay a request with a transaction signed by the payer', async () => {
+    const payee = await makeSigner();
+    const payer = await makeSigner();
+    const { request } = await signPaymentRequest(
+      makeRequest(payee.address, { intent: 'open-amount', amount: undefined }),
+      payee,
+    );
+
+    await expect(createRequestPayment(request, undefined, payer, 3)).rejects.toThrow('valid positive amount');
+
+    const transaction = await createRequestPayment(request, 45, payer, 3);
+    expect(transaction).toMatchObject({ id: 'req1', amount: 45, sender: payer.address, recipient: payee.address, nonce: 3 });
+    expect(await verifySignature(transaction, transaction.signature!, payer.publicKey)).toBe(true);
+
+    const subject = getRequestReceiptSubject(request, transaction.amount);
+    const receipt = await createPaymentReceipt(subject, payer);
+    expect(await verifyPaymentReceipt(receipt, subject)).toBe(true);
+  });
+
+  test('should only credit a payment event whose signed transaction pays what was asked', async () => {
+    await setActiveUser('payee_device');
+    const payee = await makeSigner();
+    const payer = await makeSigner();
+    const { request } = await signPaymentRequest(makeRequest(payee.address), payee);
+    const expected = { id: request.id, payee: payee.address, amount: request.amount };
+    const transaction = await createRequestPayment(request, undefined, payer, 3);
+
+    expect(await redeemRequestPayment(undefined, expected)).toBe('invalid');
+    expect(await redeemRequestPayment({ ...transaction, amount: 5000 }, { ...expected, amount: undefined })).toBe(
+      'invalid',
+    );
+    expect(await redeemRequestPayment({ ...transaction, signature: undefined }, expected)).toBe('invalid');
+    expect(await redeemRequestPayment(transaction, { ...expected, amount: 50 })).toBe('invalid');
+    expect(await redeemRequestPayment(transaction, expected)).toBe('claimed');
+    // Replayed from the inbox, or a second payment spending the same nonce
+    expect(await redeemRequestPayment(transaction, expected)).toBe('spent');
+    const reused = await createRequestPayment({ ...request, id: 'req2' }, undefined, payer, 3);
+    expect(await redeemRequestPayment(reused, { ...expected, id: 'req2' })).toBe('conflict');
+    await deleteUserDatabase('payee_device');
+  });
+});
@@ -0,0 +1,119 @@
+import type { NullifierClaim, PaymentRequest, PaymentRequestTerms, SignedPaymentRequest, Transaction } from "../types"
+import { isValidAmount, verifyTransactionSignature } from "./chainValidation"
+import { signData, signTransaction, verifyData } from "./crypto"
+import type { ReceiptSubject } from "./receipts"
+import { hasReplayProtection, redeemPayment } from "./replay"
+import { type WalletSigner, verifyWalletKey } from "./wallet"
+
+const REQUEST_SIGNATURE_VERSION = "offpay-request-v1"
+
+export const serializeRequestForSigning = (request: Omit<PaymentRequest, "signature">): string => {
+  return JSON.stringify([
+    REQUEST_SIGNATURE_VERSION,
+    request.id,
+    request.intent,
+    request.payee,
+    request.payeeName,
+    request.amount ?? null,
+    request.description,
+    request.timestamp,
+    request.nonce,
+    request.expiresAt ?? null,
+  ])
+}
+
+export const signPaymentRequest = async (
+  request: Omit<PaymentRequest, "signature">,
+  signer: WalletSigner,
+): Promise<SignedPaymentRequest> => {
+  return {
+    request: { ...request, signature: await signData(serializeRequestForSigning(request), signer.privateKey) },
+    publicKey: signer.publicKey,
+    ...(signer.keyProof.length > 0 && { keyProof: signer.keyProof }),
+  }
+}
+
+// Checks the request was signed by the wallet it asks to be paid to, and that
+// only open-amount requests leave the amount out
+export const verifyPaymentRequest = async (signed: SignedPaymentRequest): Promise<boolean> => {
+  const { request } = signed
+  if ((request.intent === "open-amount") !== (request.amount === undefined)) {
+    return false
+  }
+
+  return (
+    (await verifyData(serializeRequestForSigning(request), request.signature, signed.publicKey)) &&
+    (await verifyWalletKey(request.payee, signed.publicKey, signed.keyProof))
+  )
+}
+
+// The payer's side of a request. `amount` is only used for open-amount requests.
+export const createRequestPayment = async (
+  request: PaymentRequestTerms,
+  amount: number | undefined,
+  signer: WalletSigner,
+  nonce: number,
+): Promise<Transaction> => {
+  const paidAmount = request.intent === "open-amount" ? amount : request.amount
+  if (typeof paidAmount !== "number" || !Number.isFinite(paidAmount) || paidAmount <= 0) {
+    throw new Error("Please enter a valid positive amount.")
+  }
+
+  const transaction: Transaction = {
+    id: request.id,
+    amount: paidAmount,
+    sender: signer.address,
+    recipient: request.payee,
+    timestamp: Date.now(),
+    description: request.description || `Payment to ${request.payeeName}`,
+    status: "pending",
+    nonce,
+    expiresAt: request.expiresAt,
+  }
+  transaction.signature = await signTransaction(transaction, signer.privateKey)
+
+  return {
+    ...transaction,
+    publicKey: signer.publicKey,
+    ...(signer.keyProof.length > 0 && { keyProof: signer.keyProof }),
+  }
+}
+
+// Receipts for a request commit to the request's signature, since the payee
+// never sees the payer's transaction
+export const getRequestReceiptSubject = (request: PaymentRequest, amount: number): ReceiptSubject => ({
+  id: request.id,
+  amount,
+  signature: request.signature,
+})
+
+// What a payee is owed. Merchant codes leave the id to the payer, and the
+// amount is absent when the payer chooses it.
+export interface ExpectedPayment {
+  id?: string
+  payee: string
+  amount?: number
+}
+
+// The payee's side of a request. Payment events aren't signed and can be
+// replayed from the inbox or written by any tab, so only the payer's signed
+// transaction carried in one counts, once it is found to pay what was asked and
+// its nonce is redeemed here. "spent" means it already was.
+export const redeemRequestPayment = async (
+  transaction: Transaction | undefined,
+  expected: ExpectedPayment,
+): Promise<NullifierClaim["status"] | "invalid"> => {
+  if (
+    !transaction ||
+    (expected.id !== undefined && transaction.id !== expected.id) ||
+    transaction.recipient !== expected.payee ||
+    !isValidAmount(transaction.amount) ||
+    (expected.amount !== undefined && transaction.amount !== expected.amount) ||
+    !hasReplayProtection(transaction) ||
+    !(await verifyTransactionSignature(transaction))
+  ) {
+    return "invalid"
+  }
+
+  return (await redeemPayment(transaction)).status
+}
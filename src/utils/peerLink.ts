@@ -0,0 +1,205 @@
+import type { PaymentEvent, PaymentEventType, PeerSignal } from "../types"
+import { generateId } from "./crypto"
+import { onActiveUserChange } from "./db"
+import { type PaymentEventTransport, isPaymentEvent, paymentEventManager } from "./paymentEvents"
+
+// Two devices on the same network, linked by a WebRTC data channel. The offer
+// and answer are shown as QR codes and scanned by the other device, so there
+// is no signaling server; with no STUN or TURN servers either, the devices
+// can only reach each other directly.
+const DATA_CHANNEL_LABEL = "offpay-events"
+
+// Candidates aren't trickled, since each QR code is only scanned once. Gathering
+// host candidates on a LAN is quick; whatever was found by then is used.
+const ICE_GATHERING_TIMEOUT_MS = 5 * 1000
+
+// Only what the receiving device checks for itself crosses the link: requests
+// and receipts are signed and chain segments are validated. Payment events from
+// the other tabs of this browser aren't, so they stay here.
+const PEER_EVENT_TYPES: readonly PaymentEventType[] = [
+  "paymentRequest",
+  "paymentReceipt",
+  "chainSegment",
+  "eventAcknowledged",
+]
+
+export type PeerLinkState = "new" | "connecting" | "open" | "closed"
+
+const waitForIceGathering = (connection: RTCPeerConnection): Promise<void> =>
+  new Promise((resolve) => {
+    if (connection.iceGatheringState === "complete") {
+      resolve()
+      return
+    }
+
+    const done = () => {
+      clearTimeout(timeout)
+      connection.removeEventListener("icegatheringstatechange", handleChange)
+      resolve()
+    }
+    const handleChange = () => {
+      if (connection.iceGatheringState === "complete") done()
+    }
+    const timeout = setTimeout(done, ICE_GATHERING_TIMEOUT_MS)
+    connection.addEventListener("icegatheringstatechange", handleChange)
+  })
+
+// One direct connection to another device. The offering device calls
+// createOffer and later acceptAnswer; the other one answers with acceptOffer.
+export class PeerLink {
+  private connection = new RTCPeerConnection({ iceServers: [] })
+  private channel: RTCDataChannel | null = null
+  private sessionId: string | null = null
+  private receivers: Set<(event: PaymentEvent) => void> = new Set()
+  private stateListeners: Set<(state: PeerLinkState) => void> = new Set()
+  public state: PeerLinkState = "new"
+
+  // Plugs the link into the event manager like any other transport
+  public readonly transport: PaymentEventTransport = {
+    name: "webrtc",
+    send: (event) => {
+      if (!PEER_EVENT_TYPES.includes(event.type)) return
+      if (this.channel?.readyState !== "open") {
+        throw new Error("The other device isn't connected")
+      }
+      this.channel.send(JSON.stringify(event))
+    },
+    listen: (deliver) => {
+      this.receivers.add(deliver)
+      return () => this.receivers.delete(deliver)
+    },
+  }
+
+  constructor() {
+    this.connection.addEventListener("datachannel", (event) => this.attachChannel(event.channel))
+    this.connection.addEventListener("connectionstatechange", () => {
+      if (this.connection.connectionState === "failed" || this.connection.connectionState === "closed") {
+        this.close()
+      }
+    })
+  }
+
+  public async createOffer(): Promise<PeerSignal> {
+    this.sessionId = generateId()
+    this.attachChannel(this.connection.createDataChannel(DATA_CHANNEL_LABEL))
+    await this.connection.setLocalDescription(await this.connection.createOffer())
+    return this.getLocalSignal("offer")
+  }
+
+  // Throws with a message suitable for showing to the user
+  public async acceptOffer(offer: PeerSignal): Promise<PeerSignal> {
+    if (offer.role !== "offer") {
+      throw new Error("That's an answer code. Scan the code shown on the device that started connecting.")
+    }
+
+    this.sessionId = offer.sessionId
+    await this.connection.setRemoteDescription({ type: "offer", sdp: offer.sdp })
+    await this.connection.setLocalDescription(await this.connection.createAnswer())
+    this.setState("connecting")
+    return this.getLocalSignal("answer")
+  }
+
+  // Throws with a message suitable for showing to the user
+  public async acceptAnswer(answer: PeerSignal): Promise<void> {
+    if (answer.role !== "answer") {
+      throw new Error("That's an offer code. Scan the answer shown on the other device.")
+    }
+    if (answer.sessionId !== this.sessionId) {
+      throw new Error("That answer is for a different connection. Ask for a new one.")
+    }
+
+    await this.connection.setRemoteDescription({ type: "answer", sdp: answer.sdp })
+    this.setState("connecting")
+  }
+
+  public close(): void {
+    if (this.state === "closed") return
+
+    this.channel?.close()
+    this.connection.close()
+    this.setState("closed")
+  }
+
+  // Returns a function that stops listening
+  public onStateChange(listener: (state: PeerLinkState) => void): () => void {
+    this.stateListeners.add(listener)
+    return () => this.stateListeners.delete(listener)
+  }
+
+  private async getLocalSignal(role: PeerSignal["role"]): Promise<PeerSignal> {
+    await waitForIceGathering(this.connection)
+    const sdp = this.connection.localDescription?.sdp
+    if (!sdp || !this.sessionId) {
+      throw new Error("Couldn't prepare a connection code. Please try again.")
+    }
+    return { role, sessionId: this.sessionId, sdp }
+  }
+
+  private attachChannel(channel: RTCDataChannel): void {
+    this.channel = channel
+    channel.addEventListener("open", () => this.setState("open"))
+    channel.addEventListener("close", () => this.close())
+    channel.addEventListener("message", (message: MessageEvent) => {
+      try {
+        const event: unknown = JSON.parse(message.data)
+        if (isPaymentEvent(event) && PEER_EVENT_TYPES.includes(event.type)) {
+          this.receivers.forEach((deliver) => deliver(event))
+        }
+      } catch (error) {
+        console.error("❌ Error parsing event from linked device:", error)
+      }
+    })
+  }
+
+  private setState(state: PeerLinkState): void {
+    if (this.state === state) return
+    this.state = state
+    // Copied, since a listener may stop another one from listening
+    ;[...this.stateListeners].forEach((listener) => listener(state))
+  }
+}
+
+// One linked device at a time
+let activeLink: PeerLink | null = null
+const activeLinkListeners: Set<(link: PeerLink | null) => void> = new Set()
+
+const setActiveLink = (link: PeerLink | null) => {
+  activeLink = link
+  activeLinkListeners.forEach((listener) => listener(link))
+}
+
+export const getActivePeerLink = (): PeerLink | null => activeLink
+
+// Returns a function that stops listening
+export const onActivePeerLinkChange = (listener: (link: PeerLink | null) => void): (() => void) => {
+  activeLinkListeners.add(listener)
+  return () => activeLinkListeners.delete(listener)
+}
+
+// Replaces any existing link. The link joins the event manager's transports
+// once its channel opens and leaves them when it closes.
+export const openPeerLink = (): PeerLink => {
+  activeLink?.close()
+
+  const link = new PeerLink()
+  let detach: (() => void) | null = null
+  link.onStateChange((state) => {
+    if (state === "open" && !detach) {
+      detach = paymentEventManager.addTransport(link.transport)
+    }
+    if (state === "closed") {
+      detach?.()
+      detach = null
+      if (activeLink === link) setActiveLink(null)
+    }
+  })
+  setActiveLink(link)
+  return link
+}
+
+export const closePeerLink = (): void => {
+  activeLink?.close()
+}
+
+// A link carries the signed-in user's payments, so it ends with their session
+onActiveUserChange(() => closePeerLink())
@@ -0,0 +1,88 @@
+import 'fake-indexeddb/auto';
+import type { Transaction } from '../types';
+import { deleteUserDatabase, setActiveUser } from './db';
+import { changePin, setPin, verifyPin } from './pin';
+import { transactionRepository } from './repositories';
+import { addSentTransaction, getTransactions } from './storage';
+import { createVault, lockVault, unlockVault } from './vault';
+import { getActiveSigner, loadOrCreateWallet } from './wallet';
+
+const USER = 'pin_user';
+const OLD_PIN = '111111';
+const NEW_PIN = '222222';
+
+const payment: Transaction = {
+  id: 'tx1',
+  amount: 25,
+  sender: 'wallet_sender',
+  recipient: 'wallet_recipient',
+  timestamp: 1700000000000,
+  description: 'Lunch',
+  status: 'pending',
+};
+
+// Backs the localStorage mock with a map for the wallet, vault and PIN records
+const storage = new Map<string, string>();
+
+// Everything stored under the PIN, read back after the vault is locked
+const expectPinToOpenEverything = async (pin: string) => {
+  lockVault();
+  expect(await verifyPin(USER, pin)).toEqual({ status: 'ok' });
+  expect(await unlockVault(USER, pin)).toBe(true);
+  expect((await getTransactions()).map((transaction) => transaction.id)).toEqual(['tx1']);
+  await expect(getActiveSigner(USER)).resolves.toMatchObject({ address: expect.any(String) });
+};
+
+beforeEach(async () => {
+  storage.clear();
+  jest.mocked(localStorage.getItem).mockImplementation((key) => storage.get(key) ?? null);
+  jest.mocked(localStorage.setItem).mockImplementation((key, value) => void storage.set(key, value));
+  await setActiveUser(USER);
+  await createVault(USER, OLD_PIN);
+  await setPin(USER, OLD_PIN);
+  await loadOrCreateWallet(USER);
+  await addSentTransaction(payment, 'pending');
+});
+
+afterEach(async () => {
+  jest.restoreAllMocks();
+  jest.mocked(localStorage.getItem).mockReset();
+  jest.mocked(localStorage.setItem).mockReset();
+  lockVault();
+  await deleteUserDatabase(USER);
+});
+
+describe('PIN change', () => {
+  test('should re-encrypt everything under the new PIN', async () => {
+    expect(await changePin(USER, OLD_PIN, NEW_PIN)).toEqual({ status: 'ok' });
+
+    await expectPinToOpenEverything(NEW_PIN);
+    expect(await unlockVault(USER, OLD_PIN)).toBe(false);
+  });
+
+  test('should leave the old PIN opening everything when the change fails before committing', async () => {
+    jest.spyOn(transactionRepository, 'putManyAndMark').mockRejectedValueOnce(new Error('Tab closed'));
+
+    await expect(changePin(USER, OLD_PIN, NEW_PIN)).rejects.toThrow('Tab closed');
+
+    await expectPinToOpenEverything(OLD_PIN);
+  });
+
+  test('should finish a committed change the next time the PIN is checked', async () => {
+    // The tab closes as the first record is copied out after the commit
+    let closed = false;
+    jest.mocked(localStorage.setItem).mockImplementation((key, value) => {
+      if (!closed && key.startsWith('offpay_vault')) {
+        closed = true;
+        throw new Error('Tab closed');
+      }
+      storage.set(key, value);
+    });
+
+    await expect(changePin(USER, OLD_PIN, NEW_PIN)).rejects.toThrow('Tab closed');
+
+    await expectPinToOpenEverything(NEW_PIN);
+    lockVault();
+    expect(await verifyPin(USER, OLD_PIN)).toMatchObject({ status: 'incorrect' });
+  });
+});
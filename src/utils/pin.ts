@@ -0,0 +1,207 @@
+import { base64ToBytes, bytesToBase64, deriveEncryptionKey } from "./crypto"
+import { getActiveUserId } from "./db"
+import { PIN_LENGTH, buildVaultEntry, getSessionKey, isValidPin, rekeySession } from "./vault"
+import { metaRepository, transactionRepository } from "./repositories"
+import { reencryptTransactions } from "./storage"
+import { reencryptWallet } from "./wallet"
+
+const PIN_STORAGE_KEY = "offpay_pin"
+// Written in the same IndexedDB transaction as the re-encrypted transactions:
+// the vault, wallet and PIN records a committed PIN change still has to copy to
+// localStorage
+const PIN_CHANGE_KEY = "pendingPinChange"
+const PIN_HASH_ITERATIONS = 310000
+const FREE_ATTEMPTS = 3
+const BASE_LOCKOUT_MS = 30 * 1000
+const MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000
+// How long a verified PIN authorizes a debit before it has to be entered again
+const DEBIT_AUTHORIZATION_MS = 60 * 1000
+
+interface PinRecord {
+  hash: string
+  salt: string
+  iterations: number
+  failedAttempts: number
+  lockedUntil: number | null
+  updatedAt: number
+}
+
+export type PinCheckResult =
+  | { status: "ok" }
+  | { status: "incorrect"; attemptsBeforeLockout: number }
+  | { status: "locked"; lockedUntil: number }
+
+// Debit authorizations are kept in memory only, one per user
+const debitAuthorizations = new Map<string, number>()
+
+const getPinKey = (userId: string) => `${PIN_STORAGE_KEY}_${userId}`
+
+const readPinRecord = (userId: string): PinRecord | null => {
+  const stored = localStorage.getItem(getPinKey(userId))
+  if (!stored) {
+    return null
+  }
+
+  try {
+    return JSON.parse(stored)
+  } catch (error) {
+    console.error("Failed to parse PIN record", error)
+    return null
+  }
+}
+
+const writePinRecord = (userId: string, record: PinRecord): void => {
+  localStorage.setItem(getPinKey(userId), JSON.stringify(record))
+}
+
+const hashPin = async (pin: string, salt: string, iterations: number): Promise<string> => {
+  const baseKey = await crypto.subtle.importKey("raw", new TextEncoder().encode(pin), "PBKDF2", false, ["deriveBits"])
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt: base64ToBytes(salt), iterations },
+    baseKey,
+    256,
+  )
+  return bytesToBase64(new Uint8Array(bits))
+}
+
+const constantTimeEquals = (a: string, b: string): boolean => {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
+
+// 30s after the third miss, doubling with every further miss, capped at a day
+const getLockoutDuration = (failedAttempts: number): number => {
+  if (failedAttempts < FREE_ATTEMPTS) return 0
+  return Math.min(BASE_LOCKOUT_MS * 2 ** (failedAttempts - FREE_ATTEMPTS), MAX_LOCKOUT_MS)
+}
+
+export const hasPin = (userId: string): boolean => {
+  return readPinRecord(userId) !== null
+}
+
+export const getPinLockout = (userId: string): number | null => {
+  const record = readPinRecord(userId)
+  if (!record?.lockedUntil || record.lockedUntil <= Date.now()) {
+    return null
+  }
+  return record.lockedUntil
+}
+
+const createPinRecord = async (pin: string): Promise<PinRecord> => {
+  const salt = bytesToBase64(crypto.getRandomValues(new Uint8Array(16)))
+  return {
+    hash: await hashPin(pin, salt, PIN_HASH_ITERATIONS),
+    salt,
+    iterations: PIN_HASH_ITERATIONS,
+    failedAttempts: 0,
+    lockedUntil: null,
+    updatedAt: Date.now(),
+  }
+}
+
+export const setPin = async (userId: string, pin: string): Promise<void> => {
+  if (!isValidPin(pin)) {
+    throw new Error(`PIN must be ${PIN_LENGTH} digits`)
+  }
+
+  writePinRecord(userId, await createPinRecord(pin))
+}
+
+// Copies a committed PIN change's records to localStorage. Runs before every
+// PIN check too, in case the tab closed between the commit and the copy.
+const finishPinChange = async (userId: string): Promise<void> => {
+  if (getActiveUserId() !== userId) return
+
+  const entries = (await metaRepository.get(PIN_CHANGE_KEY)) as [string, string][] | undefined
+  if (!entries) return
+
+  entries.forEach(([key, value]) => localStorage.setItem(key, value))
+  await metaRepository.remove(PIN_CHANGE_KEY)
+}
+
+export const verifyPin = async (userId: string, pin: string): Promise<PinCheckResult> => {
+  await finishPinChange(userId).catch((error) => {
+    console.error("Failed to finish an interrupted PIN change", error)
+  })
+
+  const record = readPinRecord(userId)
+  if (!record) {
+    throw new Error("No PIN has been set")
+  }
+
+  if (record.lockedUntil && record.lockedUntil > Date.now()) {
+    return { status: "locked", lockedUntil: record.lockedUntil }
+  }
+
+  const hash = await hashPin(pin, record.salt, record.iterations)
+  if (constantTimeEquals(hash, record.hash)) {
+    writePinRecord(userId, { ...record, failedAttempts: 0, lockedUntil: null })
+    return { status: "ok" }
+  }
+
+  const failedAttempts = record.failedAttempts + 1
+  const lockoutDuration = getLockoutDuration(failedAttempts)
+  const lockedUntil = lockoutDuration > 0 ? Date.now() + lockoutDuration : null
+  writePinRecord(userId, { ...record, failedAttempts, lockedUntil })
+
+  if (lockedUntil) {
+    return { status: "locked", lockedUntil }
+  }
+  return { status: "incorrect", attemptsBeforeLockout: FREE_ATTEMPTS - failedAttempts }
+}
+
+// Verifies the PIN and, if correct, allows one debit within the next minute
+export const authorizeDebit = async (userId: string, pin: string): Promise<PinCheckResult> => {
+  const result = await verifyPin(userId, pin)
+  if (result.status === "ok") {
+    debitAuthorizations.set(userId, Date.now() + DEBIT_AUTHORIZATION_MS)
+  }
+  return result
+}
+
+// Single use: each debit needs its own PIN entry
+export const consumeDebitAuthorization = (userId: string): boolean => {
+  const expiresAt = debitAuthorizations.get(userId)
+  debitAuthorizations.delete(userId)
+  return expiresAt !== undefined && expiresAt > Date.now()
+}
+
+export const revokeDebitAuthorization = (userId: string): void => {
+  debitAuthorizations.delete(userId)
+}
+
+// The PIN also derives the vault key, so changing it re-encrypts everything
+// stored under the old key. All of it is re-encrypted in memory first and
+// committed in one IndexedDB transaction, so a failure or a closed tab leaves
+// either the old PIN or the new one opening everything.
+export const changePin = async (userId: string, currentPin: string, newPin: string): Promise<PinCheckResult> => {
+  if (!isValidPin(newPin)) {
+    throw new Error(`PIN must be ${PIN_LENGTH} digits`)
+  }
+
+  const result = await verifyPin(userId, currentPin)
+  if (result.status !== "ok") {
+    return result
+  }
+
+  const previousKey = getSessionKey()
+  const nextKey = await deriveEncryptionKey(newPin)
+
+  const transactions = await reencryptTransactions(previousKey, nextKey)
+  const wallet = await reencryptWallet(userId, previousKey, nextKey)
+  const entries: [string, string][] = [
+    await buildVaultEntry(userId, nextKey),
+    [getPinKey(userId), JSON.stringify(await createPinRecord(newPin))],
+    ...(wallet ? [wallet] : []),
+  ]
+
+  await transactionRepository.putManyAndMark(transactions, { key: PIN_CHANGE_KEY, value: entries })
+  rekeySession(nextKey)
+  await finishPinChange(userId)
+
+  return { status: "ok" }
+}
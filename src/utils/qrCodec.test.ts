@@ -0,0 +1,182 @@
+import type { QRData } from '../types';
+import { decodeBase45, encodeBase45 } from './base45';
+import { decodeCbor, encodeCbor } from './cbor';
+import { exportPublicKey, generateSigningKeyPair, signTransaction } from './crypto';
+import { QR_PAYLOAD_PREFIX, decodeQRPayload, encodeQRPayload } from './qrCodec';
+import { MAX_QR_FRAMES, QRFrameAssembler, QR_FRAME_CHUNK_SIZE, encodeQRFrames } from './qrFrames';
+
+const makeQRData = async (): Promise<QRData> => {
+  const keyPair = await generateSigningKeyPair();
+  const publicKey = await exportPublicKey(keyPair.publicKey);
+  const transaction: QRData['transaction'] = {
+    id: 'k3j9x0qa',
+    amount: 249.5,
+    sender: `wallet_${'ab'.repeat(20)}`,
+    recipient: 'Corner Café',
+    timestamp: 1700000000000,
+    description: 'Coffee',
+    status: 'pending',
+    nonce: 1700000000123,
+    expiresAt: 1700000030000,
+  };
+  transaction.signature = await signTransaction(transaction, keyPair.privateKey);
+  return { transaction, publicKey };
+};
+
+const withHeader = (header: number, body: Uint8Array) => {
+  const bytes = new Uint8Array(body.length + 1);
+  bytes[0] = header;
+  bytes.set(body, 1);
+  return QR_PAYLOAD_PREFIX + encodeBase45(bytes);
+};
+
+describe('QR payload codec', () => {
+  test('should round-trip Base45 as specified in RFC 9285', () => {
+    expect(encodeBase45(new TextEncoder().encode('AB'))).toBe('BB8');
+    expect(encodeBase45(new TextEncoder().encode('Hello!!'))).toBe('%69 VD92EX0');
+    expect(new TextDecoder().decode(decodeBase45('QED8WEX0'))).toBe('ietf!');
+  });
+
+  test('should round-trip CBOR values', () => {
+    const value = [
+      0, 23, 24, 65535, 1700000000000, -1, -500, 0.5, 'café', new Uint8Array([1, 2, 3]), null, true, { a: [false] },
+    ];
+
+    expect(decodeCbor(encodeCbor(value))).toEqual(value);
+  });
+
+  test('should round-trip a payment in the QR alphanumeric set', async () => {
+    const data = await makeQRData();
+    const encoded = encodeQRPayload({ type: 'payment', data });
+
+    expect(encoded).toMatch(/^[0-9A-Z $%*+\-./:]+$/);
+    expect(decodeQRPayload(encoded)).toEqual({ type: 'payment', data });
+  });
+
+  test('should be smaller than the JSON encoding', async () => {
+    const data = await makeQRData();
+
+    expect(encodeQRPayload({ type: 'payment', data }).length).toBeLessThan(JSON.stringify(data).length);
+  });
+
+  test('should still read JSON codes from earlier versions', async () => {
+    const data = await makeQRData();
+
+    expect(decodeQRPayload(JSON.stringify(data))).toEqual({ type: 'payment', data });
+  });
+
+  test('should reject a newer payload version', async () => {
+    const encoded = encodeQRPayload({ type: 'payment', data: await makeQRData() });
+    const bytes = decodeBase45(encoded.slice(QR_PAYLOAD_PREFIX.length));
+
+    expect(() => decodeQRPayload(withHeader(0x12, bytes.subarray(1)))).toThrow('Unsupported QR code version 2');
+  });
+
+  test('should reject payloads that fail validation', async () => {
+    const data = await makeQRData();
+
+    expect(() => decodeQRPayload(JSON.stringify({ ...data, transaction: { ...data.transaction, amount: -5 } }))).toThrow(
+      'Invalid QR data format: transaction.amount'
+    );
+    expect(() => decodeQRPayload(withHeader(0x11, encodeCbor(['only-an-id'])))).toThrow('malformed payment');
+    expect(() => decodeQRPayload('https://example.com')).toThrow('not an OffPay QR code');
+  });
+});
+
+describe('Animated QR frames', () => {
+  // Enough key rotations to push a payment past the single-code limit
+  const makeLargeQRData = async (): Promise<QRData> => {
+    const data = await makeQRData();
+    const certificate = {
+      publicKey: data.publicKey,
+      previousPublicKey: data.publicKey,
+      issuedAt: 1,
+      signature: data.transaction.signature!,
+    };
+    return { ...data, keyProof: Array.from({ length: 6 }, () => certificate) };
+  };
+
+  const feed = (assembler: QRFrameAssembler, frames: string[]) =>
+    frames.map(frame => {
+      const payload = decodeQRPayload(frame);
+      if (payload.type !== 'frame') throw new Error('expected a frame');
+      return assembler.add(payload.data);
+    });
+
+  test('should keep small payloads in a single code', async () => {
+    const data = await makeQRData();
+
+    expect(encodeQRFrames({ type: 'payment', data })).toEqual([encodeQRPayload({ type: 'payment', data })]);
+  });
+
+  test('should reassemble frames received out of order and repeated', async () => {
+    const data = await makeLargeQRData();
+    const frames = encodeQRFrames({ type: 'payment', data });
+    expect(frames.length).toBeGreaterThan(2);
+
+    const assembler = new QRFrameAssembler();
+    const shuffled = [frames[2], frames[0], frames[2], ...frames.slice(3), frames[1]];
+    const results = feed(assembler, shuffled);
+
+    expect(results[0]).toEqual({ status: 'progress', received: 1, total: frames.length });
+    expect(results[2]).toEqual({ status: 'progress', received: 2, total: frames.length });
+    expect(results[results.length - 1]).toEqual({ status: 'complete', payload: { type: 'payment', data } });
+  });
+
+  test('should start over when another message begins', async () => {
+    const first = encodeQRFrames({ type: 'payment', data: await makeLargeQRData() });
+    const second = encodeQRFrames({ type: 'payment', data: await makeLargeQRData() });
+    const assembler = new QRFrameAssembler();
+
+    feed(assembler, first.slice(1));
+    const [restarted] = feed(assembler, second.slice(0, 1));
+
+    expect(restarted).toEqual({ status: 'progress', received: 1, total: second.length });
+  });
+
+  test('should reject a reassembled payload with a bad checksum', async () => {
+    const frames = encodeQRFrames({ type: 'payment', data: await makeLargeQRData() });
+    const assembler = new QRFrameAssembler();
+    const corrupted = frames.map(frame => {
+      const payload = decodeQRPayload(frame);
+      if (payload.type !== 'frame') throw new Error('expected a frame');
+      payload.data.chunk[0] ^= 0xff;
+      return payload.data;
+    });
+
+    corrupted.slice(0, -1).forEach(frame => assembler.add(frame));
+    expect(() => assembler.add(corrupted[corrupted.length - 1])).toThrow('failed its checksum');
+  });
+
+  test('should refuse frames claiming a message larger than any payload', () => {
+    const assembler = new QRFrameAssembler();
+    const frame = { messageId: new Uint8Array(4), index: 0, checksum: 0, chunk: new Uint8Array(10) };
+
+    expect(() => assembler.add({ ...frame, total: MAX_QR_FRAMES + 1 })).toThrow('larger than any OffPay code');
+    expect(() => assembler.add({ ...frame, total: 2, chunk: new Uint8Array(QR_FRAME_CHUNK_SIZE + 1) })).toThrow(
+      'larger than any OffPay code'
+    );
+    expect(assembler.add({ ...frame, total: MAX_QR_FRAMES })).toEqual({
+      status: 'progress',
+      received: 1,
+      total: MAX_QR_FRAMES,
+    });
+  });
+
+  test('should carry a connection offer across frames', () => {
+    const candidates = Array.from(
+      { length: 8 },
+      (_, i) => `a=candidate:${i} 1 udp 2113937151 ${'f'.repeat(8)}-${i}.local 5${i}000 typ host generation 0`,
+    );
+    const signal = {
+      role: 'offer' as const,
+      sessionId: 'k3j9x0qa',
+      sdp: ['v=0', 'o=- 4611731400430051336 2 IN IP4 127.0.0.1', 's=-', 't=0 0', ...candidates, ''].join('\r\n'),
+    };
+    const frames = encodeQRFrames({ type: 'signal', data: signal });
+    expect(frames.length).toBeGreaterThan(1);
+
+    const results = feed(new QRFrameAssembler(), frames);
+    expect(results[results.length - 1]).toEqual({ status: 'complete', payload: { type: 'signal', data: signal } });
+  });
+});
@@ -0,0 +1,435 @@
+import { z } from "zod"
+import type { KeyCertificate, PaymentReceipt, PeerSignal, QRData, QRFrame, SignedPaymentRequest } from "../types"
+import { decodeBase45, encodeBase45 } from "./base45"
+import { type CborValue, decodeCbor, encodeCbor } from "./cbor"
+import { base64ToBytes, bytesToBase64 } from "./crypto"
+
+// Encoded payloads are `OP:` followed by Base45 of one header byte and a CBOR
+// body. The header's high nibble is the payload type, the low nibble its version.
+// Payloads too big for one code are split into `frame` payloads (see qrFrames).
+export const QR_PAYLOAD_PREFIX = "OP:"
+
+// `payment` carries an offer (a voucher signed by the payer); it kept the name
+// it had before requests existed so older codes still read the same way
+export type QRPayload =
+  | { type: "payment"; data: QRData }
+  | { type: "frame"; data: QRFrame }
+  | { type: "receipt"; data: PaymentReceipt }
+  | { type: "request"; data: SignedPaymentRequest }
+  | { type: "signal"; data: PeerSignal }
+
+export type QRPayloadType = QRPayload["type"]
+
+type PayloadData<T extends QRPayloadType> = Extract<QRPayload, { type: T }>["data"]
+
+interface PayloadCodec<T> {
+  // Stored in the high nibble of the header byte; never reuse a code
+  code: number
+  // The newest body layout this build can write and read
+  version: number
+  encode: (data: T) => CborValue
+  decode: (body: CborValue) => T
+}
+
+export const keyCertificateSchema = z.object({
+  publicKey: z.string().min(1),
+  previousPublicKey: z.string().min(1),
+  issuedAt: z.number().int().nonnegative(),
+  signature: z.string().min(1),
+})
+
+export const qrDataSchema = z.object({
+  transaction: z.object({
+    id: z.string().min(1),
+    amount: z.number().positive().finite(),
+    recipient: z.string().min(1),
+    sender: z.string().min(1),
+    timestamp: z.number().int().nonnegative(),
+    description: z.string(),
+    status: z.enum(["pending", "synced", "verified"]),
+    signature: z.string().min(1),
+    nonce: z.number().int().nonnegative().optional(),
+    expiresAt: z.number().int().nonnegative().optional(),
+  }),
+  publicKey: z.string().min(1),
+  keyProof: z.array(keyCertificateSchema).optional(),
+})
+
+const bytesSchema = z.custom<Uint8Array>((value) => value instanceof Uint8Array, "Expected bytes")
+
+// Wallet addresses are 20 bytes of hex behind a fixed prefix
+const WALLET_ADDRESS_PATTERN = /^wallet_([0-9a-f]{40})$/
+
+const packAddress = (address: string): string | Uint8Array => {
+  const match = WALLET_ADDRESS_PATTERN.exec(address)
+  return match ? Uint8Array.from(match[1].match(/../g)!, (pair) => Number.parseInt(pair, 16)) : address
+}
+
+const unpackAddress = (address: string | Uint8Array): string => {
+  if (typeof address === "string") {
+    return address
+  }
+  return `wallet_${Array.from(address, (byte) => byte.toString(16).padStart(2, "0")).join("")}`
+}
+
+const keyProofBodySchema = z.array(z.tuple([bytesSchema, bytesSchema, z.number(), bytesSchema]))
+
+const encodeKeyProof = (keyProof: KeyCertificate[] = []): CborValue =>
+  keyProof.map((certificate) => [
+    base64ToBytes(certificate.publicKey),
+    base64ToBytes(certificate.previousPublicKey),
+    certificate.issuedAt,
+    base64ToBytes(certificate.signature),
+  ])
+
+// Omitted entirely when empty, matching how QR data has always been built
+const decodeKeyProof = (keyProof: z.infer<typeof keyProofBodySchema>): { keyProof?: KeyCertificate[] } =>
+  keyProof.length > 0
+    ? {
+        keyProof: keyProof.map(([publicKey, previousPublicKey, issuedAt, signature]) => ({
+          publicKey: bytesToBase64(publicKey),
+          previousPublicKey: bytesToBase64(previousPublicKey),
+          issuedAt,
+          signature: bytesToBase64(signature),
+        })),
+      }
+    : {}
+
+const paymentBodySchema = z.tuple([
+  z.string(), // id
+  z.number(), // amount
+  z.union([z.string(), bytesSchema]), // sender
+  z.string(), // recipient
+  z.number(), // timestamp
+  z.string(), // description
+  z.number().nullable(), // nonce
+  z.number().nullable(), // expiresAt
+  bytesSchema, // signature
+  bytesSchema, // publicKey
+  keyProofBodySchema,
+])
+
+const encodePaymentBody = (data: QRData): CborValue => {
+  const { transaction } = data
+  return [
+    transaction.id,
+    transaction.amount,
+    packAddress(transaction.sender),
+    transaction.recipient,
+    transaction.timestamp,
+    transaction.description ?? "",
+    transaction.nonce ?? null,
+    transaction.expiresAt ?? null,
+    base64ToBytes(transaction.signature ?? ""),
+    base64ToBytes(data.publicKey),
+    encodeKeyProof(data.keyProof),
+  ]
+}
+
+const decodePaymentBody = (body: CborValue): QRData => {
+  const parsed = paymentBodySchema.safeParse(body)
+  if (!parsed.success) {
+    throw new Error("Invalid QR data format: malformed payment")
+  }
+
+  const [id, amount, sender, recipient, timestamp, description, nonce, expiresAt, signature, publicKey, keyProof] =
+    parsed.data
+  const data: QRData = {
+    transaction: {
+      id,
+      amount,
+      sender: unpackAddress(sender),
+      recipient,
+      timestamp,
+      description,
+      // Status isn't encoded; a scanned payment is always new to the scanner
+      status: "pending",
+      signature: bytesToBase64(signature),
+      ...(nonce !== null && { nonce }),
+      ...(expiresAt !== null && { expiresAt }),
+    },
+    publicKey: bytesToBase64(publicKey),
+    ...decodeKeyProof(keyProof),
+  }
+  return validateQRData(data)
+}
+
+const toFormatError = (error: z.ZodError): Error => {
+  const issue = error.issues[0]
+  return new Error(`Invalid QR data format: ${issue.path.join(".") || "payload"} ${issue.message.toLowerCase()}`)
+}
+
+const validateQRData = (data: unknown): QRData => {
+  const parsed = qrDataSchema.safeParse(data)
+  if (!parsed.success) {
+    throw toFormatError(parsed.error)
+  }
+  return parsed.data as QRData
+}
+
+const frameBodySchema = z.tuple([
+  bytesSchema, // messageId
+  z.number().int().nonnegative(), // index
+  z.number().int().positive(), // total
+  z.number().int().nonnegative(), // checksum
+  bytesSchema, // chunk
+])
+
+const encodeFrameBody = (frame: QRFrame): CborValue => [
+  frame.messageId,
+  frame.index,
+  frame.total,
+  frame.checksum,
+  frame.chunk,
+]
+
+const decodeFrameBody = (body: CborValue): QRFrame => {
+  const parsed = frameBodySchema.safeParse(body)
+  if (!parsed.success || parsed.data[1] >= parsed.data[2]) {
+    throw new Error("Invalid QR data format: malformed frame")
+  }
+
+  const [messageId, index, total, checksum, chunk] = parsed.data
+  return { messageId, index, total, checksum, chunk }
+}
+
+const receiptBodySchema = z.tuple([
+  z.string().min(1), // transactionId
+  z.number().positive(), // amount
+  z.union([z.string(), bytesSchema]), // payer
+  z.number().int().nonnegative(), // paidAt
+  bytesSchema, // signature
+  bytesSchema, // publicKey
+  keyProofBodySchema,
+])
+
+const encodeReceiptBody = (receipt: PaymentReceipt): CborValue => [
+  receipt.transactionId,
+  receipt.amount,
+  packAddress(receipt.payer),
+  receipt.paidAt,
+  base64ToBytes(receipt.signature),
+  base64ToBytes(receipt.publicKey),
+  encodeKeyProof(receipt.keyProof),
+]
+
+const decodeReceiptBody = (body: CborValue): PaymentReceipt => {
+  const parsed = receiptBodySchema.safeParse(body)
+  if (!parsed.success) {
+    throw new Error("Invalid QR data format: malformed receipt")
+  }
+
+  const [transactionId, amount, payer, paidAt, signature, publicKey, keyProof] = parsed.data
+  return {
+    transactionId,
+    amount,
+    payer: unpackAddress(payer),
+    paidAt,
+    signature: bytesToBase64(signature),
+    publicKey: bytesToBase64(publicKey),
+    ...decodeKeyProof(keyProof),
+  }
+}
+
+export const paymentRequestSchema = z.object({
+  request: z
+    .object({
+      id: z.string().min(1),
+      intent: z.enum(["request", "open-amount"]),
+      payee: z.string().min(1),
+      payeeName: z.string().min(1),
+      amount: z.number().positive().finite().optional(),
+      description: z.string(),
+      timestamp: z.number().int().nonnegative(),
+      nonce: z.number().int().nonnegative(),
+      expiresAt: z.number().int().nonnegative().optional(),
+      signature: z.string().min(1),
+    })
+    .refine((request) => (request.intent === "open-amount") === (request.amount === undefined), {
+      message: "Amount must be set for a fixed request and left out for an open amount",
+      path: ["amount"],
+    }),
+  publicKey: z.string().min(1),
+  keyProof: z.array(keyCertificateSchema).optional(),
+})
+
+// Intents are stored as a number; append new ones, never reorder
+const REQUEST_INTENTS = ["request", "open-amount"] as const
+
+const requestBodySchema = z.tuple([
+  z.string(), // id
+  z.number().int(), // intent
+  z.union([z.string(), bytesSchema]), // payee
+  z.string(), // payeeName
+  z.number().nullable(), // amount
+  z.string(), // description
+  z.number(), // timestamp
+  z.number(), // nonce
+  z.number().nullable(), // expiresAt
+  bytesSchema, // signature
+  bytesSchema, // publicKey
+  keyProofBodySchema,
+])
+
+const encodeRequestBody = (data: SignedPaymentRequest): CborValue => {
+  const { request } = data
+  return [
+    request.id,
+    REQUEST_INTENTS.indexOf(request.intent),
+    packAddress(request.payee),
+    request.payeeName,
+    request.amount ?? null,
+    request.description,
+    request.timestamp,
+    request.nonce,
+    request.expiresAt ?? null,
+    base64ToBytes(request.signature),
+    base64ToBytes(data.publicKey),
+    encodeKeyProof(data.keyProof),
+  ]
+}
+
+const decodeRequestBody = (body: CborValue): SignedPaymentRequest => {
+  const parsed = requestBodySchema.safeParse(body)
+  if (!parsed.success || !REQUEST_INTENTS[parsed.data[1]]) {
+    throw new Error("Invalid QR data format: malformed payment request")
+  }
+
+  const [
+    id,
+    intent,
+    payee,
+    payeeName,
+    amount,
+    description,
+    timestamp,
+    nonce,
+    expiresAt,
+    signature,
+    publicKey,
+    keyProof,
+  ] = parsed.data
+  const data = {
+    request: {
+      id,
+      intent: REQUEST_INTENTS[intent],
+      payee: unpackAddress(payee),
+      payeeName,
+      ...(amount !== null && { amount }),
+      description,
+      timestamp,
+      nonce,
+      ...(expiresAt !== null && { expiresAt }),
+      signature: bytesToBase64(signature),
+    },
+    publicKey: bytesToBase64(publicKey),
+    ...decodeKeyProof(keyProof),
+  }
+
+  const validated = paymentRequestSchema.safeParse(data)
+  if (!validated.success) {
+    throw toFormatError(validated.error)
+  }
+  return validated.data as SignedPaymentRequest
+}
+
+// Roles are stored as a number; append new ones, never reorder
+const SIGNAL_ROLES = ["offer", "answer"] as const
+
+const signalBodySchema = z.tuple([
+  z.number().int(), // role
+  z.string().min(1), // sessionId
+  z.string().min(1), // sdp
+])
+
+const encodeSignalBody = (signal: PeerSignal): CborValue => [
+  SIGNAL_ROLES.indexOf(signal.role),
+  signal.sessionId,
+  signal.sdp,
+]
+
+const decodeSignalBody = (body: CborValue): PeerSignal => {
+  const parsed = signalBodySchema.safeParse(body)
+  if (!parsed.success || !SIGNAL_ROLES[parsed.data[0]]) {
+    throw new Error("Invalid QR data format: malformed connection code")
+  }
+
+  const [role, sessionId, sdp] = parsed.data
+  return { role: SIGNAL_ROLES[role], sessionId, sdp }
+}
+
+const PAYLOAD_CODECS: { [T in QRPayloadType]: PayloadCodec<PayloadData<T>> } = {
+  payment: { code: 1, version: 1, encode: encodePaymentBody, decode: decodePaymentBody },
+  frame: { code: 2, version: 1, encode: encodeFrameBody, decode: decodeFrameBody },
+  receipt: { code: 3, version: 1, encode: encodeReceiptBody, decode: decodeReceiptBody },
+  // v2: expiresAt may be null, for single-use requests
+  request: { code: 4, version: 2, encode: encodeRequestBody, decode: decodeRequestBody },
+  signal: { code: 5, version: 1, encode: encodeSignalBody, decode: decodeSignalBody },
+}
+
+// Header byte followed by the CBOR body; this is what frames split up
+export const encodeQRPayloadBytes = (payload: QRPayload): Uint8Array => {
+  const codec = PAYLOAD_CODECS[payload.type] as PayloadCodec<QRPayload["data"]>
+  const body = encodeCbor(codec.encode(payload.data))
+
+  const bytes = new Uint8Array(body.length + 1)
+  bytes[0] = (codec.code << 4) | codec.version
+  bytes.set(body, 1)
+  return bytes
+}
+
+export const decodeQRPayloadBytes = (bytes: Uint8Array): QRPayload => {
+  if (bytes.length < 2) {
+    throw new Error("Invalid QR data format: empty payload")
+  }
+
+  const code = bytes[0] >> 4
+  const version = bytes[0] & 0x0f
+  const type = (Object.keys(PAYLOAD_CODECS) as QRPayloadType[]).find((name) => PAYLOAD_CODECS[name].code === code)
+  if (!type) {
+    throw new Error("This QR code type isn't supported by this version of OffPay. Please update the app.")
+  }
+  if (version > PAYLOAD_CODECS[type].version) {
+    throw new Error(`Unsupported QR code version ${version}. Please update OffPay to read it.`)
+  }
+
+  let body: CborValue
+  try {
+    body = decodeCbor(bytes.subarray(1))
+  } catch {
+    throw new Error("Invalid QR data format: damaged payload")
+  }
+  return { type, data: PAYLOAD_CODECS[type].decode(body) } as QRPayload
+}
+
+export const encodeQRPayload = (payload: QRPayload): string => {
+  return QR_PAYLOAD_PREFIX + encodeBase45(encodeQRPayloadBytes(payload))
+}
+
+// Throws with a message suitable for showing to the user
+export const decodeQRPayload = (text: string): QRPayload => {
+  const trimmed = text.trim()
+
+  // Codes from before the binary format held the QRData as JSON
+  if (trimmed.startsWith("{")) {
+    let json: unknown
+    try {
+      json = JSON.parse(trimmed)
+    } catch {
+      throw new Error("Invalid QR data format: not valid JSON")
+    }
+    return { type: "payment", data: validateQRData(json) }
+  }
+
+  if (!trimmed.startsWith(QR_PAYLOAD_PREFIX)) {
+    throw new Error("This is not an OffPay QR code")
+  }
+
+  let bytes: Uint8Array
+  try {
+    bytes = decodeBase45(trimmed.slice(QR_PAYLOAD_PREFIX.length))
+  } catch {
+    throw new Error("Invalid QR data format: damaged encoding")
+  }
+  return decodeQRPayloadBytes(bytes)
+}
@@ -0,0 +1,125 @@
+import type { QRFrame } from "../types"
+import { type QRPayload, decodeQRPayloadBytes, encodeQRPayload, encodeQRPayloadBytes } from "./qrCodec"
+
+// Above this a single code gets too dense for phone cameras to read reliably
+export const MAX_SINGLE_QR_BYTES = 400
+export const QR_FRAME_CHUNK_SIZE = 300
+// Well above the largest payload we animate, a connection offer with all its
+// candidates. Frames claiming a longer message are refused before anything is
+// allocated for them.
+export const MAX_FRAMED_PAYLOAD_BYTES = 16 * 1024
+export const MAX_QR_FRAMES = Math.ceil(MAX_FRAMED_PAYLOAD_BYTES / QR_FRAME_CHUNK_SIZE)
+// How long each frame of an animated code is shown
+export const QR_FRAME_INTERVAL_MS = 250
+
+const CRC32_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  }
+  return c >>> 0
+})
+
+export const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff
+  for (const byte of bytes) {
+    crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+const sameBytes = (a: Uint8Array, b: Uint8Array): boolean => {
+  return a.length === b.length && a.every((byte, i) => byte === b[i])
+}
+
+// Returns the codes to show in order: one for a small payload, otherwise a loop
+// of frames. The loop is repeated until the scanner has every frame.
+export const encodeQRFrames = (payload: QRPayload): string[] => {
+  const bytes = encodeQRPayloadBytes(payload)
+  if (bytes.length <= MAX_SINGLE_QR_BYTES) {
+    return [encodeQRPayload(payload)]
+  }
+
+  const messageId = crypto.getRandomValues(new Uint8Array(4))
+  const checksum = crc32(bytes)
+  const total = Math.ceil(bytes.length / QR_FRAME_CHUNK_SIZE)
+  if (total > MAX_QR_FRAMES) {
+    throw new Error("Payload is too large for an animated QR code")
+  }
+
+  return Array.from({ length: total }, (_, index) =>
+    encodeQRPayload({
+      type: "frame",
+      data: {
+        messageId,
+        index,
+        total,
+        checksum,
+        chunk: bytes.subarray(index * QR_FRAME_CHUNK_SIZE, (index + 1) * QR_FRAME_CHUNK_SIZE),
+      },
+    }),
+  )
+}
+
+export type FrameAssemblyResult =
+  | { status: "progress"; received: number; total: number }
+  | { status: "complete"; payload: QRPayload }
+
+// Collects frames in any order, ignoring repeats. A frame from a different
+// message starts over, since the sender has moved on to another code.
+export class QRFrameAssembler {
+  private messageId: Uint8Array | null = null
+  private chunks: (Uint8Array | undefined)[] = []
+  private checksum = 0
+
+  get received(): number {
+    return this.chunks.filter(Boolean).length
+  }
+
+  add(frame: QRFrame): FrameAssemblyResult {
+    if (frame.total > MAX_QR_FRAMES || frame.chunk.length > QR_FRAME_CHUNK_SIZE) {
+      throw new Error("Animated QR code is larger than any OffPay code")
+    }
+
+    const isNewMessage =
+      !this.messageId ||
+      !sameBytes(this.messageId, frame.messageId) ||
+      this.chunks.length !== frame.total ||
+      this.checksum !== frame.checksum
+    if (isNewMessage) {
+      this.messageId = frame.messageId
+      this.chunks = new Array(frame.total)
+      this.checksum = frame.checksum
+    }
+    this.chunks[frame.index] = frame.chunk
+
+    if (this.received < frame.total) {
+      return { status: "progress", received: this.received, total: frame.total }
+    }
+
+    const bytes = new Uint8Array(this.chunks.reduce((length, chunk) => length + chunk!.length, 0))
+    let offset = 0
+    for (const chunk of this.chunks) {
+      bytes.set(chunk!, offset)
+      offset += chunk!.length
+    }
+
+    const checksum = this.checksum
+    this.reset()
+    if (crc32(bytes) !== checksum) {
+      throw new Error("Animated QR code failed its checksum. Please scan it again.")
+    }
+
+    const payload = decodeQRPayloadBytes(bytes)
+    if (payload.type === "frame") {
+      throw new Error("Invalid QR data format: nested frames")
+    }
+    return { status: "complete", payload }
+  }
+
+  reset(): void {
+    this.messageId = null
+    this.chunks = []
+    this.checksum = 0
+  }
+}
@@ -0,0 +1,29 @@
+import { BrowserQRCodeReader } from "@zxing/browser"
+import { DecodeHintType, NotFoundException } from "@zxing/library"
+
+// Stills can take a slower, more thorough pass than live video frames
+const IMAGE_HINTS = new Map<DecodeHintType, unknown>([[DecodeHintType.TRY_HARDER, true]])
+
+export const isImageFile = (file: Blob): boolean => file.type.startsWith("image/")
+
+// Reads the QR code in a screenshot or photo, e.g. one shared over chat.
+// Throws with a message suitable for showing to the user.
+export const decodeQRFromImage = async (image: Blob): Promise<string> => {
+  if (!isImageFile(image)) {
+    throw new Error("That file isn't an image. Choose a screenshot or photo of the QR code.")
+  }
+
+  const url = URL.createObjectURL(image)
+  try {
+    const result = await new BrowserQRCodeReader(IMAGE_HINTS).decodeFromImageUrl(url)
+    return result.getText()
+  } catch (error) {
+    if (error instanceof NotFoundException) {
+      throw new Error("No QR code was found in that image. Try cropping closer to the code.")
+    }
+    console.error("Failed to read QR image:", error)
+    throw new Error("That image couldn't be read. Please try another one.")
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
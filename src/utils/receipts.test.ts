@@ -0,0 +1,41 @@
+import { makeSigner } from '../test/signers';
+import type { Transaction } from '../types';
+import { decodeQRPayload, encodeQRPayload } from './qrCodec';
+import { createPaymentReceipt, verifyPaymentReceipt } from './receipts';
+
+const transaction: Transaction = {
+  id: 'tx1',
+  amount: 250,
+  sender: 'wallet_payee',
+  recipient: 'shop',
+  timestamp: 1700000000000,
+  description: 'Coffee',
+  status: 'pending',
+  signature: 'c2lnbmF0dXJl',
+};
+
+describe('Payment receipts', () => {
+  test('should verify a receipt after a trip through a QR code', async () => {
+    const receipt = await createPaymentReceipt(transaction, await makeSigner());
+    const scanned = decodeQRPayload(encodeQRPayload({ type: 'receipt', data: receipt }));
+
+    expect(scanned).toEqual({ type: 'receipt', data: receipt });
+    expect(await verifyPaymentReceipt(receipt, transaction)).toBe(true);
+  });
+
+  test('should reject a receipt for a different payment', async () => {
+    const receipt = await createPaymentReceipt(transaction, await makeSigner());
+
+    expect(await verifyPaymentReceipt(receipt, { ...transaction, id: 'tx2' })).toBe(false);
+    expect(await verifyPaymentReceipt(receipt, { ...transaction, amount: 25 })).toBe(false);
+    expect(await verifyPaymentReceipt(receipt, { ...transaction, signature: 'b3RoZXI=' })).toBe(false);
+  });
+
+  test('should reject a receipt signed by another wallet', async () => {
+    const receipt = await createPaymentReceipt(transaction, await makeSigner());
+    const other = await makeSigner();
+
+    expect(await verifyPaymentReceipt({ ...receipt, payer: other.address }, transaction)).toBe(false);
+    expect(await verifyPaymentReceipt({ ...receipt, publicKey: other.publicKey }, transaction)).toBe(false);
+  });
+});
@@ -0,0 +1,53 @@
+import type { PaymentReceipt, Transaction } from "../types"
+import { signData, verifyData } from "./crypto"
+import { type WalletSigner, verifyWalletKey } from "./wallet"
+
+const RECEIPT_SIGNATURE_VERSION = "offpay-receipt-v1"
+
+// The part of a payment a receipt is bound to: a transaction, or a payment
+// request when the payee never sees the payer's transaction
+export type ReceiptSubject = Pick<Transaction, "id" | "amount" | "signature">
+
+// The receipt commits to the payment's own signature so it can't be replayed
+// against a different request that happens to share an id
+const serializeReceiptForSigning = (
+  receipt: Pick<PaymentReceipt, "transactionId" | "amount" | "payer" | "paidAt">,
+  subject: ReceiptSubject,
+): string => {
+  return JSON.stringify([
+    RECEIPT_SIGNATURE_VERSION,
+    receipt.transactionId,
+    receipt.amount,
+    receipt.payer,
+    receipt.paidAt,
+    subject.signature ?? "",
+  ])
+}
+
+export const createPaymentReceipt = async (subject: ReceiptSubject, signer: WalletSigner): Promise<PaymentReceipt> => {
+  const receipt = {
+    transactionId: subject.id,
+    amount: subject.amount,
+    payer: signer.address,
+    paidAt: Date.now(),
+  }
+
+  return {
+    ...receipt,
+    signature: await signData(serializeReceiptForSigning(receipt, subject), signer.privateKey),
+    publicKey: signer.publicKey,
+    ...(signer.keyProof.length > 0 && { keyProof: signer.keyProof }),
+  }
+}
+
+// Checks the receipt is for `subject`, in full, and signed by the payer's wallet
+export const verifyPaymentReceipt = async (receipt: PaymentReceipt, subject: ReceiptSubject): Promise<boolean> => {
+  if (receipt.transactionId !== subject.id || receipt.amount !== subject.amount) {
+    return false
+  }
+
+  return (
+    (await verifyData(serializeReceiptForSigning(receipt, subject), receipt.signature, receipt.publicKey)) &&
+    (await verifyWalletKey(receipt.payer, receipt.publicKey, receipt.keyProof))
+  )
+}
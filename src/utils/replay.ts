@@ -0,0 +1,60 @@
+import type { NullifierClaim, PaymentRequest, QRValidity, Transaction } from "../types"
+import { nonceRepository, nullifierRepository } from "./repositories"
+
+// How long a freshly generated payment QR can be redeemed for
+export const QR_VALIDITY_MS = 30 * 1000
+
+// null: no expiry is signed in, so the code lasts until it's redeemed
+const QR_VALIDITY_PERIODS: Record<QRValidity, number | null> = {
+  "30s": QR_VALIDITY_MS,
+  "5m": 5 * 60 * 1000,
+  "1h": 60 * 60 * 1000,
+  "single-use": null,
+  reusable: null,
+}
+
+export const getQRExpiry = (validity: QRValidity, now: number = Date.now()): number | undefined => {
+  const period = QR_VALIDITY_PERIODS[validity]
+  return period === null ? undefined : now + period
+}
+
+export const getNullifier = (sender: string, nonce: number): string => `${sender}:${nonce}`
+
+export const hasReplayProtection = (transaction: Transaction): boolean => {
+  return typeof transaction.nonce === "number"
+}
+
+// Single-use codes carry no expiry; the nonce alone keeps them from being reused
+export const isPaymentExpired = (payment: { expiresAt?: number }, now: number = Date.now()): boolean => {
+  return payment.expiresAt !== undefined && now > payment.expiresAt
+}
+
+export const allocateNonce = (address: string): Promise<number> => nonceRepository.next(address)
+
+// Must succeed before the payment moves any credits. A payment without a nonce
+// predates replay protection and can't be redeemed.
+export const redeemPayment = async (transaction: Transaction): Promise<NullifierClaim> => {
+  if (!hasReplayProtection(transaction)) {
+    throw new Error("Payment has no nonce")
+  }
+
+  return nullifierRepository.claim({
+    nullifier: getNullifier(transaction.sender, transaction.nonce),
+    transactionId: transaction.id,
+    sender: transaction.sender,
+    nonce: transaction.nonce,
+    spentAt: Date.now(),
+  })
+}
+
+// A request is spent against the payee's nonce, so it can be paid only once no
+// matter who pays it
+export const redeemPaymentRequest = (request: PaymentRequest): Promise<NullifierClaim> => {
+  return nullifierRepository.claim({
+    nullifier: getNullifier(request.payee, request.nonce),
+    transactionId: request.id,
+    sender: request.payee,
+    nonce: request.nonce,
+    spentAt: Date.now(),
+  })
+}
@@ -0,0 +1,123 @@
+import 'fake-indexeddb/auto';
+import type { Block, CreditLedgerEntry, StoredTransaction } from '../types';
+import { deleteUserDatabase, setActiveUser } from './db';
+import {
+  blockRepository,
+  creditRepository,
+  eventRepository,
+  nonceRepository,
+  nullifierRepository,
+  quarantineRepository,
+  transactionRepository,
+} from './repositories';
+
+const USER = 'repository_user';
+
+const makeStored = (id: string, timestamp: number, status: StoredTransaction['status']): StoredTransaction => ({
+  id,
+  status,
+  timestamp,
+  encryptedData: `sealed_${id}`,
+});
+
+const makeBlock = (index: number): Block => ({
+  header: {
+    version: 2,
+    index,
+    timestamp: 1700000000000 + index,
+    previousHash: index === 0 ? '0'.repeat(64) : `hash${index - 1}`,
+    merkleRoot: '0'.repeat(64),
+    txCount: 0,
+    difficulty: 2,
+    nonce: 0,
+  },
+  hash: `hash${index}`,
+  transactions: [],
+});
+
+const makeEntry = (id: string, transactionId: string, amount: number): CreditLedgerEntry => ({
+  id,
+  userId: USER,
+  amount,
+  type: amount > 0 ? 'credit' : 'debit',
+  transactionId,
+  timestamp: Date.now(),
+  description: 'Test entry',
+});
+
+beforeEach(async () => {
+  await setActiveUser(USER);
+});
+
+afterEach(async () => {
+  await deleteUserDatabase(USER);
+});
+
+describe('Repositories', () => {
+  test('should list transactions oldest first and by status', async () => {
+    await transactionRepository.putMany([
+      makeStored('late', 3000, 'pending'),
+      makeStored('early', 1000, 'pending'),
+      makeStored('synced', 2000, 'synced'),
+    ]);
+
+    expect((await transactionRepository.list()).map((t) => t.id)).toEqual(['early', 'synced', 'late']);
+    expect((await transactionRepository.listByStatus('pending')).map((t) => t.id)).toEqual(['early', 'late']);
+    expect(await transactionRepository.get('synced')).toEqual(makeStored('synced', 2000, 'synced'));
+  });
+
+  test('should list blocks by height and move bad ones into quarantine together', async () => {
+    const blocks = [makeBlock(2), makeBlock(0), makeBlock(1)];
+    await Promise.all(blocks.map((block) => blockRepository.put(block)));
+    expect((await blockRepository.list()).map((block) => block.hash)).toEqual(['hash0', 'hash1', 'hash2']);
+
+    await blockRepository.quarantine([makeBlock(0)], [
+      { hash: 'hash1', block: makeBlock(1), reason: 'hash_mismatch', message: 'Hash mismatch', quarantinedAt: 1 },
+      { hash: 'hash2', block: makeBlock(2), reason: 'hash_mismatch', message: 'Builds on quarantined block', quarantinedAt: 1 },
+    ]);
+
+    expect((await blockRepository.list()).map((block) => block.hash)).toEqual(['hash0']);
+    expect((await quarantineRepository.list()).map((record) => record.hash).sort()).toEqual(['hash1', 'hash2']);
+  });
+
+  test('should apply each ledger entry once and never go below zero', async () => {
+    await creditRepository.openAccount(USER, 100);
+
+    expect((await creditRepository.applyEntry(makeEntry('e1', 'tx1', 50), 50))?.balance).toBe(150);
+    expect(await creditRepository.applyEntry(makeEntry('e2', 'tx1', 50), 50)).toBeNull();
+    expect((await creditRepository.applyEntry(makeEntry('e3', 'tx2', -500), -500))?.balance).toBe(0);
+
+    const credits = await creditRepository.getCredits(USER);
+    expect(credits?.balance).toBe(0);
+    expect(credits?.history.map((entry) => entry.id).sort()).toEqual(['e1', 'e3']);
+  });
+
+  test('should hand out strictly increasing nonces', async () => {
+    const first = await nonceRepository.next('wallet_a');
+    const second = await nonceRepository.next('wallet_a');
+
+    expect(first).toBeGreaterThanOrEqual(Date.now() - 1000);
+    expect(second).toBeGreaterThan(first);
+  });
+
+  test('should tell a redeemed nullifier apart from a double spend', async () => {
+    const record = { nullifier: 'n1', transactionId: 'tx1', sender: 'wallet_a', nonce: 1, spentAt: 1 };
+
+    expect(await nullifierRepository.claim(record)).toEqual({ status: 'claimed' });
+    expect(await nullifierRepository.claim(record)).toEqual({ status: 'spent', existing: record });
+    expect(await nullifierRepository.claim({ ...record, transactionId: 'tx2' })).toEqual({
+      status: 'conflict',
+      existing: record,
+    });
+  });
+
+  test('should prune events older than a cutoff', async () => {
+    await eventRepository.add({ id: 'old', type: 'payment', data: null, timestamp: 1000, status: 'acknowledged' });
+    await eventRepository.add({ id: 'new', type: 'payment', data: null, timestamp: 3000, status: 'pending' });
+
+    await eventRepository.pruneBefore(2000);
+
+    expect((await eventRepository.listByType('payment')).map((event) => event.id)).toEqual(['new']);
+    expect((await eventRepository.listByStatus('pending')).map((event) => event.id)).toEqual(['new']);
+  });
+});
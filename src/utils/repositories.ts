@@ -0,0 +1,190 @@
+import type {
+  Block,
+  CreditAccount,
+  CreditLedgerEntry,
+  EventDeliveryStatus,
+  NullifierClaim,
+  PaymentEventRecord,
+  QuarantinedBlock,
+  SpentNullifier,
+  StoredBankAccount,
+  StoredTransaction,
+  UserCredit,
+} from "../types"
+import {
+  type MetaRecord,
+  clearStore,
+  deleteRecord,
+  getAllRecords,
+  getRecord,
+  getRecordsByIndex,
+  putRecord,
+  putRecords,
+  requestToPromise,
+  withStores,
+} from "./db"
+
+const byTimestamp = <T extends { timestamp: number }>(a: T, b: T) => a.timestamp - b.timestamp
+
+export const transactionRepository = {
+  get: (id: string) => getRecord("transactions", id),
+  // Oldest first, matching the order transactions were originally appended in
+  list: async (): Promise<StoredTransaction[]> => (await getAllRecords("transactions")).sort(byTimestamp),
+  listByStatus: async (status: StoredTransaction["status"]): Promise<StoredTransaction[]> =>
+    (await getRecordsByIndex("transactions", "status", status)).sort(byTimestamp),
+  put: (transaction: StoredTransaction) => putRecord("transactions", transaction),
+  putMany: (transactions: StoredTransaction[]) => putRecords("transactions", transactions),
+  // Writes the records and sets `marker` in one transaction, so the marker is
+  // only ever there together with everything written alongside it
+  putManyAndMark: (transactions: StoredTransaction[], marker: MetaRecord) =>
+    withStores(["transactions", "meta"], "readwrite", (transaction) => {
+      const store = transaction.objectStore("transactions")
+      transactions.forEach((record) => store.put(record))
+      transaction.objectStore("meta").put(marker)
+    }),
+  clear: () => clearStore("transactions"),
+}
+
+export const metaRepository = {
+  get: async (key: string): Promise<unknown> => (await getRecord("meta", key))?.value,
+  remove: (key: string) => deleteRecord("meta", key),
+}
+
+export const blockRepository = {
+  // Ordered by height
+  list: (): Promise<Block[]> => getRecordsByIndex("blocks", "index"),
+  put: (block: Block) => putRecord("blocks", block),
+  replaceAll: (blocks: Block[]) =>
+    withStores("blocks", "readwrite", (transaction) => {
+      const store = transaction.objectStore("blocks")
+      store.clear()
+      blocks.forEach((block) => store.put(block))
+    }),
+  // Truncates the chain to `validBlocks` and moves the rest into quarantine in
+  // one transaction, so a crash can't lose blocks from both stores
+  quarantine: (validBlocks: Block[], quarantined: QuarantinedBlock[]) =>
+    withStores(["blocks", "quarantine"], "readwrite", (transaction) => {
+      const blocks = transaction.objectStore("blocks")
+      blocks.clear()
+      validBlocks.forEach((block) => blocks.put(block))
+      const quarantine = transaction.objectStore("quarantine")
+      quarantined.forEach((record) => quarantine.put(record))
+    }),
+}
+
+export const quarantineRepository = {
+  list: (): Promise<QuarantinedBlock[]> => getRecordsByIndex("quarantine", "quarantinedAt"),
+  remove: (hash: string) => deleteRecord("quarantine", hash),
+  clear: () => clearStore("quarantine"),
+}
+
+export const creditRepository = {
+  getCredits: async (userId: string): Promise<UserCredit | null> => {
+    const account = await getRecord("creditAccounts", userId)
+    if (!account) {
+      return null
+    }
+
+    const history = await getRecordsByIndex("creditLedger", "userId", userId)
+    return {
+      balance: account.balance,
+      // Newest first, as the credit history has always been displayed
+      history: history.sort((a, b) => b.timestamp - a.timestamp),
+    }
+  },
+  openAccount: async (userId: string, initialBalance: number): Promise<CreditAccount> => {
+    const account: CreditAccount = { userId, balance: initialBalance, updatedAt: Date.now() }
+    await putRecord("creditAccounts", account)
+    return account
+  },
+  // Appends the ledger entry and moves the balance in the same transaction.
+  // Returns null when the transaction already has an entry for this user.
+  applyEntry: (entry: CreditLedgerEntry, delta: number): Promise<CreditAccount | null> =>
+    withStores(["creditAccounts", "creditLedger"], "readwrite", async (transaction) => {
+      const ledger = transaction.objectStore("creditLedger")
+      const existing = await requestToPromise<CreditLedgerEntry[]>(
+        ledger.index("transactionId").getAll(entry.transactionId),
+      )
+      if (existing.some((e) => e.userId === entry.userId)) {
+        return null
+      }
+
+      const accounts = transaction.objectStore("creditAccounts")
+      const current = await requestToPromise<CreditAccount | undefined>(accounts.get(entry.userId))
+      const account: CreditAccount = {
+        userId: entry.userId,
+        balance: Math.max(0, (current?.balance ?? 0) + delta), // Ensure balance doesn't go negative
+        updatedAt: Date.now(),
+      }
+
+      ledger.put(entry)
+      accounts.put(account)
+      return account
+    }),
+}
+
+export const bankAccountRepository = {
+  listByUser: async (userId: string): Promise<StoredBankAccount[]> =>
+    (await getRecordsByIndex("bankAccounts", "userId", userId)).sort((a, b) => a.addedAt - b.addedAt),
+  put: (account: StoredBankAccount) => putRecord("bankAccounts", account),
+  putMany: (accounts: StoredBankAccount[]) => putRecords("bankAccounts", accounts),
+  remove: (id: string) => deleteRecord("bankAccounts", id),
+}
+
+export const eventRepository = {
+  add: (event: PaymentEventRecord) => putRecord("events", event),
+  get: (id: string) => getRecord("events", id),
+  listByStatus: (status: EventDeliveryStatus): Promise<PaymentEventRecord[]> =>
+    getRecordsByIndex("events", "status", status),
+  listByType: async (type: string): Promise<PaymentEventRecord[]> =>
+    (await getRecordsByIndex("events", "type", type)).sort(byTimestamp),
+  listSince: (timestamp: number): Promise<PaymentEventRecord[]> =>
+    getRecordsByIndex("events", "timestamp", IDBKeyRange.lowerBound(timestamp)),
+  pruneBefore: (timestamp: number) =>
+    withStores("events", "readwrite", (transaction) => {
+      const request = transaction
+        .objectStore("events")
+        .index("timestamp")
+        .openCursor(IDBKeyRange.upperBound(timestamp, true))
+      request.onsuccess = () => {
+        const cursor = request.result
+        if (cursor) {
+          cursor.delete()
+          cursor.continue()
+        }
+      }
+    }),
+}
+
+export const nonceRepository = {
+  // Strictly greater than any nonce this wallet used on this device. Seeded from
+  // the clock so a wallet restored onto a second device doesn't reuse nonces.
+  next: (address: string): Promise<number> =>
+    withStores("meta", "readwrite", async (transaction) => {
+      const meta = transaction.objectStore("meta")
+      const key = `nonce:${address}`
+      const current = await requestToPromise<MetaRecord | undefined>(meta.get(key))
+      const nonce = Math.max(typeof current?.value === "number" ? current.value + 1 : 0, Date.now())
+      meta.put({ key, value: nonce })
+      return nonce
+    }),
+}
+
+export const nullifierRepository = {
+  get: (nullifier: string) => getRecord("nullifiers", nullifier),
+  // Checks and records the nullifier in one transaction so two scans racing each
+  // other can't both succeed
+  claim: (record: SpentNullifier): Promise<NullifierClaim> =>
+    withStores("nullifiers", "readwrite", async (transaction) => {
+      const store = transaction.objectStore("nullifiers")
+      const existing = await requestToPromise<SpentNullifier | undefined>(store.get(record.nullifier))
+      if (existing) {
+        return existing.transactionId === record.transactionId
+          ? { status: "spent", existing }
+          : { status: "conflict", existing }
+      }
+
+      store.put(record)
+      return { status: "claimed" }
+    }),
+}
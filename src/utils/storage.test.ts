@@ -0,0 +1,61 @@
+import 'fake-indexeddb/auto';
+import type { StoredTransaction, Transaction } from '../types';
+import { deleteUserDatabase, setActiveUser } from './db';
+import { transactionRepository } from './repositories';
+import { getTransactionById, getTransactions, migrateLegacyTransactions } from './storage';
+import { createVault, lockVault } from './vault';
+
+const USER = 'storage_user';
+
+const makeTransaction = (id: string): Transaction => ({
+  id,
+  amount: 25,
+  sender: 'wallet_sender',
+  recipient: 'wallet_recipient',
+  timestamp: 1700000000000,
+  description: 'Lunch',
+  status: 'verified',
+});
+
+// How records were written before they were encrypted
+const writeBareRecord = (transaction: Transaction): Promise<void> => {
+  const stored: StoredTransaction = {
+    id: transaction.id,
+    status: transaction.status,
+    timestamp: transaction.timestamp,
+    encryptedData: btoa(JSON.stringify(transaction)),
+  };
+  return transactionRepository.put(stored);
+};
+
+beforeEach(async () => {
+  await setActiveUser(USER);
+  await createVault(USER, '123456');
+});
+
+afterEach(async () => {
+  lockVault();
+  await deleteUserDatabase(USER);
+});
+
+describe('Legacy transaction migration', () => {
+  test('should seal bare records once and read them back', async () => {
+    await writeBareRecord(makeTransaction('legacy1'));
+
+    expect(await migrateLegacyTransactions()).toBe(1);
+
+    const stored = await transactionRepository.get('legacy1');
+    expect(JSON.parse(stored!.encryptedData)).toMatchObject({ alg: 'AES-GCM' });
+    expect(await getTransactionById('legacy1')).toEqual(makeTransaction('legacy1'));
+  });
+
+  test('should neither read nor seal a bare record written after the migration', async () => {
+    await migrateLegacyTransactions();
+    await writeBareRecord({ ...makeTransaction('forged'), amount: 5000 });
+
+    expect(await getTransactionById('forged')).toBeNull();
+    expect(await getTransactions()).toEqual([]);
+    expect(await migrateLegacyTransactions()).toBe(0);
+    expect(await getTransactionById('forged')).toBeNull();
+  });
+});
@@ -1,145 +1,279 @@
 import type { Transaction, StoredTransaction } from "../types"
-import { encryptData, decryptData } from "./crypto"
-
-const STORAGE_KEY = "offpay_transactions"
-const SECRET_KEY = "demo_secret_key"
-
-export const saveTransaction = (transaction: Transaction): void => {
-  const transactions = getTransactions()
-
-  const encryptedData = encryptData(transaction, SECRET_KEY)
-
-  const storedTransaction: StoredTransaction = {
-    ...transaction,
-    encryptedData,
+import { encryptData, decryptData, decodeLegacyCiphertext, isLegacyCiphertext, type EncryptionKey } from "./crypto"
+import { getSessionKey } from "./vault"
+import { metaRepository, transactionRepository } from "./repositories"
+import { listUnclaimedTransactions, releaseClaimedTransactions } from "./db"
+
+// The record id is bound in as associated data so envelopes cannot be swapped
+// between records
+const sealTransaction = async (
+  transaction: Transaction,
+  encryptionKey: EncryptionKey = getSessionKey(),
+): Promise<StoredTransaction> => {
+  return {
+    id: transaction.id,
+    status: transaction.status,
+    timestamp: transaction.timestamp,
+    encryptedData: await encryptData(transaction, encryptionKey, transaction.id),
   }
+}
 
-  transactions.push(storedTransaction)
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(transactions))
+const openTransaction = async (
+  storedTransaction: StoredTransaction,
+  encryptionKey: EncryptionKey = getSessionKey(),
+): Promise<Transaction> => {
+  return decryptData(storedTransaction.encryptedData, encryptionKey, storedTransaction.id)
 }
 
-export const getTransactions = (): StoredTransaction[] => {
-  const storedData = localStorage.getItem(STORAGE_KEY)
-  if (!storedData) {
-    return []
-  }
+export const saveTransaction = async (transaction: Transaction): Promise<void> => {
+  await transactionRepository.put(await sealTransaction(transaction))
+}
 
-  try {
-    return JSON.parse(storedData)
-  } catch (error) {
-    console.error("Failed to parse stored transactions", error)
-    return []
+export const getTransactions = async (): Promise<Transaction[]> => {
+  const transactions: Transaction[] = []
+
+  for (const storedTransaction of await transactionRepository.list()) {
+    try {
+      transactions.push(await openTransaction(storedTransaction))
+    } catch (error) {
+      console.error(`Failed to decrypt transaction ${storedTransaction.id}`, error)
+    }
   }
+
+  return transactions
 }
 
-export const getTransactionById = (id: string): Transaction | null => {
-  const transactions = getTransactions()
-  const transaction = transactions.find((t) => t.id === id)
+export const getTransactionById = async (id: string): Promise<Transaction | null> => {
+  const transaction = await transactionRepository.get(id)
 
   if (!transaction) {
     return null
   }
 
   try {
-    return decryptData(transaction.encryptedData, SECRET_KEY)
+    return await openTransaction(transaction)
   } catch (error) {
     console.error(`Failed to decrypt transaction ${id}`, error)
     return null
   }
 }
 
-export const updateTransactionStatus = (id: string, status: Transaction["status"]): boolean => {
-  const transactions = getTransactions()
-  const index = transactions.findIndex((t) => t.id === id)
+export const updateTransactionStatus = async (id: string, status: Transaction["status"]): Promise<boolean> => {
+  const transaction = await getTransactionById(id)
 
-  if (index === -1) {
+  if (!transaction) {
     return false
   }
 
-  const transaction = decryptData(transactions[index].encryptedData, SECRET_KEY)
-
-  transaction.status = status
+  await transactionRepository.put(await sealTransaction({ ...transaction, status }))
+  return true
+}
 
-  transactions[index].status = status
-  transactions[index].encryptedData = encryptData(transaction, SECRET_KEY)
+// Counts a sync attempt against the transaction and records how it ended
+export const recordSyncAttempt = async (
+  id: string,
+  status: Transaction["status"],
+  error: string | null,
+): Promise<boolean> => {
+  const transaction = await getTransactionById(id)
 
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(transactions))
+  if (!transaction) {
+    return false
+  }
 
+  await transactionRepository.put(
+    await sealTransaction({
+      ...transaction,
+      status,
+      syncAttempts: (transaction.syncAttempts ?? 0) + 1,
+      lastSyncError: error ?? undefined,
+      lastSyncAttemptAt: Date.now(),
+    }),
+  )
   return true
 }
 
-export const clearTransactions = (): void => {
-  localStorage.removeItem(STORAGE_KEY)
+export const clearTransactions = async (): Promise<void> => {
+  await transactionRepository.clear()
 }
 
-// Add a received transaction (for the receiver's perspective)
-export const addReceivedTransaction = (originalTransaction: Transaction): void => {
-  const receivedTransaction: Transaction = {
-    ...originalTransaction,
-    // Swap sender and recipient for receiver's perspective
-    sender: originalTransaction.sender,
-    recipient: originalTransaction.recipient,
-    status: "verified", // Mark as verified since payment was completed
-    timestamp: Date.now(), // Update timestamp to when payment was received
-    description: `Received: ${originalTransaction.description || "Payment"}`,
+// Set once this user's legacy records have been sealed. Nothing authenticates a
+// bare base64 record, so they are only ever read by the one migration; after
+// it, one that turns up fails to open like any other tampered record.
+const LEGACY_MIGRATION_KEY = "legacyTransactionsMigrated"
+
+// Moves records out of the stores every user shared before data was namespaced,
+// taking only those that open with this user's key. Bare base64 records predate
+// encryption and can't be attributed, so they go to whoever unlocks first.
+const claimSharedTransactions = async (): Promise<void> => {
+  const claimed: StoredTransaction[] = []
+
+  for (const storedTransaction of await listUnclaimedTransactions()) {
+    if (isLegacyCiphertext(storedTransaction.encryptedData)) {
+      claimed.push(storedTransaction)
+      continue
+    }
+    try {
+      await openTransaction(storedTransaction)
+      claimed.push(storedTransaction)
+    } catch {
+      // Encrypted under another user's key
+    }
+  }
+
+  if (claimed.length > 0) {
+    await transactionRepository.putMany(claimed)
+    await releaseClaimedTransactions(claimed.map((t) => t.id))
+    console.log(`Claimed ${claimed.length} transactions from shared storage`)
+  }
+}
+
+// Re-encrypts records written before envelopes existed (bare base64 JSON with
+// every field duplicated in the clear). Runs once per user; later unlocks skip
+// it.
+export const migrateLegacyTransactions = async (): Promise<number> => {
+  if (await metaRepository.get(LEGACY_MIGRATION_KEY)) {
+    return 0
+  }
+
+  await claimSharedTransactions()
+
+  const migrated: StoredTransaction[] = []
+
+  for (const storedTransaction of await transactionRepository.list()) {
+    if (!isLegacyCiphertext(storedTransaction.encryptedData)) continue
+
+    try {
+      const transaction = decodeLegacyCiphertext<Transaction>(storedTransaction.encryptedData)
+      migrated.push(await sealTransaction({ ...transaction, status: storedTransaction.status }))
+    } catch (error) {
+      console.error(`Failed to migrate transaction ${storedTransaction.id}`, error)
+    }
   }
 
-  const encryptedData = encryptData(receivedTransaction, SECRET_KEY)
+  await transactionRepository.putManyAndMark(migrated, { key: LEGACY_MIGRATION_KEY, value: Date.now() })
+  if (migrated.length > 0) {
+    console.log(`Migrated ${migrated.length} legacy transactions to encrypted storage`)
+  }
+
+  return migrated.length
+}
 
-  const storedTransaction: StoredTransaction = {
-    ...receivedTransaction,
-    encryptedData,
+// Used when the PIN changes. Every record is re-sealed under the new key and
+// returned for the caller to write in one go; one that can't be opened with the
+// old key fails the change instead of being left behind.
+export const reencryptTransactions = async (
+  fromKey: EncryptionKey,
+  toKey: EncryptionKey,
+): Promise<StoredTransaction[]> => {
+  const reencrypted: StoredTransaction[] = []
+
+  for (const storedTransaction of await transactionRepository.list()) {
+    reencrypted.push(await sealTransaction(await openTransaction(storedTransaction, fromKey), toKey))
   }
 
-  const transactions = getTransactions()
-  transactions.push(storedTransaction)
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(transactions))
+  return reencrypted
+}
+
+// Transactions are stored exactly as signed, so the copy here can be pushed or
+// mined again after it drops out of the chain. The side this device was on is
+// recorded next to it instead of in the description.
+const addTransaction = async (
+  transaction: Transaction,
+  direction: "sent" | "received",
+  status: Transaction["status"],
+): Promise<void> => {
+  const stored: Transaction = { ...transaction, direction, status }
+
+  await transactionRepository.put(await sealTransaction(stored))
 
   // Dispatch event to notify components about new transaction
   window.dispatchEvent(
     new CustomEvent("transactionAdded", {
-      detail: { transaction: receivedTransaction, type: "received" },
+      detail: { transaction: stored, type: direction },
     }),
   )
 }
 
-// Add a sent transaction with completed status
-export const addSentTransaction = (transaction: Transaction): void => {
-  const sentTransaction: Transaction = {
-    ...transaction,
-    status: "verified", // Mark as verified since payment was completed
-    timestamp: Date.now(),
-    description: `Sent: ${transaction.description || "Payment"}`,
-  }
+// Signed payments are added as pending so the sync queue picks them up;
+// records rebuilt from a payment event have no signature to sync and are
+// added as completed
+export const addReceivedTransaction = (
+  transaction: Transaction,
+  status: Transaction["status"] = "verified",
+): Promise<void> => {
+  return addTransaction(transaction, "received", status)
+}
 
-  const encryptedData = encryptData(sentTransaction, SECRET_KEY)
+export const addSentTransaction = (
+  transaction: Transaction,
+  status: Transaction["status"] = "verified",
+): Promise<void> => {
+  return addTransaction(transaction, "sent", status)
+}
+
+// Completes a payment stored before it was paid, e.g. a voucher saved when its
+// code was made, in place so the signed copy and its key are kept. Returns null
+// when there is no such record.
+export const settleTransaction = async (id: string): Promise<Transaction | null> => {
+  const transaction = await getTransactionById(id)
 
-  const storedTransaction: StoredTransaction = {
-    ...sentTransaction,
-    encryptedData,
+  if (!transaction) {
+    return null
   }
 
-  const transactions = getTransactions()
-  transactions.push(storedTransaction)
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(transactions))
+  const settled: Transaction = { ...transaction, status: "verified" }
+  await transactionRepository.put(await sealTransaction(settled))
 
-  // Dispatch event to notify components about new transaction
   window.dispatchEvent(
     new CustomEvent("transactionAdded", {
-      detail: { transaction: sentTransaction, type: "sent" },
+      detail: { transaction: settled, type: getTransactionDirection(settled) ?? "sent" },
     }),
   )
+  return settled
+}
+
+// Puts a transaction that dropped out of the chain back in the sync queue. The
+// block's copy is the one that was signed, so it replaces whatever is stored;
+// only this device's own notes are carried over. Returns false when the
+// transaction isn't one of this user's.
+export const requeueTransaction = async (mined: Transaction): Promise<boolean> => {
+  const transaction = await getTransactionById(mined.id)
+
+  if (!transaction) {
+    return false
+  }
+
+  const direction = getTransactionDirection(transaction) ?? undefined
+  await transactionRepository.put(await sealTransaction({ ...mined, direction, status: "pending" }))
+  return true
+}
+
+// Earlier versions marked the direction by rewriting the description
+const LEGACY_DIRECTION_PREFIXES = { sent: "Sent: ", received: "Received: " } as const
+
+export const getTransactionDirection = (transaction: Transaction): "sent" | "received" | null => {
+  if (transaction.direction) {
+    return transaction.direction
+  }
+  if (transaction.description?.startsWith(LEGACY_DIRECTION_PREFIXES.sent)) {
+    return "sent"
+  }
+  if (transaction.description?.startsWith(LEGACY_DIRECTION_PREFIXES.received)) {
+    return "received"
+  }
+  return null
 }
 
 // Get transaction statistics
-export const getTransactionStats = (): {
+export const getTransactionStats = async (): Promise<{
   total: number
   pending: number
   completed: number
   totalSent: number
   totalReceived: number
-} => {
-  const transactions = getTransactions()
+}> => {
+  const transactions = await getTransactions()
 
   let totalSent = 0
   let totalReceived = 0
@@ -153,10 +287,10 @@ export const getTransactionStats = (): {
       completed++
     }
 
-    // Check if it's a sent or received transaction based on description
-    if (transaction.description?.startsWith("Sent:")) {
+    const direction = getTransactionDirection(transaction)
+    if (direction === "sent") {
       totalSent += transaction.amount
-    } else if (transaction.description?.startsWith("Received:")) {
+    } else if (direction === "received") {
       totalReceived += transaction.amount
     }
   })
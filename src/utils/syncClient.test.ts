@@ -0,0 +1,61 @@
+import type { Block } from '../types';
+import { blockchain } from './blockchain';
+import { configureSyncServer, pullBlocks } from './syncClient';
+import { SYNC_PROTOCOL_VERSION } from './syncProtocol';
+
+const mockTip: Block = {
+  header: {
+    version: 2,
+    index: 0,
+    timestamp: 1700000000000,
+    previousHash: '0'.repeat(64),
+    merkleRoot: '0'.repeat(64),
+    txCount: 0,
+    difficulty: 2,
+    nonce: 0,
+  },
+  hash: '00tip',
+  transactions: [],
+};
+
+jest.mock('./blockchain', () => ({
+  blockchain: {
+    ready: Promise.resolve(),
+    getLatestBlock: () => mockTip,
+    getChain: () => [mockTip],
+    appendSegment: jest.fn(async (blocks: Block[]) => blocks.length),
+  },
+}));
+
+jest.mock('./network', () => ({ updateLastSynced: jest.fn() }));
+
+const mockFetch = jest.fn();
+
+// A server that keeps claiming there is more without sending any of it
+const respondWithEmptyPages = () =>
+  mockFetch.mockResolvedValue({
+    ok: true,
+    status: 200,
+    json: async () => ({
+      version: SYNC_PROTOCOL_VERSION,
+      blocks: [],
+      hasMore: true,
+      tip: { index: 0, hash: mockTip.hash, timestamp: mockTip.header.timestamp },
+    }),
+  });
+
+beforeAll(() => {
+  global.fetch = mockFetch;
+  configureSyncServer('http://sync.test');
+});
+
+describe('Sync client', () => {
+  test('should stop pulling at an empty page even if the server says there is more', async () => {
+    respondWithEmptyPages();
+
+    await expect(pullBlocks()).resolves.toEqual([]);
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(blockchain.appendSegment).toHaveBeenCalledWith([]);
+  });
+});
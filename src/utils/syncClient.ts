@@ -0,0 +1,224 @@
+import type { Block, Transaction } from "../types"
+import { blockchain } from "./blockchain"
+import { getActiveUserId, onActiveUserChange } from "./db"
+import { updateLastSynced } from "./network"
+import {
+  MAX_TRANSACTIONS_PER_PUSH,
+  SYNC_PATHS,
+  SYNC_PROTOCOL_VERSION,
+  SYNC_VERSION_HEADER,
+  type SyncErrorCode,
+  type TransactionPushResult,
+  blocksResponseSchema,
+  pushResponseSchema,
+  syncErrorResponseSchema,
+  syncSocketMessageSchema,
+} from "./syncProtocol"
+
+// How long to wait before reconnecting a socket the server dropped
+const SOCKET_RETRY_MS = 30000
+
+export class SyncRequestError extends Error {
+  constructor(
+    public code: SyncErrorCode | "network" | "bad_response",
+    message: string,
+  ) {
+    super(message)
+    this.name = "SyncRequestError"
+  }
+}
+
+let serverUrl: string | null = null
+let socket: WebSocket | null = null
+let socketRetry: ReturnType<typeof setTimeout> | null = null
+let syncing: Promise<unknown> = Promise.resolve()
+const chainListeners = new Set<() => void>()
+
+// Set by the app entry point from its build config, so no bundler-specific
+// code reaches modules that also run under tests. Without a server, payments
+// are mined on this device as before.
+export const configureSyncServer = (url: string | undefined): void => {
+  serverUrl = url ? url.replace(/\/+$/, "") : null
+  if (getActiveUserId()) openSocket()
+}
+
+export const isSyncServerConfigured = (): boolean => serverUrl !== null
+
+const request = async (path: string, init: RequestInit = {}): Promise<unknown> => {
+  if (!serverUrl) {
+    throw new SyncRequestError("network", "No sync server is configured")
+  }
+
+  let response: Response
+  try {
+    response = await fetch(`${serverUrl}${path}`, {
+      ...init,
+      headers: { ...init.headers, [SYNC_VERSION_HEADER]: String(SYNC_PROTOCOL_VERSION) },
+    })
+  } catch {
+    throw new SyncRequestError("network", "Couldn't reach the sync server")
+  }
+
+  const body: unknown = await response.json().catch(() => null)
+  if (!response.ok) {
+    const failure = syncErrorResponseSchema.safeParse(body)
+    if (!failure.success) {
+      throw new SyncRequestError("bad_response", `Sync server answered ${response.status}`)
+    }
+    throw new SyncRequestError(failure.data.error as SyncErrorCode, failure.data.message)
+  }
+  return body
+}
+
+// Adds every block the server has past this chain's tip. A chain the server
+// doesn't know has diverged from it: one that is still just this device's
+// genesis takes the server's chain outright, any other is reorganized onto it,
+// since the server's chain is canonical. Returns the transactions that drops.
+export const pullBlocks = async (): Promise<Transaction[]> => {
+  await blockchain.ready
+  let hasMore = true
+
+  while (hasMore) {
+    const after = encodeURIComponent(blockchain.getLatestBlock().hash)
+    try {
+      const page = blocksResponseSchema.parse(await request(`${SYNC_PATHS.blocks}?after=${after}`))
+      await blockchain.appendSegment(page.blocks as Block[])
+      // An empty page would be asked for again forever
+      hasMore = page.hasMore && page.blocks.length > 0
+    } catch (error) {
+      if (!(error instanceof SyncRequestError && error.code === "unknown_block")) {
+        throw error
+      }
+      const serverChain = await fetchServerChain()
+      if (blockchain.getChain().length === 1) {
+        await blockchain.adoptChain(serverChain)
+        return []
+      }
+      return (await blockchain.mergeChain(serverChain, { canonical: true })).orphaned
+    }
+  }
+  return []
+}
+
+const fetchServerChain = async (): Promise<Block[]> => {
+  const chain: Block[] = []
+  let after: string | null = null
+  for (;;) {
+    const query: string = after ? `?after=${encodeURIComponent(after)}` : ""
+    const page = blocksResponseSchema.parse(await request(`${SYNC_PATHS.blocks}${query}`))
+    chain.push(...(page.blocks as Block[]))
+    if (!page.hasMore || page.blocks.length === 0) break
+    after = page.blocks[page.blocks.length - 1].hash
+  }
+  return chain
+}
+
+// The server mines what it accepts before answering, so a pull afterwards
+// brings the new blocks back
+export const pushTransactions = async (transactions: Transaction[]): Promise<TransactionPushResult[]> => {
+  const results: TransactionPushResult[] = []
+  for (let i = 0; i < transactions.length; i += MAX_TRANSACTIONS_PER_PUSH) {
+    const batch = transactions.slice(i, i + MAX_TRANSACTIONS_PER_PUSH)
+    const response = pushResponseSchema.parse(
+      await request(SYNC_PATHS.transactions, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ transactions: batch }),
+      }),
+    )
+    results.push(...(response.results as TransactionPushResult[]))
+  }
+  return results
+}
+
+const runSync = async (transactions: Transaction[]): Promise<TransactionPushResult[]> => {
+  // Orphaned transactions are pushed as they were mined, signatures intact, so
+  // their block copies go ahead of any stored copy of the same transaction
+  const orphaned = await pullBlocks()
+  const toPush = [...orphaned, ...transactions].filter(
+    (transaction, i, all) =>
+      !blockchain.hasTransaction(transaction.id) && all.findIndex((other) => other.id === transaction.id) === i,
+  )
+
+  const results = toPush.length > 0 ? await pushTransactions(toPush) : []
+  if (results.some((result) => result.status === "accepted")) {
+    await pullBlocks()
+  }
+  updateLastSynced()
+  return results
+}
+
+// Pulls new blocks, pushes `transactions` and pulls what the server mined from
+// them, returning the server's verdict on each one it hadn't seen in the
+// chain. Syncs run one at a time so pulls never race each other.
+export const syncWithServer = (transactions: Transaction[] = []): Promise<TransactionPushResult[]> => {
+  const run = syncing.then(() => runSync(transactions))
+  syncing = run.catch(() => undefined)
+  return run
+}
+
+// Returns a function that stops listening
+export const onServerChainChange = (listener: () => void): (() => void) => {
+  chainListeners.add(listener)
+  return () => {
+    chainListeners.delete(listener)
+  }
+}
+
+// The socket only announces new blocks; they are fetched over HTTP
+const openSocket = () => {
+  closeSocket()
+  if (!serverUrl) return
+
+  const url = new URL(SYNC_PATHS.socket, serverUrl)
+  url.protocol = url.protocol === "https:" ? "wss:" : "ws:"
+  const opened = new WebSocket(url)
+  socket = opened
+
+  opened.addEventListener("message", (event) => {
+    let message
+    try {
+      message = syncSocketMessageSchema.parse(JSON.parse(String(event.data)))
+    } catch (error) {
+      console.error("Ignoring unreadable sync server message:", error)
+      return
+    }
+    if (message.type === "hello" && message.version !== SYNC_PROTOCOL_VERSION) {
+      console.error(`Sync server speaks protocol version ${message.version}, not ${SYNC_PROTOCOL_VERSION}`)
+      closeSocket()
+      return
+    }
+    // A hello also means whatever piled up while disconnected can go now
+    if (message.type === "hello" || message.tip.hash !== blockchain.getLatestBlock().hash) {
+      chainListeners.forEach((listener) => listener())
+    }
+  })
+
+  opened.addEventListener("close", () => {
+    if (socket !== opened) return
+    socket = null
+    socketRetry = setTimeout(() => {
+      socketRetry = null
+      if (getActiveUserId()) openSocket()
+    }, SOCKET_RETRY_MS)
+  })
+}
+
+const closeSocket = () => {
+  if (socketRetry) {
+    clearTimeout(socketRetry)
+    socketRetry = null
+  }
+  const closing = socket
+  socket = null
+  closing?.close()
+}
+
+// Each user syncs their own chain; nothing syncs while signed out
+onActiveUserChange((userId) => {
+  if (userId) {
+    openSocket()
+  } else {
+    closeSocket()
+  }
+})
@@ -0,0 +1,163 @@
+import { z } from "zod"
+import type { Block, Transaction, ValidationFailureReason } from "../types"
+import { keyCertificateSchema } from "./qrCodec"
+
+// Version 1 of the protocol between OffPay and a sync server. The server keeps
+// the canonical chain: clients push the transactions they hold, the server
+// validates and mines them, and clients pull whatever blocks they are missing.
+//
+//   GET  /v1/tip                       TipResponse
+//   GET  /v1/blocks?after=<hash>       BlocksResponse, oldest first; from genesis without `after`
+//   POST /v1/transactions              PushRequest, answered with PushResponse
+//   WS   /v1/socket                    SyncSocketMessage, from the server only
+//
+// Requests name the version they speak in SYNC_VERSION_HEADER, and a server
+// that can't speak it answers 400 `unsupported_version`. Every failure is a
+// SyncErrorResponse.
+export const SYNC_PROTOCOL_VERSION = 1
+export const SYNC_VERSION_HEADER = "X-OffPay-Sync-Version"
+
+export const SYNC_PATHS = {
+  tip: "/v1/tip",
+  blocks: "/v1/blocks",
+  transactions: "/v1/transactions",
+  socket: "/v1/socket",
+} as const
+
+// Keeps responses and mined blocks small; clients page through with `after`
+export const MAX_BLOCKS_PER_PULL = 50
+export const MAX_TRANSACTIONS_PER_PUSH = 50
+
+export interface ChainTip {
+  index: number
+  hash: string
+  timestamp: number
+}
+
+// `duplicate` means the transaction is already in the chain, which is as good
+// as accepted for whoever pushed it
+export type TransactionPushStatus = "accepted" | "duplicate" | "rejected"
+
+export interface TransactionPushResult {
+  id: string
+  status: TransactionPushStatus
+  // Why a rejected transaction can't go into the chain
+  reason?: ValidationFailureReason
+  message?: string
+}
+
+export interface TipResponse {
+  version: number
+  tip: ChainTip
+}
+
+export interface BlocksResponse {
+  version: number
+  blocks: Block[]
+  // More blocks follow the last one; ask again after it
+  hasMore: boolean
+  tip: ChainTip
+}
+
+export interface PushRequest {
+  transactions: Transaction[]
+}
+
+// Accepted transactions are already mined by the time this is sent
+export interface PushResponse {
+  version: number
+  results: TransactionPushResult[]
+  tip: ChainTip
+}
+
+// `unknown_block` answers a pull after a block the server's chain doesn't have;
+// the client's chain has diverged and it should pull from genesis
+export type SyncErrorCode = "bad_request" | "not_found" | "unsupported_version" | "unknown_block"
+
+export interface SyncErrorResponse {
+  version: number
+  error: SyncErrorCode
+  message: string
+}
+
+// `hello` is sent once on connecting, `tip` whenever a block is added
+export type SyncSocketMessage = { type: "hello"; version: number; tip: ChainTip } | { type: "tip"; tip: ChainTip }
+
+export const toChainTip = (block: Block): ChainTip => ({
+  index: block.header.index,
+  hash: block.hash,
+  timestamp: block.header.timestamp,
+})
+
+const transactionSchema = z.object({
+  id: z.string().min(1),
+  amount: z.number(),
+  recipient: z.string(),
+  sender: z.string(),
+  timestamp: z.number(),
+  description: z.string(),
+  status: z.enum(["pending", "synced", "verified", "failed", "rejected"]),
+  signature: z.string().optional(),
+  nonce: z.number().optional(),
+  expiresAt: z.number().optional(),
+  publicKey: z.string().optional(),
+  keyProof: z.array(keyCertificateSchema).optional(),
+})
+
+const blockSchema = z.object({
+  header: z.object({
+    version: z.number().int(),
+    index: z.number().int().nonnegative(),
+    timestamp: z.number(),
+    previousHash: z.string(),
+    merkleRoot: z.string(),
+    txCount: z.number().int().nonnegative(),
+    difficulty: z.number().int().nonnegative(),
+    nonce: z.number().int(),
+  }),
+  hash: z.string(),
+  transactions: z.array(transactionSchema),
+})
+
+const chainTipSchema = z.object({
+  index: z.number().int().nonnegative(),
+  hash: z.string().min(1),
+  timestamp: z.number(),
+})
+
+export const tipResponseSchema = z.object({ version: z.number(), tip: chainTipSchema })
+
+export const blocksResponseSchema = z.object({
+  version: z.number(),
+  blocks: z.array(blockSchema),
+  hasMore: z.boolean(),
+  tip: chainTipSchema,
+})
+
+export const pushRequestSchema = z.object({
+  transactions: z.array(transactionSchema).max(MAX_TRANSACTIONS_PER_PUSH),
+})
+
+export const pushResponseSchema = z.object({
+  version: z.number(),
+  results: z.array(
+    z.object({
+      id: z.string(),
+      status: z.enum(["accepted", "duplicate", "rejected"]),
+      reason: z.string().optional(),
+      message: z.string().optional(),
+    }),
+  ),
+  tip: chainTipSchema,
+})
+
+export const syncErrorResponseSchema = z.object({
+  version: z.number(),
+  error: z.string(),
+  message: z.string(),
+})
+
+export const syncSocketMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("hello"), version: z.number(), tip: chainTipSchema }),
+  z.object({ type: z.literal("tip"), tip: chainTipSchema }),
+])
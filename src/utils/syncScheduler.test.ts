@@ -0,0 +1,175 @@
+import type { Transaction } from '../types';
+import { MAX_SYNC_ATTEMPTS, getRetryDelay, getSyncQueueStatus, requestSync } from './syncScheduler';
+import { syncWithServer } from './syncClient';
+import { blockchain } from './blockchain';
+import { createVault } from './vault';
+
+// Stands in for the user's encrypted transaction store
+const mockStore = new Map<string, Transaction>();
+
+jest.mock('./storage', () => ({
+  getTransactions: async () => [...mockStore.values()],
+  recordSyncAttempt: async (id: string, status: Transaction['status'], error: string | null) => {
+    const transaction = mockStore.get(id);
+    if (!transaction) return false;
+    mockStore.set(id, {
+      ...transaction,
+      status,
+      syncAttempts: (transaction.syncAttempts ?? 0) + 1,
+      lastSyncError: error ?? undefined,
+    });
+    return true;
+  },
+}));
+
+jest.mock('./syncClient', () => ({
+  isSyncServerConfigured: () => true,
+  onServerChainChange: () => () => undefined,
+  syncWithServer: jest.fn(),
+}));
+
+jest.mock('./blockchain', () => ({
+  MAX_TRANSACTIONS_PER_BLOCK: 100,
+  blockchain: { hasTransaction: jest.fn(() => false) },
+}));
+
+const mockSyncWithServer = jest.mocked(syncWithServer);
+const mockHasTransaction = jest.mocked(blockchain.hasTransaction);
+
+const queuePayment = (id: string): Transaction => {
+  const transaction: Transaction = {
+    id,
+    amount: 10,
+    sender: 'wallet_payer',
+    recipient: 'wallet_payee',
+    timestamp: Date.now(),
+    description: 'Coffee',
+    status: 'pending',
+    direction: 'sent',
+  };
+  mockStore.set(id, transaction);
+  return transaction;
+};
+
+// Lets a run started by an event finish; every dependency resolves at once.
+// jsdom has no setImmediate and the fake timers replace setTimeout.
+const { setImmediate } = jest.requireActual<typeof import('timers')>('timers');
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+describe('getRetryDelay', () => {
+  test('should double with each failure', () => {
+    expect([1, 2, 3, 4].map(failures => getRetryDelay(failures, () => 1))).toEqual([2000, 4000, 8000, 16000]);
+  });
+
+  test('should jitter across the upper half of the delay', () => {
+    expect(getRetryDelay(3, () => 0)).toBe(4000);
+    expect(getRetryDelay(3, () => 0.5)).toBe(6000);
+    expect(getRetryDelay(3, () => 1)).toBe(8000);
+  });
+
+  test('should stop growing at five minutes', () => {
+    expect(getRetryDelay(30, () => 1)).toBe(5 * 60 * 1000);
+  });
+});
+
+describe('Sync queue', () => {
+  beforeAll(async () => {
+    jest.useFakeTimers();
+    mockSyncWithServer.mockResolvedValue([]);
+    // Unlocking starts the scheduler
+    await createVault('sync_user', '123456');
+    await settle();
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  beforeEach(() => {
+    mockStore.clear();
+    mockSyncWithServer.mockReset().mockResolvedValue([]);
+    mockHasTransaction.mockReset().mockReturnValue(false);
+  });
+
+  test('should mark a transaction synced once it is in the chain', async () => {
+    queuePayment('tx_synced');
+    mockHasTransaction.mockImplementation(id => id === 'tx_synced');
+    const synced = jest.fn();
+    window.addEventListener('transactionsSynced', synced);
+
+    const summary = await requestSync();
+
+    window.removeEventListener('transactionsSynced', synced);
+    expect(summary).toEqual({ synced: 1, rejected: 0, retrying: 0, failed: 0 });
+    expect(mockStore.get('tx_synced')).toMatchObject({ status: 'synced', syncAttempts: 1 });
+    expect(mockSyncWithServer.mock.calls[0][0][0]).not.toHaveProperty('direction');
+    expect(synced).toHaveBeenCalledTimes(1);
+    expect(getSyncQueueStatus()).toMatchObject({ state: 'idle', failures: 0 });
+  });
+
+  test('should count every attempt and give up after the last one', async () => {
+    queuePayment('tx_stuck');
+
+    for (let attempt = 1; attempt < MAX_SYNC_ATTEMPTS; attempt++) {
+      await expect(requestSync()).resolves.toMatchObject({ retrying: 1 });
+      expect(mockStore.get('tx_stuck')).toMatchObject({ status: 'pending', syncAttempts: attempt });
+    }
+    await expect(requestSync()).resolves.toMatchObject({ retrying: 0, failed: 1 });
+    expect(mockStore.get('tx_stuck')).toMatchObject({ status: 'failed', syncAttempts: MAX_SYNC_ATTEMPTS });
+    expect(getSyncQueueStatus().state).toBe('idle');
+
+    // Only a manual retry picks it up again
+    await requestSync();
+    expect(mockSyncWithServer).toHaveBeenLastCalledWith([]);
+    await requestSync({ includeFailed: true });
+    expect(mockSyncWithServer.mock.lastCall?.[0].map(transaction => transaction.id)).toEqual(['tx_stuck']);
+  });
+
+  test('should wait and retry when the server can not be reached', async () => {
+    queuePayment('tx_offline');
+    mockSyncWithServer.mockRejectedValue(new Error("Couldn't reach the sync server"));
+
+    await expect(requestSync()).resolves.toMatchObject({ retrying: 1 });
+
+    expect(mockStore.get('tx_offline')).toMatchObject({
+      status: 'pending',
+      syncAttempts: 1,
+      lastSyncError: "Couldn't reach the sync server",
+    });
+    expect(getSyncQueueStatus()).toMatchObject({
+      state: 'waiting',
+      queued: 1,
+      lastError: "Couldn't reach the sync server",
+    });
+
+    mockSyncWithServer.mockResolvedValue([]);
+    mockHasTransaction.mockReturnValue(true);
+    jest.runOnlyPendingTimers();
+    await settle();
+    expect(mockStore.get('tx_offline')).toMatchObject({ status: 'synced', syncAttempts: 2 });
+  });
+
+  test('should never retry a transaction the server rejects', async () => {
+    queuePayment('tx_reused');
+    mockSyncWithServer.mockResolvedValue([
+      { id: 'tx_reused', status: 'rejected', reason: 'nonce_reused', message: 'Nonce already used' },
+    ]);
+
+    await expect(requestSync()).resolves.toMatchObject({ rejected: 1, retrying: 0 });
+    expect(mockStore.get('tx_reused')).toMatchObject({ status: 'rejected', lastSyncError: 'Nonce already used' });
+
+    await requestSync({ includeFailed: true });
+    expect(mockSyncWithServer).toHaveBeenLastCalledWith([]);
+  });
+
+  test('should run when the browser comes back online', async () => {
+    queuePayment('tx_reconnected');
+    mockHasTransaction.mockReturnValue(true);
+
+    window.dispatchEvent(new Event('online'));
+    await settle();
+
+    expect(mockSyncWithServer).toHaveBeenCalledTimes(1);
+    expect(mockStore.get('tx_reconnected')?.status).toBe('synced');
+  });
+});
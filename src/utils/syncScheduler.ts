@@ -0,0 +1,288 @@
+import type { SyncQueueStatus, Transaction } from "../types"
+import { MAX_TRANSACTIONS_PER_BLOCK, blockchain } from "./blockchain"
+import { validateTransactionsForBlock } from "./chainValidation"
+import { registerNetworkListeners } from "./network"
+import { getTransactions, recordSyncAttempt } from "./storage"
+import { isSyncServerConfigured, onServerChainChange, syncWithServer } from "./syncClient"
+import { MAX_TRANSACTIONS_PER_PUSH } from "./syncProtocol"
+import { isVaultUnlocked, onVaultChange } from "./vault"
+
+// After this many attempts a transaction is marked failed and only retried by hand
+export const MAX_SYNC_ATTEMPTS = 5
+const BASE_RETRY_MS = 2000
+const MAX_RETRY_MS = 5 * 60 * 1000
+
+type SyncOutcome = { id: string; status: "synced" } | { id: string; status: "rejected" | "retry"; error: string }
+
+export interface SyncRunSummary {
+  synced: number
+  rejected: number
+  // Left pending for the next attempt
+  retrying: number
+  // Out of attempts
+  failed: number
+}
+
+const IDLE_STATUS: SyncQueueStatus = {
+  state: "idle",
+  queued: 0,
+  done: 0,
+  total: 0,
+  failures: 0,
+  nextRetryAt: null,
+  lastError: null,
+}
+
+let status: SyncQueueStatus = IDLE_STATUS
+const statusListeners = new Set<(status: SyncQueueStatus) => void>()
+let retryTimer: ReturnType<typeof setTimeout> | null = null
+let running: Promise<SyncRunSummary> | null = null
+let rerun: { includeFailed: boolean; promise: Promise<SyncRunSummary> } | null = null
+
+const setStatus = (changes: Partial<SyncQueueStatus>) => {
+  status = { ...status, ...changes }
+  ;[...statusListeners].forEach((listener) => listener(status))
+}
+
+export const getSyncQueueStatus = (): SyncQueueStatus => status
+
+// Returns a function that stops listening
+export const onSyncQueueChange = (listener: (status: SyncQueueStatus) => void): (() => void) => {
+  statusListeners.add(listener)
+  return () => {
+    statusListeners.delete(listener)
+  }
+}
+
+// Exponential, capped, and jittered across the upper half so devices that went
+// offline together don't all retry at once
+export const getRetryDelay = (failures: number, random: () => number = Math.random): number => {
+  const delay = Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** Math.max(0, failures - 1))
+  return Math.round(delay / 2 + (random() * delay) / 2)
+}
+
+const clearRetry = () => {
+  if (retryTimer) {
+    clearTimeout(retryTimer)
+    retryTimer = null
+  }
+}
+
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error))
+
+// What goes into a block is the transaction as signed, without this device's notes
+const toChainTransaction = (transaction: Transaction): Transaction => {
+  const {
+    direction: _direction,
+    syncAttempts: _attempts,
+    lastSyncError: _error,
+    lastSyncAttemptAt: _attemptAt,
+    ...rest
+  } = transaction
+  return rest
+}
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size))
+  }
+  return chunks
+}
+
+// The server mines the batch and says which transactions it won't take.
+// An empty queue still pulls, since the server's chain may have moved on.
+const syncBatchWithServer = async (batch: Transaction[]): Promise<SyncOutcome[]> => {
+  const results = await syncWithServer(batch.map(toChainTransaction))
+  return batch.map((transaction): SyncOutcome => {
+    const result = results.find((candidate) => candidate.id === transaction.id)
+    if (blockchain.hasTransaction(transaction.id)) {
+      return { id: transaction.id, status: "synced" }
+    }
+    if (result?.status === "rejected") {
+      return { id: transaction.id, status: "rejected", error: result.message ?? "Rejected by the sync server" }
+    }
+    return { id: transaction.id, status: "retry", error: "Not in the sync server's chain yet" }
+  })
+}
+
+// Without a server the batch is mined here. Transactions that fail validation
+// would fail every time, so they are rejected rather than retried.
+const syncBatchLocally = async (batch: Transaction[]): Promise<SyncOutcome[]> => {
+  await blockchain.ready
+  const outcomes: SyncOutcome[] = []
+  const accepted: Transaction[] = []
+
+  for (const transaction of batch) {
+    if (blockchain.hasTransaction(transaction.id)) {
+      outcomes.push({ id: transaction.id, status: "synced" })
+      continue
+    }
+    const candidate = toChainTransaction(transaction)
+    const failure = await validateTransactionsForBlock([...accepted, candidate], blockchain.getChain())
+    if (failure) {
+      outcomes.push({ id: transaction.id, status: "rejected", error: failure.message })
+    } else {
+      accepted.push(candidate)
+    }
+  }
+
+  if (accepted.length > 0) {
+    try {
+      await blockchain.addTransactions(accepted)
+      accepted.forEach((transaction) => outcomes.push({ id: transaction.id, status: "synced" }))
+    } catch (error) {
+      accepted.forEach((transaction) =>
+        outcomes.push({ id: transaction.id, status: "retry", error: errorMessage(error) }),
+      )
+    }
+  }
+  return outcomes
+}
+
+const recordOutcomes = async (queue: Transaction[], outcomes: SyncOutcome[], summary: SyncRunSummary) => {
+  const synced: Transaction[] = []
+  for (const outcome of outcomes) {
+    const transaction = queue.find((candidate) => candidate.id === outcome.id)
+    const attempts = (transaction?.syncAttempts ?? 0) + 1
+    if (outcome.status === "synced") {
+      summary.synced++
+      await recordSyncAttempt(outcome.id, "synced", null)
+      if (transaction) synced.push(transaction)
+    } else if (outcome.status === "rejected") {
+      summary.rejected++
+      await recordSyncAttempt(outcome.id, "rejected", outcome.error)
+    } else if (attempts >= MAX_SYNC_ATTEMPTS) {
+      summary.failed++
+      await recordSyncAttempt(outcome.id, "failed", outcome.error)
+    } else {
+      summary.retrying++
+      await recordSyncAttempt(outcome.id, "pending", outcome.error)
+    }
+  }
+
+  // Notify components, as storage does for new transactions
+  if (synced.length > 0) {
+    window.dispatchEvent(new CustomEvent("transactionsSynced", { detail: { transactions: synced } }))
+  }
+}
+
+const runQueue = async (includeFailed: boolean): Promise<SyncRunSummary> => {
+  const summary: SyncRunSummary = { synced: 0, rejected: 0, retrying: 0, failed: 0 }
+  // Transactions can't be read until the vault is unlocked
+  if (!isVaultUnlocked()) {
+    return summary
+  }
+
+  clearRetry()
+  const queue = (await getTransactions())
+    .filter((transaction) => transaction.status === "pending" || (includeFailed && transaction.status === "failed"))
+    .sort((a, b) => a.timestamp - b.timestamp)
+  if (!navigator.onLine) {
+    setStatus({ state: "offline", queued: queue.length, done: 0, total: 0, nextRetryAt: null })
+    return summary
+  }
+
+  const viaServer = isSyncServerConfigured()
+  const batches = chunk(queue, viaServer ? MAX_TRANSACTIONS_PER_PUSH : MAX_TRANSACTIONS_PER_BLOCK)
+  if (viaServer && batches.length === 0) {
+    batches.push([])
+  }
+  setStatus({ state: "syncing", done: 0, total: queue.length, nextRetryAt: null })
+
+  let lastError: string | null = null
+  let retry = false
+  for (const batch of batches) {
+    let outcomes: SyncOutcome[]
+    try {
+      outcomes = viaServer ? await syncBatchWithServer(batch) : await syncBatchLocally(batch)
+    } catch (error) {
+      // Couldn't reach the server or the chain; nothing was decided
+      const message = errorMessage(error)
+      outcomes = batch.map((transaction) => ({ id: transaction.id, status: "retry", error: message }))
+      lastError = message
+      // A pull with nothing to push still has to be retried
+      retry = true
+    }
+    for (const outcome of outcomes) {
+      if (outcome.status === "retry") {
+        lastError = outcome.error
+      }
+    }
+    await recordOutcomes(queue, outcomes, summary)
+    setStatus({ done: status.done + batch.length })
+  }
+
+  // Transactions out of attempts wait for a manual retry instead
+  if (retry || summary.retrying > 0) {
+    const failures = status.failures + 1
+    const delay = getRetryDelay(failures)
+    retryTimer = setTimeout(() => {
+      retryTimer = null
+      requestSync().catch((error) => console.error("Scheduled sync failed:", error))
+    }, delay)
+    setStatus({ state: "waiting", queued: summary.retrying, failures, nextRetryAt: Date.now() + delay, lastError })
+  } else {
+    setStatus({ state: "idle", queued: 0, failures: 0, nextRetryAt: null, lastError: null })
+  }
+  return summary
+}
+
+// Syncs every pending transaction now, or once back online. `includeFailed`
+// also gives transactions that ran out of attempts another go. A request made
+// during a run is held for one more run after it.
+export const requestSync = (options: { includeFailed?: boolean } = {}): Promise<SyncRunSummary> => {
+  const includeFailed = options.includeFailed ?? false
+  if (!running) {
+    const run = runQueue(includeFailed).finally(() => {
+      running = null
+    })
+    running = run
+    return run
+  }
+
+  if (rerun) {
+    rerun.includeFailed ||= includeFailed
+    return rerun.promise
+  }
+  const promise = running
+    .catch(() => undefined)
+    .then(() => {
+      const next = rerun!
+      rerun = null
+      return requestSync({ includeFailed: next.includeFailed })
+    })
+  rerun = { includeFailed, promise }
+  return promise
+}
+
+let stopWatching: (() => void) | null = null
+
+// Syncs whenever the browser comes back online or the server's chain moves
+// on, for as long as the vault is unlocked
+onVaultChange((unlocked) => {
+  stopWatching?.()
+  stopWatching = null
+  clearRetry()
+  status = IDLE_STATUS
+  setStatus({})
+  if (!unlocked) return
+
+  const stopNetwork = registerNetworkListeners(
+    () => {
+      requestSync().catch((error) => console.error("Failed to sync after reconnecting:", error))
+    },
+    () => {
+      clearRetry()
+      setStatus({ state: "offline", nextRetryAt: null })
+    },
+  )
+  const stopServer = onServerChainChange(() => {
+    requestSync().catch((error) => console.error("Failed to sync with server:", error))
+  })
+  stopWatching = () => {
+    stopNetwork()
+    stopServer()
+  }
+  requestSync().catch((error) => console.error("Failed to sync pending transactions:", error))
+})
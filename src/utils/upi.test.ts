@@ -0,0 +1,62 @@
+import type { BankAccount } from '../types';
+import { buildUpiLink, getBankAccountUpiAddress, isUpiLink, parseUpiLink } from './upi';
+
+describe('UPI links', () => {
+  test('should parse a merchant UPI code', () => {
+    const text = 'upi://pay?pa=cornercafe@okaxis&pn=Corner%20Cafe&am=120.50&cu=INR&tn=Lunch&tr=ORD42&mc=5812';
+
+    expect(isUpiLink(text)).toBe(true);
+    expect(parseUpiLink(text)).toEqual({
+      payeeAddress: 'cornercafe@okaxis',
+      payeeName: 'Corner Cafe',
+      amount: 120.5,
+      currency: 'INR',
+      note: 'Lunch',
+      reference: 'ORD42',
+      merchantCode: '5812',
+    });
+  });
+
+  test('should leave the amount out and fall back to the address for a missing name', () => {
+    expect(parseUpiLink('UPI://pay?pa=friend@ybl')).toEqual({
+      payeeAddress: 'friend@ybl',
+      payeeName: 'friend@ybl',
+      currency: 'INR',
+    });
+  });
+
+  test('should reject malformed UPI codes', () => {
+    expect(() => parseUpiLink('upi://pay?pn=Nobody')).toThrow('payee address');
+    expect(() => parseUpiLink('upi://pay?pa=shop@okaxis&am=-5')).toThrow('malformed amount');
+    expect(() => parseUpiLink('upi://pay?pa=shop@okaxis&am=1.234')).toThrow('malformed amount');
+    expect(() => parseUpiLink('upi://pay?pa=shop@okaxis&cu=USD')).toThrow("USD aren't supported");
+    expect(() => parseUpiLink('upi://mandate?pa=shop@okaxis')).toThrow("isn't a payment request");
+  });
+
+  test('should export a bank account as a UPI link that parses back', () => {
+    const account: BankAccount = {
+      id: 'acc1',
+      accountNumber: '123456789012',
+      ifscCode: 'sbin0001234',
+      bankName: 'State Bank of India',
+      accountHolderName: 'Asha Rao',
+      accountType: 'savings',
+      isVerified: true,
+      isPrimary: true,
+      addedAt: 1700000000000,
+    };
+    const link = {
+      payeeAddress: getBankAccountUpiAddress(account),
+      payeeName: account.accountHolderName,
+      amount: 99,
+      currency: 'INR' as const,
+      note: 'Rent share',
+    };
+    const uri = buildUpiLink(link);
+
+    expect(uri).toBe(
+      'upi://pay?pa=123456789012@SBIN0001234.ifsc.npci&pn=Asha%20Rao&am=99.00&cu=INR&tn=Rent%20share',
+    );
+    expect(parseUpiLink(uri)).toEqual(link);
+  });
+});
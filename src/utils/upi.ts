@@ -0,0 +1,84 @@
+import type { BankAccount, UpiPaymentLink } from "../types"
+
+// Follows the NPCI UPI linking specification. Only `pay` links are supported;
+// mandates and collect requests need a UPI app.
+const UPI_SCHEME = "upi:"
+const UPI_PAY_PATH = "pay"
+
+const VPA_PATTERN = /^[a-zA-Z0-9._-]{2,256}@[a-zA-Z][a-zA-Z0-9.-]{1,64}$/
+// At most two decimal places, no sign or exponent
+const AMOUNT_PATTERN = /^\d+(\.\d{1,2})?$/
+
+export const isUpiLink = (text: string): boolean => text.trim().toLowerCase().startsWith(UPI_SCHEME)
+
+// Throws with a message suitable for showing to the user
+export const parseUpiLink = (text: string): UpiPaymentLink => {
+  let url: URL
+  try {
+    url = new URL(text.trim())
+  } catch {
+    throw new Error("Invalid UPI QR code: not a valid link")
+  }
+
+  // Browsers disagree on whether `pay` is the host or the path of a custom scheme
+  const action = (url.host || url.pathname.replace(/^\/+/, "")).toLowerCase()
+  if (url.protocol.toLowerCase() !== UPI_SCHEME || action !== UPI_PAY_PATH) {
+    throw new Error("This UPI QR code isn't a payment request")
+  }
+
+  const params = url.searchParams
+  const payeeAddress = params.get("pa")?.trim() ?? ""
+  if (!VPA_PATTERN.test(payeeAddress)) {
+    throw new Error("Invalid UPI QR code: missing or malformed payee address")
+  }
+
+  const currency = (params.get("cu") ?? "INR").toUpperCase()
+  if (currency !== "INR") {
+    throw new Error(`UPI payments in ${currency} aren't supported`)
+  }
+
+  const rawAmount = params.get("am")?.trim()
+  let amount: number | undefined
+  if (rawAmount) {
+    amount = Number.parseFloat(rawAmount)
+    if (!AMOUNT_PATTERN.test(rawAmount) || amount <= 0) {
+      throw new Error("Invalid UPI QR code: malformed amount")
+    }
+  }
+
+  const optional = (key: string) => params.get(key)?.trim() || undefined
+  const note = optional("tn")
+  const reference = optional("tr")
+  const merchantCode = optional("mc")
+
+  return {
+    payeeAddress,
+    // Many printed codes leave the name out; the address is the next best label
+    payeeName: optional("pn") ?? payeeAddress,
+    ...(amount !== undefined && { amount }),
+    currency: "INR",
+    ...(note && { note }),
+    ...(reference && { reference }),
+    ...(merchantCode && { merchantCode }),
+  }
+}
+
+export const buildUpiLink = (link: UpiPaymentLink): string => {
+  const params = new URLSearchParams({ pa: link.payeeAddress, pn: link.payeeName })
+  if (link.amount !== undefined) params.set("am", link.amount.toFixed(2))
+  params.set("cu", link.currency)
+  if (link.note) params.set("tn", link.note)
+  if (link.reference) params.set("tr", link.reference)
+  if (link.merchantCode) params.set("mc", link.merchantCode)
+
+  // Some UPI apps only read a literal @ in addresses, and %20 rather than the +
+  // URLSearchParams writes for spaces
+  const query = params.toString().replace(/%40/g, "@").replace(/\+/g, "%20")
+  return `${UPI_SCHEME}//${UPI_PAY_PATH}?${query}`
+}
+
+// Accounts without a UPI ID are still reachable through the NPCI account
+// address, `<account number>@<IFSC>.ifsc.npci`
+export const getBankAccountUpiAddress = (account: BankAccount): string => {
+  return `${account.accountNumber}@${account.ifscCode.toUpperCase()}.ifsc.npci`
+}
@@ -0,0 +1,111 @@
+import { decryptData, deriveEncryptionKey, encryptData, type EncryptionKey } from "./crypto"
+
+const VAULT_STORAGE_KEY = "offpay_vault"
+const VAULT_CHECK_VALUE = "offpay_vault_check"
+
+export const PIN_LENGTH = 6
+
+interface VaultRecord {
+  salt: string
+  iterations: number
+  // Known plaintext encrypted under the vault key, used to tell a wrong PIN
+  // apart from a corrupted record
+  check: string
+}
+
+// The derived key only ever lives in memory; every tab unlocks on its own
+let sessionKey: EncryptionKey | null = null
+const listeners = new Set<(unlocked: boolean) => void>()
+
+const getVaultKey = (userId: string) => `${VAULT_STORAGE_KEY}_${userId}`
+
+const notify = () => {
+  listeners.forEach((listener) => listener(sessionKey !== null))
+}
+
+export const isValidPin = (pin: string): boolean => {
+  return new RegExp(`^\\d{${PIN_LENGTH}}$`).test(pin)
+}
+
+export const hasVault = (userId: string): boolean => {
+  return localStorage.getItem(getVaultKey(userId)) !== null
+}
+
+// The vault's localStorage key and record under `encryptionKey`, for a PIN
+// change to write together with everything else it re-encrypts
+export const buildVaultEntry = async (userId: string, encryptionKey: EncryptionKey): Promise<[string, string]> => {
+  const record: VaultRecord = {
+    salt: encryptionKey.salt,
+    iterations: encryptionKey.iterations,
+    check: await encryptData(VAULT_CHECK_VALUE, encryptionKey),
+  }
+  return [getVaultKey(userId), JSON.stringify(record)]
+}
+
+const writeVaultRecord = async (userId: string, encryptionKey: EncryptionKey): Promise<void> => {
+  localStorage.setItem(...(await buildVaultEntry(userId, encryptionKey)))
+}
+
+export const createVault = async (userId: string, pin: string): Promise<void> => {
+  if (!isValidPin(pin)) {
+    throw new Error(`PIN must be ${PIN_LENGTH} digits`)
+  }
+
+  const encryptionKey = await deriveEncryptionKey(pin)
+  await writeVaultRecord(userId, encryptionKey)
+
+  sessionKey = encryptionKey
+  notify()
+}
+
+// Callers must already have re-encrypted their data and written the vault
+// record under `encryptionKey`
+export const rekeySession = (encryptionKey: EncryptionKey): void => {
+  sessionKey = encryptionKey
+}
+
+export const unlockVault = async (userId: string, pin: string): Promise<boolean> => {
+  const stored = localStorage.getItem(getVaultKey(userId))
+  if (!stored) {
+    throw new Error("No vault exists for this user")
+  }
+
+  const record: VaultRecord = JSON.parse(stored)
+  const encryptionKey = await deriveEncryptionKey(pin, record.salt, record.iterations)
+
+  try {
+    if ((await decryptData(record.check, encryptionKey)) !== VAULT_CHECK_VALUE) {
+      return false
+    }
+  } catch {
+    // AES-GCM authentication fails when the PIN is wrong
+    return false
+  }
+
+  sessionKey = encryptionKey
+  notify()
+  return true
+}
+
+export const lockVault = (): void => {
+  sessionKey = null
+  notify()
+}
+
+export const isVaultUnlocked = (): boolean => {
+  return sessionKey !== null
+}
+
+export const getSessionKey = (): EncryptionKey => {
+  if (!sessionKey) {
+    throw new Error("Vault is locked")
+  }
+  return sessionKey
+}
+
+export const onVaultChange = (listener: (unlocked: boolean) => void): (() => void) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
@@ -0,0 +1,324 @@
+import type { KeyCertificate, Wallet, WalletKey } from "../types"
+import {
+  type EncryptionKey,
+  base64ToBytes,
+  decryptData,
+  decryptWithSecret,
+  deriveEncryptionKey,
+  encryptData,
+  exportPrivateKey,
+  exportPublicKey,
+  generateId,
+  generateSigningKeyPair,
+  importPrivateKey,
+  sha256Hex,
+  signData,
+  verifyData,
+} from "./crypto"
+import { getSessionKey } from "./vault"
+
+const WALLET_STORAGE_KEY = "offpay_wallet"
+const WALLET_VERSION = 1
+const BACKUP_FORMAT = "offpay-wallet-backup"
+const BACKUP_VERSION = 1
+const KEY_CERTIFICATE_VERSION = "offpay-key-v1"
+
+export interface WalletSigner {
+  address: string
+  publicKey: string
+  privateKey: CryptoKey
+  keyProof: KeyCertificate[]
+}
+
+interface WalletBackup {
+  format: typeof BACKUP_FORMAT
+  version: number
+  address: string
+  createdAt: number
+  payload: string
+}
+
+interface BackupKey extends Omit<WalletKey, "encryptedPrivateKey"> {
+  privateKey: JsonWebKey
+}
+
+const getWalletKey = (userId: string) => `${WALLET_STORAGE_KEY}_${userId}`
+
+const saveWallet = (userId: string, wallet: Wallet): void => {
+  localStorage.setItem(getWalletKey(userId), JSON.stringify(wallet))
+}
+
+const sealPrivateKey = async (
+  keyId: string,
+  privateKey: JsonWebKey,
+  encryptionKey: EncryptionKey = getSessionKey(),
+): Promise<string> => {
+  return encryptData(privateKey, encryptionKey, `wallet:${keyId}`)
+}
+
+const openPrivateKey = async (
+  walletKey: WalletKey,
+  encryptionKey: EncryptionKey = getSessionKey(),
+): Promise<JsonWebKey> => {
+  return decryptData(walletKey.encryptedPrivateKey, encryptionKey, `wallet:${walletKey.id}`)
+}
+
+const serializeCertificate = (address: string, publicKey: string, previousPublicKey: string, issuedAt: number) => {
+  return JSON.stringify([KEY_CERTIFICATE_VERSION, address, publicKey, previousPublicKey, issuedAt])
+}
+
+// Addresses keep the `wallet_` prefix used for wallet ids throughout the app
+export const deriveWalletAddress = async (publicKey: string): Promise<string> => {
+  return `wallet_${(await sha256Hex(base64ToBytes(publicKey))).substring(0, 40)}`
+}
+
+export const getWallet = (userId: string): Wallet | null => {
+  const stored = localStorage.getItem(getWalletKey(userId))
+  if (!stored) {
+    return null
+  }
+
+  try {
+    return JSON.parse(stored)
+  } catch (error) {
+    console.error("Failed to parse wallet", error)
+    return null
+  }
+}
+
+// Components mounting right after unlock may all ask for the wallet at once
+const pendingCreations = new Map<string, Promise<Wallet>>()
+
+const createWallet = async (userId: string): Promise<Wallet> => {
+  const keyPair = await generateSigningKeyPair()
+  const publicKey = await exportPublicKey(keyPair.publicKey)
+  const keyId = generateId()
+
+  const wallet: Wallet = {
+    version: WALLET_VERSION,
+    address: await deriveWalletAddress(publicKey),
+    activeKeyId: keyId,
+    keys: [
+      {
+        id: keyId,
+        publicKey,
+        createdAt: Date.now(),
+        encryptedPrivateKey: await sealPrivateKey(keyId, await exportPrivateKey(keyPair.privateKey)),
+      },
+    ],
+  }
+
+  saveWallet(userId, wallet)
+  return wallet
+}
+
+// Requires an unlocked vault: the private key is stored under the session key
+export const loadOrCreateWallet = async (userId: string): Promise<Wallet> => {
+  const existing = getWallet(userId)
+  if (existing) {
+    return existing
+  }
+
+  if (!pendingCreations.has(userId)) {
+    pendingCreations.set(
+      userId,
+      createWallet(userId).finally(() => pendingCreations.delete(userId)),
+    )
+  }
+  return pendingCreations.get(userId)!
+}
+
+export const getKeyProof = (wallet: Wallet, keyId: string = wallet.activeKeyId): KeyCertificate[] => {
+  const index = wallet.keys.findIndex((key) => key.id === keyId)
+  return wallet.keys
+    .slice(1, index + 1)
+    .map((key) => key.certificate)
+    .filter((certificate): certificate is KeyCertificate => Boolean(certificate))
+}
+
+export const getActiveSigner = async (userId: string): Promise<WalletSigner> => {
+  const wallet = await loadOrCreateWallet(userId)
+  const activeKey = wallet.keys.find((key) => key.id === wallet.activeKeyId)
+  if (!activeKey) {
+    throw new Error("Wallet has no active key")
+  }
+
+  return {
+    address: wallet.address,
+    publicKey: activeKey.publicKey,
+    privateKey: await importPrivateKey(await openPrivateKey(activeKey)),
+    keyProof: getKeyProof(wallet),
+  }
+}
+
+// The new key is endorsed by the current one. Retired keys are kept (public half
+// only matters) so transactions signed before the rotation still verify.
+export const rotateWalletKey = async (userId: string): Promise<Wallet> => {
+  const wallet = await loadOrCreateWallet(userId)
+  const signer = await getActiveSigner(userId)
+
+  const keyPair = await generateSigningKeyPair()
+  const publicKey = await exportPublicKey(keyPair.publicKey)
+  const keyId = generateId()
+  const issuedAt = Date.now()
+
+  const certificate: KeyCertificate = {
+    publicKey,
+    previousPublicKey: signer.publicKey,
+    issuedAt,
+    signature: await signData(
+      serializeCertificate(wallet.address, publicKey, signer.publicKey, issuedAt),
+      signer.privateKey,
+    ),
+  }
+
+  const updatedWallet: Wallet = {
+    ...wallet,
+    activeKeyId: keyId,
+    keys: [
+      ...wallet.keys.map((key) => (key.id === wallet.activeKeyId ? { ...key, retiredAt: issuedAt } : key)),
+      {
+        id: keyId,
+        publicKey,
+        createdAt: issuedAt,
+        certificate,
+        encryptedPrivateKey: await sealPrivateKey(keyId, await exportPrivateKey(keyPair.privateKey)),
+      },
+    ],
+  }
+
+  saveWallet(userId, updatedWallet)
+  return updatedWallet
+}
+
+// Checks that `publicKey` belongs to `address`: either it is the key the address
+// was derived from, or a chain of rotation certificates leads to it from there
+export const verifyWalletKey = async (
+  address: string,
+  publicKey: string,
+  keyProof: KeyCertificate[] = [],
+): Promise<boolean> => {
+  let currentKey = keyProof.length > 0 ? keyProof[0].previousPublicKey : publicKey
+
+  try {
+    if ((await deriveWalletAddress(currentKey)) !== address) {
+      return false
+    }
+  } catch (error) {
+    console.warn("Invalid wallet public key:", error)
+    return false
+  }
+
+  for (const certificate of keyProof) {
+    if (certificate.previousPublicKey !== currentKey) {
+      return false
+    }
+
+    const isValid = await verifyData(
+      serializeCertificate(address, certificate.publicKey, certificate.previousPublicKey, certificate.issuedAt),
+      certificate.signature,
+      currentKey,
+    )
+    if (!isValid) {
+      return false
+    }
+
+    currentKey = certificate.publicKey
+  }
+
+  return currentKey === publicKey
+}
+
+export const exportWalletBackup = async (userId: string, passphrase: string): Promise<string> => {
+  const wallet = await loadOrCreateWallet(userId)
+
+  const keys: BackupKey[] = []
+  for (const walletKey of wallet.keys) {
+    const { encryptedPrivateKey, ...rest } = walletKey
+    keys.push({ ...rest, privateKey: await openPrivateKey(walletKey) })
+  }
+
+  const backupKey = await deriveEncryptionKey(passphrase)
+  const backup: WalletBackup = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    address: wallet.address,
+    createdAt: Date.now(),
+    payload: await encryptData(
+      { activeKeyId: wallet.activeKeyId, keys },
+      backupKey,
+      `${BACKUP_FORMAT}:${wallet.address}`,
+    ),
+  }
+
+  return JSON.stringify(backup, null, 2)
+}
+
+// Replaces this user's wallet with the one in the backup after checking that
+// the keys really belong to the backed-up address
+export const importWalletBackup = async (userId: string, backupContents: string, passphrase: string): Promise<Wallet> => {
+  let backup: WalletBackup
+  try {
+    backup = JSON.parse(backupContents)
+  } catch {
+    throw new Error("This is not a wallet backup file")
+  }
+
+  if (backup.format !== BACKUP_FORMAT) {
+    throw new Error("This is not a wallet backup file")
+  }
+  if (backup.version !== BACKUP_VERSION) {
+    throw new Error(`Unsupported backup version ${backup.version}`)
+  }
+
+  let payload: { activeKeyId: string; keys: BackupKey[] }
+  try {
+    payload = await decryptWithSecret(backup.payload, passphrase, `${BACKUP_FORMAT}:${backup.address}`)
+  } catch {
+    throw new Error("Incorrect passphrase or corrupted backup")
+  }
+
+  const activeKey = payload.keys.find((key) => key.id === payload.activeKeyId)
+  const keyProof = payload.keys
+    .slice(1)
+    .map((key) => key.certificate)
+    .filter((certificate): certificate is KeyCertificate => Boolean(certificate))
+  if (!activeKey || !(await verifyWalletKey(backup.address, activeKey.publicKey, keyProof))) {
+    throw new Error("Backup keys do not match the wallet address")
+  }
+
+  const keys: WalletKey[] = []
+  for (const { privateKey, ...rest } of payload.keys) {
+    keys.push({ ...rest, encryptedPrivateKey: await sealPrivateKey(rest.id, privateKey) })
+  }
+
+  const wallet: Wallet = {
+    version: WALLET_VERSION,
+    address: backup.address,
+    activeKeyId: payload.activeKeyId,
+    keys,
+  }
+
+  saveWallet(userId, wallet)
+  return wallet
+}
+
+// For a PIN change: the wallet's localStorage key and record with every private
+// key sealed under `toKey`. Nothing is written; the caller commits it. Null when
+// there is no wallet yet.
+export const reencryptWallet = async (
+  userId: string,
+  fromKey: EncryptionKey,
+  toKey: EncryptionKey,
+): Promise<[string, string] | null> => {
+  const wallet = getWallet(userId)
+  if (!wallet) return null
+
+  const keys: WalletKey[] = []
+  for (const walletKey of wallet.keys) {
+    const privateKey = await openPrivateKey(walletKey, fromKey)
+    keys.push({ ...walletKey, encryptedPrivateKey: await sealPrivateKey(walletKey.id, privateKey, toKey) })
+  }
+
+  return [getWalletKey(userId), JSON.stringify({ ...wallet, keys })]
+}
@@ -0,0 +1,23 @@
+import { searchNonce, type MinerRequest, type MinerResponse } from "../utils/miner"
+
+// Typed loosely so this file compiles against the DOM lib the rest of the app uses
+const worker = self as unknown as {
+  onmessage: ((event: MessageEvent<MinerRequest>) => void) | null
+  postMessage: (message: MinerResponse) => void
+}
+
+worker.onmessage = (event) => {
+  const request = event.data
+  if (request.type !== "mine") return
+
+  try {
+    const result = searchNonce(request.header, (attempts) => {
+      worker.postMessage({ type: "progress", attempts })
+    })
+    if (result) {
+      worker.postMessage({ type: "found", ...result })
+    }
+  } catch (error) {
+    worker.postMessage({ type: "error", message: error instanceof Error ? error.message : String(error) })
+  }
+}